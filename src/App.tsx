@@ -1,14 +1,30 @@
-import { Routes, Route, useNavigate, useParams } from 'react-router-dom';
+import { Routes, Route, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
 import { RecordingFlow } from './components/RecordingFlow';
 import { BottomNav } from './components/BottomNav';
 import { AudioPlayer } from './components/AudioPlayer';
 import { RecordingDetailPage } from './components/RecordingDetailPage';
-import { getAllRhythms, getTagById, getRhythmById, getRecordingsByRhythmId, getRecordingById, getTagsByIds, createRecording, updateRhythm, createTag, deleteRecording, updateRecording, exportAllData, importAllData, getAllRecordings, removeDuplicateRhythms } from './db/storage';
-import type { Rhythm, Recording } from './types';
+import { ImportPreviewPage } from './components/ImportPreviewPage';
+import { IntegrityPanel } from './components/IntegrityPanel';
+import { CaptureSettingsPanel } from './components/CaptureSettingsPanel';
+import { DuplicateMergePage } from './components/DuplicateMergePage';
+import { TagManagerPage } from './components/TagManagerPage';
+import { HighlightedText } from './components/HighlightedText';
+import { SavedSearchesPage } from './components/SavedSearchesPage';
+import { RecordingsBrowserPage } from './components/RecordingsBrowserPage';
+import { RecordingListItem } from './components/RecordingListItem';
+import { VirtualList } from './components/VirtualList';
+import { getAllRhythms, getRecordingById, getTagsByIds, createRecording, updateRhythmTagValues, deleteRecording, updateRecording, exportAllData, importAllData, getAllRecordings, getSavedSearchById, getAllSavedSearches, createSavedSearch, updateSavedSearch, ConcurrentEditError } from './db/storage';
+import type { Rhythm, Recording, SearchField, RhythmSortOption, RhythmListFilters, SavedSearch, RhythmSummary, QueryNode } from './types';
 import { importRhythmsData } from './utils/importData';
 import { useAudioPlayback } from './context/AudioPlaybackContext';
-import { db } from './db/schema';
+import { runQuery } from './db/queryEvaluator';
+import { parseQuery } from './utils/queryParser';
+import { onTabMessage } from './utils/tabChannel';
+import { encodeWav } from './utils/audioSegments';
+import { PLAYED_WITHIN_OPTIONS, describePlayedWithin } from './utils/playedWithin';
+import { useRhythmSummaries, useRhythmSummariesByIds, useRhythmFilterOptions, useRhythm, useRecordingsByRhythm, useTag, useDatabaseStats } from './hooks/useLiveData';
 
 function App() {
   // RUN IMPORT ONCE - Remove this after import is complete
@@ -29,9 +45,14 @@ function App() {
         <Routes>
           <Route path="/" element={<RecordingFlow />} />
           <Route path="/rhythms" element={<RhythmListPage />} />
+          <Route path="/saved" element={<SavedSearchesPage />} />
           <Route path="/rhythm/:id" element={<RhythmDetailPage />} />
           <Route path="/recording/:id" element={<RecordingDetailPage />} />
+          <Route path="/recordings" element={<RecordingsBrowserPage />} />
           <Route path="/settings" element={<SettingsPage />} />
+          <Route path="/import" element={<ImportPreviewPage />} />
+          <Route path="/duplicates" element={<DuplicateMergePage />} />
+          <Route path="/tags" element={<TagManagerPage />} />
           <Route path="/debug" element={<DebugPage />} />
         </Routes>
       </main>
@@ -42,198 +63,131 @@ function App() {
   );
 }
 
+// Typical rhythm card, until cards are measured
+const RHYTHM_CARD_HEIGHT = 160;
+
+// Stable stand-ins while the rhythm list loads, so memoized filtering isn't redone every render
+const NO_SUMMARIES: RhythmSummary[] = [];
+const NO_FILTER_OPTIONS: RhythmListFilters = { alternateNames: [], regions: [], ethnicGroups: [], occasions: [], languages: [] };
+
+const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  name: 'Name',
+  alternateName: 'Also known as',
+  tag: 'Tags',
+  lyrics: 'Lyrics',
+  lyricsTranslation: 'Translation',
+  notes: 'Notes',
+  fileName: 'Recording',
+  location: 'Location',
+  player: 'Player',
+  recordingNotes: 'Recording notes'
+};
+
 // Rhythm List Page
 function RhythmListPage() {
-  const [rhythms, setRhythms] = useState<Rhythm[]>([]);
   const navigate = useNavigate();
-  const [rhythmNames, setRhythmNames] = useState<Map<string, string>>(new Map());
-  const [rhythmTags, setRhythmTags] = useState<Map<string, string[]>>(new Map());
-  const [isLoading, setIsLoading] = useState(true);
 
   // Use global audio playback context
-  const { playRecording, isPlaying, recentlyPlayedRecordings } = useAudioPlayback();
+  const { playRecording, isPlaying, getRecordingsPlayedWithin } = useAudioPlayback();
 
   // Search and filter state
   const [searchQuery, setSearchQuery] = useState('');
-  const [sortOption, setSortOption] = useState<'name-asc' | 'date-newest' | 'date-oldest' | 'recordings'>('date-newest');
-  const [showRecentlyPlayed, setShowRecentlyPlayed] = useState(false);
-  const [selectedFilters, setSelectedFilters] = useState<{
-    alternateNames: string[];
-    regions: string[];
-    ethnicGroups: string[];
-    occasions: string[];
-    languages: string[];
-  }>({
+  const [sortOption, setSortOption] = useState<RhythmSortOption>('date-newest');
+  const [playedWithinDays, setPlayedWithinDays] = useState<number | null>(null);
+  const [selectedFilters, setSelectedFilters] = useState<RhythmListFilters>({
     alternateNames: [],
     regions: [],
     ethnicGroups: [],
     occasions: [],
     languages: []
   });
-  const [showFilterMenu, setShowFilterMenu] = useState(false);
 
-  // All available tags for filtering
-  const [allTags, setAllTags] = useState<{
-    alternateNames: string[];
-    regions: string[];
-    ethnicGroups: string[];
-    occasions: string[];
-    languages: string[];
-  }>({
-    alternateNames: [],
-    regions: [],
-    ethnicGroups: [],
-    occasions: [],
-    languages: []
-  });
+  // Loaded a page at a time as the list is scrolled, already sorted and filtered by tag
+  const listQuery = useMemo(() => ({ sort: sortOption, filters: selectedFilters }), [sortOption, selectedFilters]);
+  const { summaries: pagedSummaries, hasMore, loadMore } = useRhythmSummaries(listQuery);
+  const isLoading = pagedSummaries === undefined;
 
-  // Full rhythm data with all tags (for filtering)
-  type RhythmData = {
-    name: string;
-    alternateNames: string[];
-    regions: string[];
-    ethnicGroups: string[];
-    occasions: string[];
-    languages: string[];
-  };
-  const [rhythmFullData, setRhythmFullData] = useState<Map<string, RhythmData>>(new Map());
-  const [favoriteRecordings, setFavoriteRecordings] = useState<Map<string, Recording>>(new Map());
+  const [showFilterMenu, setShowFilterMenu] = useState(false);
 
-  useEffect(() => {
-    const loadRhythms = async () => {
-      try {
-        const allRhythms = await getAllRhythms();
+  // Saved search opened via /rhythms?saved=<id>
+  const [searchParams, setSearchParams] = useSearchParams();
+  const savedSearchId = searchParams.get('saved');
+  const [activeSavedSearch, setActiveSavedSearch] = useState<SavedSearch | null>(null);
 
-        // Sort by updatedDate, most recent first
-        const sortedRhythms = allRhythms.sort((a, b) =>
-          new Date(b.updatedDate).getTime() - new Date(a.updatedDate).getTime()
-        );
-        setRhythms(sortedRhythms);
-
-        // Load all primary rhythm names and tags
-        const nameMap = new Map<string, string>();
-        const tagsMap = new Map<string, string[]>();
-        const fullDataMap = new Map();
-
-        // Collect all unique tags
-        const allAlternateNames = new Set<string>();
-        const allRegions = new Set<string>();
-        const allEthnicGroups = new Set<string>();
-        const allOccasions = new Set<string>();
-        const allLanguages = new Set<string>();
-
-        for (const rhythm of sortedRhythms) {
-          const tag = await getTagById(rhythm.primaryRhythmNameTag);
-          const rhythmName = tag?.value || 'Unknown';
-          nameMap.set(rhythm.id, rhythmName);
-
-          // Load all tag types
-          const alternateTags = await getTagsByIds(rhythm.alternateRhythmNameTags);
-          const regionTags = await getTagsByIds(rhythm.regionTags);
-          const ethnicTags = await getTagsByIds(rhythm.ethnicGroupTags);
-          const occasionTags = await getTagsByIds(rhythm.occasionTags);
-          const languageTags = await getTagsByIds(rhythm.languageTags);
-
-          const alternateNames = alternateTags.map(t => t.value);
-          const regions = regionTags.map(t => t.value);
-          const ethnicGroups = ethnicTags.map(t => t.value);
-          const occasions = occasionTags.map(t => t.value);
-          const languages = languageTags.map(t => t.value);
-
-          // Store full data for filtering
-          fullDataMap.set(rhythm.id, {
-            name: rhythmName,
-            alternateNames,
-            regions,
-            ethnicGroups,
-            occasions,
-            languages
-          });
-
-          // Collect unique tags
-          alternateNames.forEach(t => allAlternateNames.add(t));
-          regions.forEach(t => allRegions.add(t));
-          ethnicGroups.forEach(t => allEthnicGroups.add(t));
-          occasions.forEach(t => allOccasions.add(t));
-          languages.forEach(t => allLanguages.add(t));
-
-          // Display tags (priority order for UI display)
-          const displayTags: string[] = [];
-          displayTags.push(...alternateNames);
-          displayTags.push(...regions);
-          displayTags.push(...ethnicGroups);
-          tagsMap.set(rhythm.id, displayTags.slice(0, 5)); // Limit to 5 tags
-        }
+  // All available tags for filtering
+  const allTags = useRhythmFilterOptions() ?? NO_FILTER_OPTIONS;
 
-        setRhythmNames(nameMap);
-        setRhythmTags(tagsMap);
-        setRhythmFullData(fullDataMap);
-
-        // Set all available tags for filters
-        setAllTags({
-          alternateNames: Array.from(allAlternateNames).sort(),
-          regions: Array.from(allRegions).sort(),
-          ethnicGroups: Array.from(allEthnicGroups).sort(),
-          occasions: Array.from(allOccasions).sort(),
-          languages: Array.from(allLanguages).sort()
-        });
+  // Apply a saved search's criteria; the results are worked out afresh from current data
+  useEffect(() => {
+    if (!savedSearchId) {
+      setActiveSavedSearch(null);
+      return;
+    }
 
-        // Load one favorite recording per rhythm
-        const favoriteMap = new Map<string, Recording>();
-        for (const rhythm of sortedRhythms) {
-          if (rhythm.recordingIds.length > 0) {
-            const recordings = await getRecordingsByRhythmId(rhythm.id);
-            const favorite = recordings.find(r => r.isFavorite);
-            if (favorite) {
-              favoriteMap.set(rhythm.id, favorite);
-            }
-          }
+    getSavedSearchById(savedSearchId)
+      .then(search => {
+        if (!search) {
+          setSearchParams({}, { replace: true });
+          return;
         }
-        setFavoriteRecordings(favoriteMap);
-      } catch (error) {
-        console.error('Error loading rhythms:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+        setActiveSavedSearch(search);
+        setSearchQuery(search.query);
+        setSelectedFilters(search.filters);
+        setPlayedWithinDays(search.playedWithinDays);
+        setSortOption(search.sortOption);
+      })
+      .catch(error => console.error('Error loading saved search:', error));
+  }, [savedSearchId, setSearchParams]);
+
+  const parsedQuery = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+
+  // The last query that parsed. While the box has a syntax error its results stay on screen.
+  const [activeQuery, setActiveQuery] = useState<QueryNode | null>(null);
+  if (!parsedQuery.error && parsedQuery.query !== activeQuery) {
+    setActiveQuery(parsedQuery.query);
+  }
 
-    loadRhythms();
-  }, []);
+  // Re-run as the archive changes; stale responses from earlier keystrokes are dropped
+  const searchResults = useLiveQuery(async () => {
+    if (!activeQuery) return null;
+    try {
+      const results = await runQuery(activeQuery);
+      return new Map(results.map(result => [result.rhythmId, result]));
+    } catch (error) {
+      console.error('Search error:', error);
+      return null;
+    }
+  }, [activeQuery], null);
+
+  // While searching, list the matches themselves rather than the pages loaded so far
+  const searchResultIds = useMemo(() => (searchResults ? Array.from(searchResults.keys()) : null), [searchResults]);
+  const searchSummaries = useRhythmSummariesByIds(searchResultIds);
+  const summaries = (searchResults ? searchSummaries : pagedSummaries) ?? NO_SUMMARIES;
+  const stats = useDatabaseStats();
+
+  const handleSearchChange = (value: string) => {
+    // Rank by relevance while searching, and fall back once the box is cleared
+    if (!searchQuery.trim() && value.trim()) {
+      setSortOption('relevance');
+    } else if (!value.trim() && sortOption === 'relevance') {
+      setSortOption('date-newest');
+    }
+    setSearchQuery(value);
+  };
 
   // Filter and sort rhythms
   const filteredAndSortedRhythms = useMemo(() => {
-    let filtered = rhythms;
+    let filtered = summaries;
 
     // Apply recently played filter
-    if (showRecentlyPlayed) {
-      filtered = filtered.filter(rhythm => {
-        // Check if any of this rhythm's recordings were recently played
-        return rhythm.recordingIds.some(recId =>
-          recentlyPlayedRecordings.includes(recId)
-        );
-      });
+    if (playedWithinDays !== null) {
+      const played = getRecordingsPlayedWithin(playedWithinDays);
+      filtered = filtered.filter(({ rhythm }) => rhythm.recordingIds.some(recId => played.has(recId)));
     }
 
-    // Apply search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(rhythm => {
-        const data = rhythmFullData.get(rhythm.id);
-        if (!data) return false;
-
-        // Search in rhythm name
-        if (data.name.toLowerCase().includes(query)) return true;
-
-        // Search in all tag arrays
-        if (data.alternateNames.some(t => t.toLowerCase().includes(query))) return true;
-        if (data.regions.some(t => t.toLowerCase().includes(query))) return true;
-        if (data.ethnicGroups.some(t => t.toLowerCase().includes(query))) return true;
-        if (data.occasions.some(t => t.toLowerCase().includes(query))) return true;
-        if (data.languages.some(t => t.toLowerCase().includes(query))) return true;
-
-        return false;
-      });
-    }
+    // Pages come sorted and filtered by tag; search results are matched here
+    if (!searchResults) return filtered;
+    filtered = filtered.filter(({ rhythm }) => searchResults.has(rhythm.id));
 
     // Apply tag filters
     const hasActiveFilters =
@@ -244,10 +198,7 @@ function RhythmListPage() {
       selectedFilters.languages.length > 0;
 
     if (hasActiveFilters) {
-      filtered = filtered.filter(rhythm => {
-        const data = rhythmFullData.get(rhythm.id);
-        if (!data) return false;
-
+      filtered = filtered.filter(data => {
         // Check if rhythm has ALL selected filters (AND logic)
         const matchesAlternateNames = selectedFilters.alternateNames.length === 0 ||
           selectedFilters.alternateNames.some(f => data.alternateNames.includes(f));
@@ -268,21 +219,30 @@ function RhythmListPage() {
     // Apply sorting
     const sorted = [...filtered].sort((a, b) => {
       switch (sortOption) {
+        case 'relevance':
+          return (searchResults?.get(b.rhythm.id)?.score ?? 0) - (searchResults?.get(a.rhythm.id)?.score ?? 0);
         case 'name-asc':
-          return (rhythmFullData.get(a.id)?.name || '').localeCompare(rhythmFullData.get(b.id)?.name || '');
+          return a.name.localeCompare(b.name);
         case 'date-newest':
-          return new Date(b.updatedDate).getTime() - new Date(a.updatedDate).getTime();
+          return new Date(b.rhythm.updatedDate).getTime() - new Date(a.rhythm.updatedDate).getTime();
         case 'date-oldest':
-          return new Date(a.updatedDate).getTime() - new Date(b.updatedDate).getTime();
+          return new Date(a.rhythm.updatedDate).getTime() - new Date(b.rhythm.updatedDate).getTime();
         case 'recordings':
-          return b.recordingIds.length - a.recordingIds.length;
+          return b.rhythm.recordingIds.length - a.rhythm.recordingIds.length;
         default:
           return 0;
       }
     });
 
     return sorted;
-  }, [rhythms, searchQuery, selectedFilters, sortOption, rhythmFullData, showRecentlyPlayed, recentlyPlayedRecordings]);
+  }, [summaries, searchResults, selectedFilters, sortOption, playedWithinDays, getRecordingsPlayedWithin]);
+
+  // The list loads more as it's scrolled, except while the played-within filter
+  // hides every rhythm loaded so far and there is nothing to scroll
+  const needsNextPage = !searchResults && filteredAndSortedRhythms.length === 0;
+  useEffect(() => {
+    if (needsNextPage && hasMore) loadMore();
+  }, [needsNextPage, hasMore, loadMore]);
 
   // Helper functions for filter management
   const toggleFilter = (category: keyof typeof selectedFilters, value: string) => {
@@ -310,7 +270,45 @@ function RhythmListPage() {
       languages: []
     });
     setSearchQuery('');
-    setShowRecentlyPlayed(false);
+    setPlayedWithinDays(null);
+    setSearchParams({});
+  };
+
+  // Save the current search, filters and sort. Reusing a saved search's name updates it.
+  const handleSaveSearch = async () => {
+    const name = prompt('Name this search:', activeSavedSearch?.name ?? '')?.trim();
+    if (!name) return;
+
+    const criteria = {
+      name,
+      query: searchQuery,
+      filters: selectedFilters,
+      playedWithinDays,
+      sortOption
+    };
+
+    try {
+      const existing = (await getAllSavedSearches())
+        .find(search => search.name.toLowerCase() === name.toLowerCase());
+
+      let savedId: string;
+      if (existing) {
+        if (existing.id !== activeSavedSearch?.id &&
+            !confirm(`A saved search named "${existing.name}" already exists. Replace it?`)) {
+          return;
+        }
+        await updateSavedSearch(existing.id, criteria);
+        savedId = existing.id;
+      } else {
+        savedId = (await createSavedSearch(criteria)).id;
+      }
+
+      setActiveSavedSearch(await getSavedSearchById(savedId) ?? null);
+      setSearchParams({ saved: savedId }, { replace: true });
+    } catch (error) {
+      console.error('Error saving search:', error);
+      alert('Failed to save search');
+    }
   };
 
 
@@ -335,7 +333,7 @@ function RhythmListPage() {
       <div className="flex justify-between items-center mb-4">
         <h1 className="text-2xl font-bold text-white">Rhythms</h1>
         <div className="text-sm text-gray-400">
-          {filteredAndSortedRhythms.length} of {rhythms.length}
+          {filteredAndSortedRhythms.length}{!searchResults && hasMore && '+'} of {stats?.rhythms ?? summaries.length}
         </div>
       </div>
 
@@ -345,9 +343,9 @@ function RhythmListPage() {
         <div className="flex-1 relative">
           <input
             type="text"
-            placeholder="Search rhythms..."
+            placeholder="Search, or try region:Guinea -occasion:wedding has:lyrics"
             value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            onChange={(e) => handleSearchChange(e.target.value)}
             className="input-field w-full pl-10"
           />
           <svg
@@ -360,16 +358,18 @@ function RhythmListPage() {
           </svg>
         </div>
 
-        {/* Recently Played toggle */}
-        <button
-          onClick={() => setShowRecentlyPlayed(!showRecentlyPlayed)}
-          className={`btn-secondary px-3 py-2 flex items-center gap-2 ${showRecentlyPlayed ? 'bg-blue-600 text-white' : ''}`}
+        {/* Recently Played window */}
+        <select
+          value={playedWithinDays ?? ''}
+          onChange={(e) => setPlayedWithinDays(e.target.value ? Number(e.target.value) : null)}
+          className={`btn-secondary px-3 py-2 ${playedWithinDays !== null ? 'bg-blue-600 text-white' : ''}`}
           title="Show recently played"
         >
-          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-          </svg>
-        </button>
+          <option value="">Played any time</option>
+          {PLAYED_WITHIN_OPTIONS.map(days => (
+            <option key={days} value={days}>{describePlayedWithin(days)}</option>
+          ))}
+        </select>
 
         {/* Filter button */}
         <button
@@ -392,6 +392,7 @@ function RhythmListPage() {
           onChange={(e) => setSortOption(e.target.value as typeof sortOption)}
           className="input-field px-3 py-2"
         >
+          {searchResults && <option value="relevance">Best match</option>}
           <option value="date-newest">Newest</option>
           <option value="date-oldest">Oldest</option>
           <option value="name-asc">A-Z</option>
@@ -399,6 +400,20 @@ function RhythmListPage() {
         </select>
       </div>
 
+      {/* Query syntax error, with the offending part of the query underlined */}
+      {parsedQuery.error && (
+        <div className="text-sm mb-4 -mt-2">
+          <p className="text-red-400">{parsedQuery.error.message}</p>
+          <p className="font-mono text-gray-400 whitespace-pre-wrap break-all">
+            {searchQuery.slice(0, parsedQuery.error.position)}
+            <span className="text-red-400 underline decoration-wavy">
+              {searchQuery.slice(parsedQuery.error.position, parsedQuery.error.position + parsedQuery.error.length) || ' '}
+            </span>
+            {searchQuery.slice(parsedQuery.error.position + parsedQuery.error.length)}
+          </p>
+        </div>
+      )}
+
       {/* Filter menu */}
       {showFilterMenu && (
         <div className="card mb-4 max-h-96 overflow-y-auto">
@@ -502,8 +517,13 @@ function RhythmListPage() {
       )}
 
       {/* Active filter chips */}
-      {(activeFilterCount > 0 || searchQuery.trim() || showRecentlyPlayed) && (
-        <div className="flex flex-wrap gap-2 mb-4">
+      {(activeFilterCount > 0 || searchQuery.trim() || playedWithinDays !== null) && (
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {activeSavedSearch && (
+            <span className="text-sm text-gray-400 w-full">
+              Saved search: <span className="text-white">{activeSavedSearch.name}</span>
+            </span>
+          )}
           {searchQuery.trim() && (
             <div className="bg-gray-700 text-white px-3 py-1 rounded-full flex items-center gap-2 text-sm">
               <span>Search: "{searchQuery}"</span>
@@ -512,15 +532,15 @@ function RhythmListPage() {
               </button>
             </div>
           )}
-          {showRecentlyPlayed && (
+          {playedWithinDays !== null && (
             <div className="bg-blue-600 text-white px-3 py-1 rounded-full flex items-center gap-2 text-sm">
-              <span>Recently Played</span>
-              <button onClick={() => setShowRecentlyPlayed(false)} className="hover:text-red-400">
+              <span>{describePlayedWithin(playedWithinDays)}</span>
+              <button onClick={() => setPlayedWithinDays(null)} className="hover:text-red-400">
                 ×
               </button>
             </div>
           )}
-          {Object.entries(selectedFilters).map(([category, values]) =>
+          {(Object.entries(selectedFilters) as [keyof RhythmListFilters, string[]][]).map(([category, values]) =>
             values.map(value => (
               <div
                 key={`${category}-${value}`}
@@ -528,7 +548,7 @@ function RhythmListPage() {
               >
                 <span>{value}</span>
                 <button
-                  onClick={() => removeFilter(category as keyof typeof selectedFilters, value)}
+                  onClick={() => removeFilter(category, value)}
                   className="hover:text-red-400"
                 >
                   ×
@@ -536,15 +556,20 @@ function RhythmListPage() {
               </div>
             ))
           )}
+          <button onClick={handleSaveSearch} className="text-sm text-blue-400 hover:text-blue-300 ml-auto">
+            {activeSavedSearch ? 'Update saved search' : 'Save search'}
+          </button>
         </div>
       )}
 
       {/* Results */}
-      {rhythms.length === 0 ? (
+      {pagedSummaries.length === 0 ? (
         <div className="card text-center py-12">
           <p className="text-xl text-white mb-4">No rhythms yet!</p>
           <p className="text-gray-400 mb-6">Tap the record button to create your first rhythm</p>
         </div>
+      ) : filteredAndSortedRhythms.length === 0 && !searchResults && hasMore ? (
+        <p className="text-center text-sm text-gray-400 py-4">Looking through more rhythms...</p>
       ) : filteredAndSortedRhythms.length === 0 ? (
         <div className="card text-center py-12">
           <p className="text-xl text-white mb-4">No matching rhythms</p>
@@ -554,109 +579,134 @@ function RhythmListPage() {
           </button>
         </div>
       ) : (
-        <div className="space-y-3">
-          {filteredAndSortedRhythms.map((rhythm) => {
-            const tags = rhythmTags.get(rhythm.id) || [];
-            const favoriteRecording = favoriteRecordings.get(rhythm.id);
+        <VirtualList
+          items={filteredAndSortedRhythms}
+          estimatedItemHeight={RHYTHM_CARD_HEIGHT}
+          getKey={({ rhythm }) => rhythm.id}
+          onEndReached={searchResults ? undefined : loadMore}
+          renderItem={({ rhythm, name, alternateNames, regions, ethnicGroups, favoriteRecording }) => {
+            // Display tags (priority order for UI display)
+            const tags = [...alternateNames, ...regions, ...ethnicGroups].slice(0, 5);
+            const highlights = searchResults?.get(rhythm.id)?.highlights ?? [];
+            const nameHighlight = highlights.find(h => h.field === 'name');
+            const otherHighlights = highlights.filter(h => h.field !== 'name').slice(0, 2);
             return (
-              <div
-                key={rhythm.id}
-                onClick={() => navigate(`/rhythm/${rhythm.id}`)}
-                className="card hover:bg-gray-700 transition-colors cursor-pointer"
-              >
-                <h3 className="text-lg font-bold text-white mb-2">
-                  {rhythmNames.get(rhythm.id) || 'Unknown'}
-                </h3>
-
-                <div className="flex items-center gap-2 text-xs mb-2 flex-wrap">
-                  {tags.map((tag, index) => (
-                    <span key={index} className="bg-gray-700 text-gray-300 px-2 py-1 rounded">
-                      {tag}
-                    </span>
-                  ))}
-                </div>
+              <div className="pb-3">
+                <div
+                  onClick={() => navigate(`/rhythm/${rhythm.id}`)}
+                  className="card hover:bg-gray-700 transition-colors cursor-pointer"
+                >
+                  <h3 className="text-lg font-bold text-white mb-2">
+                    {nameHighlight
+                      ? <HighlightedText text={nameHighlight.text} ranges={nameHighlight.ranges} />
+                      : name}
+                  </h3>
+
+                  {otherHighlights.length > 0 && (
+                    <div className="text-xs text-gray-400 mb-2 space-y-1">
+                      {otherHighlights.map((highlight, index) => (
+                        <p key={index} className="truncate">
+                          <span className="text-gray-500">{SEARCH_FIELD_LABELS[highlight.field]}:</span>{' '}
+                          <HighlightedText text={highlight.text} ranges={highlight.ranges} />
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex items-center gap-2 text-xs mb-2 flex-wrap">
+                    {tags.map((tag, index) => (
+                      <span key={index} className="bg-gray-700 text-gray-300 px-2 py-1 rounded">
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
 
-                {favoriteRecording && (
-                  <div className="mt-2 mb-2 p-2 bg-gray-900/50 rounded space-y-1">
-                    {/* Title and play buttons */}
-                    <div className="flex items-center gap-2">
-                      <span className="text-yellow-400" title="Favorite recording">⭐</span>
-                      <span className="text-sm text-gray-300 flex-1">{favoriteRecording.fileName}</span>
-                      {favoriteRecording.audioBlob && (
-                        <div className="flex items-center gap-1">
-                          {/* Play button */}
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              playRecording(favoriteRecording.id, favoriteRecording.audioBlob!, false, favoriteRecording.loopPoints);
-                            }}
-                            className={`p-1 rounded transition-colors ${
-                              isPlaying(favoriteRecording.id, false)
-                                ? 'bg-blue-600 text-white'
-                                : 'hover:bg-gray-700 text-gray-400'
-                            }`}
-                            title="Play"
-                          >
-                            {isPlaying(favoriteRecording.id, false) ? (
-                              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
-                                <path d="M6 4h4v16H6V4zm8 0h4v16h-4V4z" />
-                              </svg>
-                            ) : (
-                              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
-                                <path d="M8 5v14l11-7z" />
-                              </svg>
-                            )}
-                          </button>
-                          {/* Loop button - only show if loop points are set */}
-                          {favoriteRecording.loopPoints && (
+                  {favoriteRecording && (
+                    <div className="mt-2 mb-2 p-2 bg-gray-900/50 rounded space-y-1">
+                      {/* Title and play buttons */}
+                      <div className="flex items-center gap-2">
+                        <span className="text-yellow-400" title="Favorite recording">⭐</span>
+                        <span className="text-sm text-gray-300 flex-1">{favoriteRecording.fileName}</span>
+                        {favoriteRecording.audioBlob && (
+                          <div className="flex items-center gap-1">
+                            {/* Play button */}
                             <button
                               onClick={(e) => {
                                 e.stopPropagation();
-                                playRecording(favoriteRecording.id, favoriteRecording.audioBlob!, true, favoriteRecording.loopPoints);
+                                playRecording(favoriteRecording.id, favoriteRecording.audioBlob!, false, favoriteRecording.loopPoints);
                               }}
                               className={`p-1 rounded transition-colors ${
-                                isPlaying(favoriteRecording.id, true)
+                                isPlaying(favoriteRecording.id, false)
                                   ? 'bg-blue-600 text-white'
                                   : 'hover:bg-gray-700 text-gray-400'
                               }`}
-                              title="Loop (saved points)"
+                              title="Play"
                             >
-                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                              </svg>
+                              {isPlaying(favoriteRecording.id, false) ? (
+                                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                                  <path d="M6 4h4v16H6V4zm8 0h4v16h-4V4z" />
+                                </svg>
+                              ) : (
+                                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                                  <path d="M8 5v14l11-7z" />
+                                </svg>
+                              )}
                             </button>
-                          )}
-                        </div>
-                      )}
-                    </div>
+                            {/* Loop button - only show if loop points are set */}
+                            {favoriteRecording.loopPoints && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  playRecording(favoriteRecording.id, favoriteRecording.audioBlob!, true, favoriteRecording.loopPoints);
+                                }}
+                                className={`p-1 rounded transition-colors ${
+                                  isPlaying(favoriteRecording.id, true)
+                                    ? 'bg-blue-600 text-white'
+                                    : 'hover:bg-gray-700 text-gray-400'
+                                }`}
+                                title="Loop (saved points)"
+                              >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                                </svg>
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
 
-                    {/* Location, date, and duration */}
-                    <div className="flex items-center gap-2">
-                      <span className="text-yellow-400 invisible">⭐</span>
-                      <div className="text-xs text-gray-500 flex items-center justify-between flex-1">
-                        <span>
-                          {[
-                            favoriteRecording.location,
-                            favoriteRecording.recordedDate ? new Date(favoriteRecording.recordedDate).toLocaleDateString() : null
-                          ].filter(Boolean).join(' • ')}
-                        </span>
-                        {favoriteRecording.duration && (
+                      {/* Location, date, and duration */}
+                      <div className="flex items-center gap-2">
+                        <span className="text-yellow-400 invisible">⭐</span>
+                        <div className="text-xs text-gray-500 flex items-center justify-between flex-1">
                           <span>
-                            {Math.floor(favoriteRecording.duration / 60)}:{Math.floor(favoriteRecording.duration % 60).toString().padStart(2, '0')}
+                            {[
+                              favoriteRecording.location,
+                              favoriteRecording.recordedDate ? new Date(favoriteRecording.recordedDate).toLocaleDateString() : null
+                            ].filter(Boolean).join(' • ')}
                           </span>
-                        )}
+                          {favoriteRecording.duration && (
+                            <span>
+                              {Math.floor(favoriteRecording.duration / 60)}:{Math.floor(favoriteRecording.duration % 60).toString().padStart(2, '0')}
+                            </span>
+                          )}
+                        </div>
                       </div>
                     </div>
-                  </div>
-                )}
+                  )}
 
-                <div className="text-xs text-blue-400">
-                  {rhythm.recordingIds.length} {rhythm.recordingIds.length === 1 ? 'recording' : 'recordings'}
+                  <div className="text-xs text-blue-400">
+                    {rhythm.recordingIds.length} {rhythm.recordingIds.length === 1 ? 'recording' : 'recordings'}
+                  </div>
                 </div>
               </div>
             );
-          })}
-        </div>
+          }}
+        />
+      )}
+
+      {!searchResults && hasMore && filteredAndSortedRhythms.length > 0 && (
+        <p className="text-center text-sm text-gray-400 py-4">Loading more rhythms...</p>
       )}
     </div>
   );
@@ -675,111 +725,22 @@ function NewRecordingPage() {
   return <RecordingFlow />;
 }
 
-// Recording List Item Component
-function RecordingListItem({ recording, onUpdateTitle, onDelete }: {
-  recording: Recording;
-  onUpdateTitle: (id: string, title: string) => void;
-  onDelete: (id: string) => void;
-}) {
-  const navigate = useNavigate();
-  const { playRecording, isPlaying: isPlayingGlobal } = useAudioPlayback();
-
-  const formatTime = (seconds: number): string => {
-    if (isNaN(seconds)) return '0:00';
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
-  };
-
-  const handleRecordingClick = () => {
-    navigate(`/recording/${recording.id}`);
-  };
-
-  return (
-    <div className="bg-gray-800 rounded-lg p-5 mb-3">
-      <div className="flex items-start gap-4">
-        {/* Content */}
-        <div className="flex-1 min-w-0 cursor-pointer" onClick={handleRecordingClick}>
-          {/* Title */}
-          <h3 className="text-xl font-normal text-white mb-2 hover:text-blue-400 transition-colors">
-            {recording.fileName}
-          </h3>
-
-          {/* Location and date */}
-          <p className="text-sm text-gray-400 mb-3">
-            {recording.location && recording.recordedDate ? (
-              `${recording.location} • ${new Date(recording.recordedDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
-            ) : recording.location || (recording.recordedDate && new Date(recording.recordedDate).toLocaleDateString())}
-          </p>
-        </div>
-
-        {/* Duration and play/loop buttons */}
-        <div className="flex flex-col items-end gap-3 flex-shrink-0">
-          <span className="text-sm text-gray-400 font-normal">{formatTime(recording.duration)}</span>
-          {recording.audioBlob && (
-            <div className="flex items-center gap-1">
-              {/* Play button */}
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  playRecording(recording.id, recording.audioBlob!, false, recording.loopPoints);
-                }}
-                className={`p-1 rounded transition-colors ${
-                  isPlayingGlobal(recording.id, false)
-                    ? 'bg-blue-600 text-white'
-                    : 'hover:bg-gray-700 text-gray-400'
-                }`}
-                title="Play"
-              >
-                {isPlayingGlobal(recording.id, false) ? (
-                  <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
-                    <path d="M6 4h4v16H6V4zm8 0h4v16h-4V4z" />
-                  </svg>
-                ) : (
-                  <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
-                    <path d="M8 5v14l11-7z" />
-                  </svg>
-                )}
-              </button>
-              {/* Loop button - only show if loop points are set */}
-              {recording.loopPoints && (
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    playRecording(recording.id, recording.audioBlob!, true, recording.loopPoints);
-                  }}
-                  className={`p-1 rounded transition-colors ${
-                    isPlayingGlobal(recording.id, true)
-                      ? 'bg-blue-600 text-white'
-                      : 'hover:bg-gray-700 text-gray-400'
-                  }`}
-                  title="Loop (saved points)"
-                >
-                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                  </svg>
-                </button>
-              )}
-            </div>
-          )}
-        </div>
-      </div>
-    </div>
-  );
-}
-
 // Rhythm Detail Page
 function RhythmDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [rhythm, setRhythm] = useState<Rhythm | null>(null);
-  const [rhythmName, setRhythmName] = useState('');
-  const [recordings, setRecordings] = useState<Recording[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const rhythm = useRhythm(id);
+  const nameTag = useTag(rhythm?.primaryRhythmNameTag);
+  const loadedRecordings = useRecordingsByRhythm(id);
+  const rhythmName = nameTag?.value ?? '';
+  const recordings = loadedRecordings ?? [];
+  const isLoading = rhythm === undefined || (rhythm !== null && (nameTag === undefined || loadedRecordings === undefined));
   const [isEditMode, setIsEditMode] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [changedElsewhere, setChangedElsewhere] = useState(false); // Saved in another tab since we last looked
 
   // Edit mode state
+  const [editBaseDate, setEditBaseDate] = useState<string | null>(null); // updatedDate of the rhythm being edited
   const [editedName, setEditedName] = useState('');
   const [editedAlternateNames, setEditedAlternateNames] = useState('');
   const [editedRegions, setEditedRegions] = useState('');
@@ -790,34 +751,11 @@ function RhythmDetailPage() {
   const [editedLyricsTranslation, setEditedLyricsTranslation] = useState('');
   const [editedNotes, setEditedNotes] = useState('');
 
-  useEffect(() => {
-    const loadRhythm = async () => {
-      if (!id) return;
-
-      try {
-        const rhythmData = await getRhythmById(id);
-        if (rhythmData) {
-          setRhythm(rhythmData);
-
-          // Load rhythm name
-          const tag = await getTagById(rhythmData.primaryRhythmNameTag);
-          if (tag) {
-            setRhythmName(tag.value);
-          }
-
-          // Load recordings
-          const recordingsData = await getRecordingsByRhythmId(id);
-          setRecordings(recordingsData);
-        }
-      } catch (error) {
-        console.error('Error loading rhythm:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    loadRhythm();
-  }, [id]);
+  useEffect(() => onTabMessage(message => {
+    if (message.type === 'rhythm-changed' && message.rhythmId === id) {
+      setChangedElsewhere(true);
+    }
+  }), [id]);
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -860,16 +798,14 @@ function RhythmDetailPage() {
         notes: '',
         loopPoints: null,
         waveformData: null,
-        isFavorite: false
+        isFavorite: false,
+        markers: [],
+        clipTimes: [],
+        captureInfo: null
       });
 
       console.log('Recording created successfully');
 
-      // Reload recordings
-      const updatedRecordings = await getRecordingsByRhythmId(id);
-      setRecordings(updatedRecordings);
-      console.log('Recordings reloaded');
-
       alert('File uploaded successfully!');
     } catch (error) {
       console.error('Error uploading file:', error);
@@ -911,7 +847,7 @@ function RhythmDetailPage() {
         console.log('Successfully decoded audio from video');
 
         // Convert AudioBuffer back to Blob
-        const wavBlob = await audioBufferToWavBlob(audioBuffer);
+        const wavBlob = encodeWav(audioBuffer);
         audioContext.close();
         return wavBlob;
       } catch (decodeError) {
@@ -928,94 +864,52 @@ function RhythmDetailPage() {
     }
   };
 
-  // Helper function to convert AudioBuffer to WAV Blob
-  const audioBufferToWavBlob = async (audioBuffer: AudioBuffer): Promise<Blob> => {
-    const numberOfChannels = audioBuffer.numberOfChannels;
-    const sampleRate = audioBuffer.sampleRate;
-    const format = 1; // PCM
-    const bitDepth = 16;
-
-    const bytesPerSample = bitDepth / 8;
-    const blockAlign = numberOfChannels * bytesPerSample;
-
-    const data = new Float32Array(audioBuffer.length * numberOfChannels);
-    for (let channel = 0; channel < numberOfChannels; channel++) {
-      const channelData = audioBuffer.getChannelData(channel);
-      for (let i = 0; i < audioBuffer.length; i++) {
-        data[i * numberOfChannels + channel] = channelData[i];
-      }
-    }
+  // Fill the edit form from the current rhythm; saving checks it hasn't changed since
+  const loadEditValues = async (rhythm: Rhythm) => {
+    setEditBaseDate(rhythm.updatedDate);
+    setEditedName(rhythmName);
 
-    const dataLength = data.length * bytesPerSample;
-    const buffer = new ArrayBuffer(44 + dataLength);
-    const view = new DataView(buffer);
+    // Load alternate names
+    const alternateTags = await getTagsByIds(rhythm.alternateRhythmNameTags);
+    setEditedAlternateNames(alternateTags.map(t => t.value).join(', '));
 
-    // WAV header
-    const writeString = (offset: number, string: string) => {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-      }
-    };
+    // Load regions
+    const regionTags = await getTagsByIds(rhythm.regionTags);
+    setEditedRegions(regionTags.map(t => t.value).join(', '));
 
-    writeString(0, 'RIFF');
-    view.setUint32(4, 36 + dataLength, true);
-    writeString(8, 'WAVE');
-    writeString(12, 'fmt ');
-    view.setUint32(16, 16, true); // fmt chunk size
-    view.setUint16(20, format, true);
-    view.setUint16(22, numberOfChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * blockAlign, true);
-    view.setUint16(32, blockAlign, true);
-    view.setUint16(34, bitDepth, true);
-    writeString(36, 'data');
-    view.setUint32(40, dataLength, true);
-
-    // Write audio data
-    const volume = 0.8;
-    let offset = 44;
-    for (let i = 0; i < data.length; i++) {
-      const sample = Math.max(-1, Math.min(1, data[i]));
-      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
-      offset += 2;
-    }
+    // Load ethnic groups
+    const ethnicTags = await getTagsByIds(rhythm.ethnicGroupTags);
+    setEditedEthnicGroups(ethnicTags.map(t => t.value).join(', '));
 
-    return new Blob([buffer], { type: 'audio/wav' });
+    // Load occasions
+    const occasionTags = await getTagsByIds(rhythm.occasionTags);
+    setEditedOccasions(occasionTags.map(t => t.value).join(', '));
+
+    // Load languages
+    const languageTags = await getTagsByIds(rhythm.languageTags);
+    setEditedLanguages(languageTags.map(t => t.value).join(', '));
+
+    // Load text fields
+    setEditedLyrics(rhythm.lyrics || '');
+    setEditedLyricsTranslation(rhythm.lyricsTranslation || '');
+    setEditedNotes(rhythm.notes || '');
   };
 
   const handleEditToggle = async () => {
     if (!isEditMode && rhythm) {
-      // Load current values when entering edit mode
-      setEditedName(rhythmName);
-
-      // Load alternate names
-      const alternateTags = await getTagsByIds(rhythm.alternateRhythmNameTags);
-      setEditedAlternateNames(alternateTags.map(t => t.value).join(', '));
-
-      // Load regions
-      const regionTags = await getTagsByIds(rhythm.regionTags);
-      setEditedRegions(regionTags.map(t => t.value).join(', '));
-
-      // Load ethnic groups
-      const ethnicTags = await getTagsByIds(rhythm.ethnicGroupTags);
-      setEditedEthnicGroups(ethnicTags.map(t => t.value).join(', '));
-
-      // Load occasions
-      const occasionTags = await getTagsByIds(rhythm.occasionTags);
-      setEditedOccasions(occasionTags.map(t => t.value).join(', '));
-
-      // Load languages
-      const languageTags = await getTagsByIds(rhythm.languageTags);
-      setEditedLanguages(languageTags.map(t => t.value).join(', '));
-
-      // Load text fields
-      setEditedLyrics(rhythm.lyrics || '');
-      setEditedLyricsTranslation(rhythm.lyricsTranslation || '');
-      setEditedNotes(rhythm.notes || '');
+      await loadEditValues(rhythm);
+      setChangedElsewhere(false);
     }
     setIsEditMode(!isEditMode);
   };
 
+  // Start over from the version saved in the other tab
+  const handleLoadLatest = async () => {
+    if (!rhythm) return;
+    await loadEditValues(rhythm);
+    setChangedElsewhere(false);
+  };
+
   const handleDeleteRecording = async (recordingId: string) => {
     if (!window.confirm('Are you sure you want to delete this recording?')) {
       return;
@@ -1023,12 +917,6 @@ function RhythmDetailPage() {
 
     try {
       await deleteRecording(recordingId);
-
-      // Reload recordings
-      if (id) {
-        const updatedRecordings = await getRecordingsByRhythmId(id);
-        setRecordings(updatedRecordings);
-      }
     } catch (error) {
       console.error('Error deleting recording:', error);
       alert('Failed to delete recording');
@@ -1038,13 +926,6 @@ function RhythmDetailPage() {
   const handleUpdateRecordingTitle = async (recordingId: string, newTitle: string) => {
     try {
       await updateRecording(recordingId, { fileName: newTitle });
-
-      // Update local state
-      setRecordings(prevRecordings =>
-        prevRecordings.map(rec =>
-          rec.id === recordingId ? { ...rec, fileName: newTitle } : rec
-        )
-      );
     } catch (error) {
       console.error('Error updating recording title:', error);
       alert('Failed to update title');
@@ -1055,81 +936,40 @@ function RhythmDetailPage() {
     if (!rhythm || !id) return;
 
     try {
-      // Create new tag for the updated name
-      const newTag = await createTag('rhythmName', editedName.trim());
-
-      // Process alternate names
-      const alternateTagIds: string[] = [];
-      if (editedAlternateNames.trim()) {
-        const names = editedAlternateNames.split(',').map(n => n.trim()).filter(n => n);
-        for (const name of names) {
-          const tag = await createTag('rhythmName', name);
-          alternateTagIds.push(tag.id);
-        }
-      }
-
-      // Process regions
-      const regionTagIds: string[] = [];
-      if (editedRegions.trim()) {
-        const regions = editedRegions.split(',').map(n => n.trim()).filter(n => n);
-        for (const region of regions) {
-          const tag = await createTag('region', region);
-          regionTagIds.push(tag.id);
-        }
-      }
-
-      // Process ethnic groups
-      const ethnicTagIds: string[] = [];
-      if (editedEthnicGroups.trim()) {
-        const groups = editedEthnicGroups.split(',').map(n => n.trim()).filter(n => n);
-        for (const group of groups) {
-          const tag = await createTag('ethnicGroup', group);
-          ethnicTagIds.push(tag.id);
-        }
-      }
-
-      // Process occasions
-      const occasionTagIds: string[] = [];
-      if (editedOccasions.trim()) {
-        const occasions = editedOccasions.split(',').map(n => n.trim()).filter(n => n);
-        for (const occasion of occasions) {
-          const tag = await createTag('occasion', occasion);
-          occasionTagIds.push(tag.id);
-        }
-      }
-
-      // Process languages
-      const languageTagIds: string[] = [];
-      if (editedLanguages.trim()) {
-        const languages = editedLanguages.split(',').map(n => n.trim()).filter(n => n);
-        for (const language of languages) {
-          const tag = await createTag('language', language);
-          languageTagIds.push(tag.id);
-        }
-      }
-
-      // Update rhythm with all new data
-      await updateRhythm(id, {
-        primaryRhythmNameTag: newTag.id,
-        alternateRhythmNameTags: alternateTagIds,
-        regionTags: regionTagIds,
-        ethnicGroupTags: ethnicTagIds,
-        occasionTags: occasionTagIds,
-        languageTags: languageTagIds,
+      const splitValues = (text: string) => text.split(',').map(n => n.trim()).filter(n => n);
+      const tagValues = {
+        primaryName: editedName.trim(),
+        alternateNames: splitValues(editedAlternateNames),
+        regions: splitValues(editedRegions),
+        ethnicGroups: splitValues(editedEthnicGroups),
+        occasions: splitValues(editedOccasions),
+        languages: splitValues(editedLanguages)
+      };
+      const updates = {
         lyrics: editedLyrics.trim(),
         lyricsTranslation: editedLyricsTranslation.trim(),
-        notes: editedNotes.trim(),
-        updatedDate: new Date().toISOString()
-      });
+        notes: editedNotes.trim()
+      };
+
+      // Saved only if nobody else has changed the rhythm since editing began
+      try {
+        await updateRhythmTagValues(id, tagValues, updates, editBaseDate ?? undefined);
+      } catch (error) {
+        if (!(error instanceof ConcurrentEditError)) throw error;
 
-      // Reload rhythm data
-      const updatedRhythm = await getRhythmById(id);
-      if (updatedRhythm) {
-        setRhythm(updatedRhythm);
-        setRhythmName(editedName);
+        const overwrite = window.confirm(
+          'This rhythm was changed in another tab while you were editing.\n\n' +
+          'Save your version anyway? The other changes will be overwritten.'
+        );
+        if (!overwrite) {
+          setChangedElsewhere(true);
+          return;
+        }
+        await updateRhythmTagValues(id, tagValues, updates);
       }
 
       setIsEditMode(false);
+      setChangedElsewhere(false);
     } catch (error) {
       console.error('Error saving rhythm:', error);
       alert('Failed to save changes');
@@ -1194,6 +1034,26 @@ function RhythmDetailPage() {
         )}
       </div>
 
+      {/* Another tab saved this rhythm */}
+      {changedElsewhere && (
+        <div className="card bg-yellow-900/30 mb-6 flex items-center gap-3">
+          <p className="text-yellow-300 text-sm flex-1">
+            {isEditMode
+              ? 'This rhythm was changed in another tab while you were editing.'
+              : 'This rhythm was changed in another tab. The latest version is shown.'}
+          </p>
+          {isEditMode ? (
+            <button onClick={handleLoadLatest} className="btn-secondary px-3 py-1 text-sm">
+              Load latest
+            </button>
+          ) : (
+            <button onClick={() => setChangedElsewhere(false)} className="text-yellow-300 hover:text-white">
+              ×
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Recordings */}
       <div className="space-y-3 mb-6">
         <div className="flex items-center justify-between">
@@ -1204,11 +1064,13 @@ function RhythmDetailPage() {
               id="file-upload"
               accept="audio/*,video/*"
               onChange={handleFileUpload}
+              disabled={isEditMode}
               className="hidden"
             />
+            {/* Not while editing: adding a recording updates the rhythm, which would look like a conflicting edit */}
             <label
               htmlFor="file-upload"
-              className={`btn-primary px-4 py-2 cursor-pointer inline-block ${isUploading ? 'opacity-50' : ''}`}
+              className={`btn-primary px-4 py-2 inline-block ${isUploading || isEditMode ? 'opacity-50' : 'cursor-pointer'}`}
             >
               {isUploading ? 'Uploading...' : '+ Upload'}
             </label>
@@ -1438,6 +1300,8 @@ function DebugPage() {
         <p className="text-gray-300">Recordings: {dbInfo?.recordingCount || 0}</p>
       </div>
 
+      <IntegrityPanel />
+
       {dbInfo?.error && (
         <div className="card bg-red-900/20">
           <h2 className="text-xl font-bold text-red-400 mb-2">Error</h2>
@@ -1485,7 +1349,7 @@ function DebugPage() {
 // Settings Page
 function SettingsPage() {
   const navigate = useNavigate();
-  const [dbStats, setDbStats] = useState<{ rhythms: number; recordings: number; tags: number } | null>(null);
+  const dbStats = useDatabaseStats();
   const [autoBackup, setAutoBackup] = useState(() => {
     return localStorage.getItem('autoBackup') === 'true';
   });
@@ -1493,16 +1357,6 @@ function SettingsPage() {
     return localStorage.getItem('lastBackup');
   });
 
-  useEffect(() => {
-    const loadStats = async () => {
-      const rhythms = await getAllRhythms();
-      const recordings = await getAllRecordings();
-      const tags = await db.tags.toArray();
-      setDbStats({ rhythms: rhythms.length, recordings: recordings.length, tags: tags.length });
-    };
-    loadStats();
-  }, []);
-
   const handleExport = async () => {
     try {
       await exportAllData();
@@ -1516,6 +1370,12 @@ function SettingsPage() {
     }
   };
 
+  const handleImportPreview = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    navigate('/import', { state: { file } });
+  };
+
   const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -1535,16 +1395,12 @@ function SettingsPage() {
     }
 
     try {
-      const result = await importAllData(file);
+      const result = await importAllData(file, 'replace');
 
       if (result.success) {
-        alert('✅ ' + result.message + '\n\nNavigating to Rhythms page...');
-        // Navigate to rhythms page instead of reloading
+        alert('✅ ' + result.message);
+        // Every screen follows the database, so no reload is needed
         navigate('/rhythms');
-        // Force a small delay then reload the page cleanly
-        setTimeout(() => {
-          window.location.href = window.location.origin + '/rhythms';
-        }, 100);
       } else {
         alert('❌ ' + result.message);
       }
@@ -1598,33 +1454,6 @@ function SettingsPage() {
     checkAndBackup();
   }, [autoBackup, lastBackup]);
 
-  const handleRemoveDuplicates = async () => {
-    const confirmed = window.confirm(
-      '⚠️ Remove Duplicate Rhythms\n\n' +
-      'This will:\n' +
-      '- Find rhythms with the same name\n' +
-      '- Keep the most recent version\n' +
-      '- Delete all older duplicates\n\n' +
-      'This cannot be undone. Continue?'
-    );
-
-    if (!confirmed) return;
-
-    try {
-      const result = await removeDuplicateRhythms();
-      alert(`✅ Cleanup complete!\n\nRemoved: ${result.removed} duplicates\nKept: ${result.kept} unique rhythms`);
-
-      // Reload stats
-      const rhythms = await getAllRhythms();
-      const recordings = await getAllRecordings();
-      const tags = await db.tags.toArray();
-      setDbStats({ rhythms: rhythms.length, recordings: recordings.length, tags: tags.length });
-    } catch (error) {
-      console.error('Duplicate removal error:', error);
-      alert('❌ Failed to remove duplicates: ' + (error instanceof Error ? error.message : 'Unknown error'));
-    }
-  };
-
   return (
     <div className="space-y-4 pb-8">
       <h1 className="text-2xl font-bold text-white mb-4">Settings</h1>
@@ -1648,20 +1477,32 @@ function SettingsPage() {
         </div>
       </div>
 
+      {/* Recording */}
+      <CaptureSettingsPanel />
+
       {/* Database Maintenance */}
       <div className="card">
         <h2 className="text-lg font-bold text-white mb-3">Database Maintenance</h2>
         <button
-          onClick={handleRemoveDuplicates}
+          onClick={() => navigate('/tags')}
+          className="btn-secondary w-full mb-3 flex items-center justify-center gap-2"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+          </svg>
+          Manage Tags
+        </button>
+        <button
+          onClick={() => navigate('/duplicates')}
           className="btn-secondary w-full flex items-center justify-center gap-2"
         >
           <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2" />
           </svg>
-          Remove Duplicate Rhythms
+          Find &amp; Merge Duplicates
         </button>
         <p className="text-xs text-gray-400 mt-2">
-          Removes rhythms with the same name, keeping the most recent version
+          Finds rhythms with the same or similar names and merges their tags, text and recordings
         </p>
       </div>
 
@@ -1685,10 +1526,19 @@ function SettingsPage() {
           <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
           </svg>
+          Import Data (Preview &amp; Merge)
+          <input
+            type="file"
+            accept=".zip,.json,application/zip,application/json"
+            onChange={handleImportPreview}
+            className="hidden"
+          />
+        </label>
+        <label className="btn-outline w-full mt-3 flex items-center justify-center gap-2 cursor-pointer">
           Import Data (Replace All)
           <input
             type="file"
-            accept="application/json"
+            accept=".zip,.json,application/zip,application/json"
             onChange={handleImport}
             className="hidden"
           />
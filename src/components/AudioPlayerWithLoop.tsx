@@ -1,6 +1,6 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState } from 'react';
 import { LoopEditor } from './LoopEditor';
-import { useAudioPlayback } from '../context/AudioPlaybackContext';
+import { useAudioPlayback, MIN_PLAYBACK_SPEED, MAX_PLAYBACK_SPEED } from '../context/AudioPlaybackContext';
 
 interface LoopPoints {
   start: number;
@@ -16,6 +16,9 @@ interface AudioPlayerWithLoopProps {
   onSaveLoopPoints?: (points: LoopPoints | null) => void;
 }
 
+const SKIP_SECONDS = 5;
+const SPEED_STEP_PERCENT = 5;
+
 export function AudioPlayerWithLoop({
   audioBlob,
   duration: propDuration,
@@ -33,16 +36,37 @@ export function AudioPlayerWithLoop({
     isPlaying: isPlayingGlobal,
     playingRecordingId,
     currentTime: contextCurrentTime,
-    duration: contextDuration
+    duration: contextDuration,
+    seek,
+    skip,
+    getResumePosition,
+    playbackSpeed,
+    setPlaybackSpeed,
+    isSpeedSupported
   } = useAudioPlayback();
 
-  // Use context time if this recording is playing, otherwise show 0
-  const currentTime = playingRecordingId === recordingId ? contextCurrentTime : 0;
-  const duration = playingRecordingId === recordingId && contextDuration > 0 ? contextDuration : propDuration;
+  const speedPercent = Math.round(playbackSpeed * 100);
+
+  // Use context time if this recording is loaded, otherwise where it will resume from
+  const isLoaded = playingRecordingId === recordingId;
+  const currentTime = isLoaded ? contextCurrentTime : getResumePosition(recordingId);
+  const duration = isLoaded && contextDuration > 0 ? contextDuration : propDuration;
 
+  // Seek within the loaded recording; otherwise start playing from there
   const handleSeek = async (time: number) => {
-    // For now, seeking is disabled during playback
-    // Could be enhanced to support seeking in the future
+    if (isLoaded) {
+      await seek(time);
+    } else {
+      await playRecording(recordingId, audioBlob, false, loopPoints, time);
+    }
+  };
+
+  const handleSkip = async (seconds: number) => {
+    if (isLoaded) {
+      await skip(seconds);
+    } else {
+      await handleSeek(Math.max(0, currentTime + seconds));
+    }
   };
 
   const handleLoopPointsChange = (points: LoopPoints | null) => {
@@ -73,6 +97,13 @@ export function AudioPlayerWithLoop({
         <div className="flex items-center gap-4">
           {/* Control buttons on the left */}
           <div className="flex items-center gap-3">
+            <button
+              onClick={() => handleSkip(-SKIP_SECONDS)}
+              className="w-10 h-10 rounded-full bg-gray-700 text-gray-300 hover:bg-gray-600 text-xs font-semibold flex-shrink-0"
+              title={`Back ${SKIP_SECONDS} seconds`}
+            >
+              -{SKIP_SECONDS}s
+            </button>
             <button
               onClick={() => playRecording(recordingId, audioBlob, false, loopPoints)}
               className={`w-12 h-12 rounded-full transition-all flex items-center justify-center flex-shrink-0 ${
@@ -92,6 +123,13 @@ export function AudioPlayerWithLoop({
                 </svg>
               )}
             </button>
+            <button
+              onClick={() => handleSkip(SKIP_SECONDS)}
+              className="w-10 h-10 rounded-full bg-gray-700 text-gray-300 hover:bg-gray-600 text-xs font-semibold flex-shrink-0"
+              title={`Forward ${SKIP_SECONDS} seconds`}
+            >
+              +{SKIP_SECONDS}s
+            </button>
             {loopPoints && (
               <button
                 onClick={() => playRecording(recordingId, audioBlob, true, loopPoints)}
@@ -136,6 +174,41 @@ export function AudioPlayerWithLoop({
             </div>
           </div>
         </div>
+
+        {/* Practice speed; pitch stays the same */}
+        {isSpeedSupported && (
+          <div className="mt-4 space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <label htmlFor={`speed-${recordingId}`} className="text-gray-300">
+                Speed: <span className="font-mono text-white">{speedPercent}%</span>
+              </label>
+              {speedPercent !== 100 && (
+                <button
+                  onClick={() => setPlaybackSpeed(1)}
+                  className="text-xs text-blue-400 hover:text-blue-300"
+                >
+                  Reset to 100%
+                </button>
+              )}
+            </div>
+            <input
+              id={`speed-${recordingId}`}
+              type="range"
+              min={MIN_PLAYBACK_SPEED * 100}
+              max={MAX_PLAYBACK_SPEED * 100}
+              step={SPEED_STEP_PERCENT}
+              value={speedPercent}
+              onChange={(e) => setPlaybackSpeed(Number(e.target.value) / 100)}
+              className="w-full"
+            />
+            {loopPoints && (
+              <p className="text-xs text-gray-400">
+                Loop lasts {((loopPoints.end - loopPoints.start) / playbackSpeed).toFixed(1)}s at this speed
+                ({(loopPoints.end - loopPoints.start).toFixed(1)}s at 100%)
+              </p>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Loop editor */}
@@ -143,7 +216,7 @@ export function AudioPlayerWithLoop({
         <LoopEditor
           waveformData={waveformData}
           duration={duration}
-          currentTime={0}
+          currentTime={currentTime}
           loopPoints={loopPoints}
           onLoopPointsChange={handleLoopPointsChange}
           onSeek={handleSeek}
@@ -1,34 +1,16 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState } from 'react';
+import { useRecorder, buildRecordingFileName } from '../hooks/useRecorder';
 
 interface AudioRecorderProps {
-  onRecordingComplete: (audioBlob: Blob, fileName: string) => void;
+  onRecordingComplete: (audioBlob: Blob, fileName: string, markers: number[]) => void; // markers: pause points in seconds
   defaultLocation?: string;
 }
 
-type RecordingState = 'idle' | 'requesting' | 'recording' | 'stopped';
-
 export function AudioRecorder({ onRecordingComplete, defaultLocation = '' }: AudioRecorderProps) {
-  const [recordingState, setRecordingState] = useState<RecordingState>('idle');
-  const [recordingTime, setRecordingTime] = useState(0);
-  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
-  const [audioUrl, setAudioUrl] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const recorder = useRecorder();
+  const { state: recordingState, audioBlob, audioUrl } = recorder;
   const [location, setLocation] = useState(defaultLocation);
 
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
-  const timerIntervalRef = useRef<number | null>(null);
-  const recordingStartTimeRef = useRef<string>('');
-
-  // Clean up audio URL on unmount
-  useEffect(() => {
-    return () => {
-      if (audioUrl) {
-        URL.revokeObjectURL(audioUrl);
-      }
-    };
-  }, [audioUrl]);
-
   // Format time as HH:MM:SS
   const formatTime = (seconds: number): string => {
     const hrs = Math.floor(seconds / 3600);
@@ -37,108 +19,12 @@ export function AudioRecorder({ onRecordingComplete, defaultLocation = '' }: Aud
     return `${hrs.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  // Generate auto-naming: [Location] - [YYYY-MM-DD] - [HH:MM:SS]
-  const generateFileName = (): string => {
-    const now = new Date(recordingStartTimeRef.current);
-    const date = now.toISOString().split('T')[0]; // YYYY-MM-DD
-    const time = now.toTimeString().split(' ')[0]; // HH:MM:SS
-    const loc = location.trim() || 'Unknown Location';
-    return `${loc} - ${date} - ${time}`;
-  };
-
-  const startRecording = async () => {
-    try {
-      setRecordingState('requesting');
-      setError(null);
-
-      // Request microphone access
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          sampleRate: 44100
-        }
-      });
-
-      // Create MediaRecorder
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: 'audio/webm;codecs=opus'
-      });
-
-      mediaRecorderRef.current = mediaRecorder;
-      audioChunksRef.current = [];
-      recordingStartTimeRef.current = new Date().toISOString();
-
-      // Handle data available
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data);
-        }
-      };
-
-      // Handle recording stop
-      mediaRecorder.onstop = () => {
-        const blob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-        setAudioBlob(blob);
-
-        // Create URL for preview
-        const url = URL.createObjectURL(blob);
-        setAudioUrl(url);
-
-        // Stop all tracks
-        stream.getTracks().forEach(track => track.stop());
-
-        setRecordingState('stopped');
-      };
-
-      // Start recording
-      mediaRecorder.start();
-      setRecordingState('recording');
-      setRecordingTime(0);
-
-      // Start timer
-      timerIntervalRef.current = window.setInterval(() => {
-        setRecordingTime(prev => prev + 1);
-      }, 1000);
-
-    } catch (err) {
-      console.error('Error starting recording:', err);
-      setError('Failed to access microphone. Please grant permission and try again.');
-      setRecordingState('idle');
-    }
-  };
-
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && recordingState === 'recording') {
-      mediaRecorderRef.current.stop();
-
-      // Stop timer
-      if (timerIntervalRef.current) {
-        clearInterval(timerIntervalRef.current);
-        timerIntervalRef.current = null;
-      }
-    }
-  };
+  const generateFileName = (): string => buildRecordingFileName(location, recorder.startedAt ?? new Date());
 
   const handleSave = () => {
     if (audioBlob) {
-      const fileName = generateFileName();
-      onRecordingComplete(audioBlob, fileName);
-    }
-  };
-
-  const handleReset = () => {
-    // Clean up
-    if (audioUrl) {
-      URL.revokeObjectURL(audioUrl);
+      onRecordingComplete(audioBlob, generateFileName(), recorder.markers);
     }
-
-    setAudioBlob(null);
-    setAudioUrl(null);
-    setRecordingState('idle');
-    setRecordingTime(0);
-    setError(null);
-    audioChunksRef.current = [];
   };
 
   return (
@@ -146,9 +32,9 @@ export function AudioRecorder({ onRecordingComplete, defaultLocation = '' }: Aud
       <h2 className="text-xl font-bold text-white mb-4">Audio Recording</h2>
 
       {/* Error message */}
-      {error && (
+      {recorder.error && (
         <div className="bg-red-50 border-2 border-red-300 text-red-800 px-4 py-3 rounded-lg mb-4">
-          {error}
+          {recorder.error}
         </div>
       )}
 
@@ -176,16 +62,21 @@ export function AudioRecorder({ onRecordingComplete, defaultLocation = '' }: Aud
             {recordingState === 'recording' && (
               <div className="w-3 h-3 bg-red-500 rounded-full animate-pulse"></div>
             )}
+            {recordingState === 'paused' && (
+              <div className="w-3 h-3 bg-gray-400 rounded-full"></div>
+            )}
             <div>
               <p className="text-sm font-medium text-gray-300">
                 {recordingState === 'idle' && 'Ready to record'}
                 {recordingState === 'requesting' && 'Requesting microphone access...'}
                 {recordingState === 'recording' && 'Recording in progress'}
+                {recordingState === 'paused' && 'Paused'}
                 {recordingState === 'stopped' && 'Recording complete'}
+                {recordingState === 'error' && 'Recording failed'}
               </p>
-              {recordingState === 'recording' && (
+              {(recordingState === 'recording' || recordingState === 'paused') && (
                 <p className="text-2xl font-mono font-bold text-white mt-1">
-                  {formatTime(recordingTime)}
+                  {formatTime(recorder.elapsedSeconds)}
                 </p>
               )}
             </div>
@@ -194,9 +85,9 @@ export function AudioRecorder({ onRecordingComplete, defaultLocation = '' }: Aud
 
         {/* Control Buttons */}
         <div className="flex gap-3">
-          {recordingState === 'idle' && (
+          {(recordingState === 'idle' || recordingState === 'error') && (
             <button
-              onClick={startRecording}
+              onClick={recorder.start}
               className="btn-danger flex-1"
             >
               <span className="flex items-center justify-center gap-2">
@@ -206,9 +97,18 @@ export function AudioRecorder({ onRecordingComplete, defaultLocation = '' }: Aud
             </button>
           )}
 
-          {recordingState === 'recording' && (
+          {(recordingState === 'recording' || recordingState === 'paused') && (
+            <button
+              onClick={recordingState === 'paused' ? recorder.resume : recorder.pause}
+              className="btn-outline"
+            >
+              {recordingState === 'paused' ? 'Resume' : 'Pause'}
+            </button>
+          )}
+
+          {(recordingState === 'recording' || recordingState === 'paused') && (
             <button
-              onClick={stopRecording}
+              onClick={recorder.stop}
               className="btn-secondary flex-1"
             >
               <span className="flex items-center justify-center gap-2">
@@ -221,7 +121,7 @@ export function AudioRecorder({ onRecordingComplete, defaultLocation = '' }: Aud
           {recordingState === 'stopped' && (
             <>
               <button
-                onClick={handleReset}
+                onClick={recorder.reset}
                 className="btn-outline"
               >
                 Record Again
@@ -246,7 +146,7 @@ export function AudioRecorder({ onRecordingComplete, defaultLocation = '' }: Aud
               className="w-full"
             />
             <p className="text-sm text-gray-500">
-              Duration: {formatTime(recordingTime)}
+              Duration: {formatTime(recorder.elapsedSeconds)}
             </p>
             <p className="text-sm text-gray-500">
               File name: <span className="font-mono">{generateFileName()}</span>
@@ -23,6 +23,17 @@ export function BottomNav() {
           <span className="text-xs mt-1">Rhythms</span>
         </Link>
 
+        {/* Recordings */}
+        <Link
+          to="/recordings"
+          className={`nav-item flex-1 ${isActive('/recordings') ? 'nav-item-active' : ''}`}
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
+          </svg>
+          <span className="text-xs mt-1">Recordings</span>
+        </Link>
+
         {/* New Recording (Home) */}
         <Link
           to="/"
@@ -38,6 +49,17 @@ export function BottomNav() {
           <span className="text-xs mt-1">Record</span>
         </Link>
 
+        {/* Saved Searches */}
+        <Link
+          to="/saved"
+          className={`nav-item flex-1 ${isActive('/saved') ? 'nav-item-active' : ''}`}
+        >
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+          </svg>
+          <span className="text-xs mt-1">Saved</span>
+        </Link>
+
         {/* Settings */}
         <Link
           to="/settings"
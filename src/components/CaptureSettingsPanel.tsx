@@ -0,0 +1,126 @@
+import { useState, useEffect } from 'react';
+import type { CaptureSettings } from '../types';
+import {
+  BITRATE_OPTIONS,
+  CODEC_OPTIONS,
+  DEFAULT_CAPTURE_SETTINGS,
+  isMimeTypeSupported,
+  loadCaptureSettings,
+  pickMimeType,
+  saveCaptureSettings
+} from '../utils/captureSettings';
+
+const PROCESSING_OPTIONS: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation' },
+  { key: 'noiseSuppression', label: 'Noise suppression' },
+  { key: 'autoGainControl', label: 'Automatic gain control' }
+];
+
+export function CaptureSettingsPanel() {
+  const [settings, setSettings] = useState<CaptureSettings>(loadCaptureSettings);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  // Inputs come and go (headsets, USB interfaces)
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.enumerateDevices) return;
+
+    const loadDevices = () => {
+      mediaDevices.enumerateDevices()
+        .then(all => setDevices(all.filter(device => device.kind === 'audioinput')))
+        .catch(err => console.error('Error listing audio inputs:', err));
+    };
+    loadDevices();
+    mediaDevices.addEventListener('devicechange', loadDevices);
+    return () => mediaDevices.removeEventListener('devicechange', loadDevices);
+  }, []);
+
+  const updateSettings = (updates: Partial<CaptureSettings>) => {
+    const next = { ...settings, ...updates };
+    setSettings(next);
+    saveCaptureSettings(next);
+  };
+
+  const recordedMimeType = pickMimeType(settings.preferredMimeType);
+
+  return (
+    <div className="card">
+      <h2 className="text-lg font-bold text-white mb-1">Recording</h2>
+      <p className="text-sm text-gray-400 mb-3">Saved on this device only</p>
+
+      <div className="space-y-3">
+        {PROCESSING_OPTIONS.map(({ key, label }) => (
+          <label key={key} className="flex items-center justify-between text-gray-300">
+            <span>{label}</span>
+            <input
+              type="checkbox"
+              checked={settings[key]}
+              onChange={(e) => updateSettings({ [key]: e.target.checked })}
+            />
+          </label>
+        ))}
+        <p className="text-xs text-gray-400">
+          These are made for speech and flatten drum attacks; leave them off for percussion
+        </p>
+
+        <div>
+          <label className="label-text">Microphone</label>
+          <select
+            value={settings.deviceId ?? ''}
+            onChange={(e) => updateSettings({ deviceId: e.target.value || null })}
+            className="input-field"
+          >
+            <option value="">Default</option>
+            {devices
+              .filter(device => device.deviceId && device.deviceId !== 'default')
+              .map((device, index) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label || `Microphone ${index + 1}`}
+                </option>
+              ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="label-text">Format</label>
+          <select
+            value={settings.preferredMimeType}
+            onChange={(e) => updateSettings({ preferredMimeType: e.target.value })}
+            className="input-field"
+          >
+            {CODEC_OPTIONS.map(option => (
+              <option key={option.mimeType} value={option.mimeType}>
+                {option.label}{isMimeTypeSupported(option.mimeType) ? '' : ' (not supported here)'}
+              </option>
+            ))}
+          </select>
+          {recordedMimeType !== settings.preferredMimeType && (
+            <p className="text-xs text-yellow-400 mt-1">
+              {recordedMimeType ? `This browser will record ${recordedMimeType} instead` : 'This browser will pick the format'}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label className="label-text">Quality</label>
+          <select
+            value={settings.audioBitsPerSecond}
+            onChange={(e) => updateSettings({ audioBitsPerSecond: Number(e.target.value) })}
+            className="input-field"
+          >
+            {BITRATE_OPTIONS.map(bitrate => (
+              <option key={bitrate} value={bitrate}>{bitrate / 1000} kbps</option>
+            ))}
+          </select>
+        </div>
+
+        <button
+          onClick={() => updateSettings(DEFAULT_CAPTURE_SETTINGS)}
+          className="btn-outline w-full"
+        >
+          Reset to Defaults
+        </button>
+      </div>
+    </div>
+  );
+}
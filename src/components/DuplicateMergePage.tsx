@@ -0,0 +1,286 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { db } from '../db/schema';
+import { scanForDuplicates, mergeRhythms, MERGEABLE_TEXT_FIELDS } from '../db/duplicates';
+import type { Tag, Rhythm, DuplicateGroup, DuplicateMatch, MergeableTextField } from '../types';
+
+const TEXT_FIELD_LABELS: Record<MergeableTextField, string> = {
+  lyrics: 'Lyrics',
+  lyricsTranslation: 'Translation',
+  notes: 'Notes'
+};
+
+const TAG_FIELDS = [
+  { field: 'regionTags', label: 'Region' },
+  { field: 'ethnicGroupTags', label: 'Ethnic group' },
+  { field: 'occasionTags', label: 'Occasion' },
+  { field: 'languageTags', label: 'Language' }
+] as const;
+
+const describeMatch = (match: DuplicateMatch, nameOf: (rhythmId: string) => string): string => {
+  const [a, b] = match.rhythmIds.map(nameOf);
+  switch (match.reason) {
+    case 'sameName':
+      return `"${a}" and "${b}" have the same name`;
+    case 'alternateName':
+      return `"${a}" and "${b}" share a name (one lists the other as an alternate)`;
+    case 'similarName':
+      return `"${a}" and "${b}" have similar names (${Math.round(match.similarity * 100)}%)`;
+  }
+};
+
+function DuplicateGroupCard({ group, rhythmsById, tagsById, isMerging, onMerge }: {
+  group: DuplicateGroup;
+  rhythmsById: Map<string, Rhythm>;
+  tagsById: Map<string, Tag>;
+  isMerging: boolean;
+  onMerge: (targetId: string, sourceIds: string[], textSources: Record<MergeableTextField, string>) => void;
+}) {
+  const rhythms = group.rhythmIds
+    .map(id => rhythmsById.get(id))
+    .filter((rhythm): rhythm is Rhythm => !!rhythm);
+
+  // Default target: the rhythm with the most recordings
+  const [targetId, setTargetId] = useState(
+    () => [...rhythms].sort((a, b) => b.recordingIds.length - a.recordingIds.length)[0]?.id ?? ''
+  );
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+  const [textChoices, setTextChoices] = useState<Partial<Record<MergeableTextField, string>>>({});
+
+  const tagName = (tagId: string) => tagsById.get(tagId)?.value ?? 'Unknown';
+  const rhythmName = (rhythmId: string) => {
+    const rhythm = rhythmsById.get(rhythmId);
+    return rhythm ? tagName(rhythm.primaryRhythmNameTag) : 'Unknown';
+  };
+
+  const included = rhythms.filter(rhythm => rhythm.id === targetId || !excludedIds.has(rhythm.id));
+  const target = included.find(rhythm => rhythm.id === targetId);
+
+  const textSourceFor = (field: MergeableTextField): string => {
+    const chosen = textChoices[field];
+    if (chosen && included.some(rhythm => rhythm.id === chosen)) return chosen;
+    if (target?.[field].trim()) return target.id;
+    return included.find(rhythm => rhythm[field].trim())?.id ?? targetId;
+  };
+
+  // Only fields where the included rhythms actually disagree need a choice
+  const conflictingFields = MERGEABLE_TEXT_FIELDS.filter(field =>
+    new Set(included.map(rhythm => rhythm[field].trim()).filter(Boolean)).size > 1
+  );
+
+  const toggleIncluded = (rhythmId: string) => {
+    setExcludedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(rhythmId)) {
+        next.delete(rhythmId);
+      } else {
+        next.add(rhythmId);
+      }
+      return next;
+    });
+  };
+
+  const handleMerge = () => {
+    const textSources = Object.fromEntries(
+      MERGEABLE_TEXT_FIELDS.map(field => [field, textSourceFor(field)])
+    ) as Record<MergeableTextField, string>;
+    onMerge(targetId, included.map(rhythm => rhythm.id).filter(id => id !== targetId), textSources);
+  };
+
+  return (
+    <div className="card space-y-4">
+      <ul className="text-xs text-yellow-400 space-y-1">
+        {group.matches.map((match, index) => (
+          <li key={index}>{describeMatch(match, rhythmName)}</li>
+        ))}
+      </ul>
+
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {rhythms.map(rhythm => {
+          const isTarget = rhythm.id === targetId;
+          const isIncluded = isTarget || !excludedIds.has(rhythm.id);
+          return (
+            <div
+              key={rhythm.id}
+              className={`min-w-[14rem] flex-1 rounded-lg p-3 border ${
+                isTarget ? 'border-blue-500 bg-blue-900/20' : 'border-gray-700'
+              } ${isIncluded ? '' : 'opacity-50'}`}
+            >
+              <p className="text-white font-semibold">{tagName(rhythm.primaryRhythmNameTag)}</p>
+              {rhythm.alternateRhythmNameTags.length > 0 && (
+                <p className="text-xs text-gray-400">
+                  Also: {rhythm.alternateRhythmNameTags.map(tagName).join(', ')}
+                </p>
+              )}
+
+              <div className="mt-2 space-y-1 text-xs text-gray-300">
+                {TAG_FIELDS.map(({ field, label }) => rhythm[field].length > 0 && (
+                  <p key={field}>
+                    <span className="text-gray-500">{label}:</span> {rhythm[field].map(tagName).join(', ')}
+                  </p>
+                ))}
+                <p>
+                  <span className="text-gray-500">Recordings:</span> {rhythm.recordingIds.length}
+                </p>
+                <p>
+                  <span className="text-gray-500">Updated:</span> {new Date(rhythm.updatedDate).toLocaleDateString()}
+                </p>
+              </div>
+
+              <div className="mt-3 space-y-1 text-sm">
+                <label className="flex items-center gap-2 cursor-pointer text-gray-200">
+                  <input
+                    type="radio"
+                    name={`target-${group.rhythmIds.join('-')}`}
+                    checked={isTarget}
+                    onChange={() => setTargetId(rhythm.id)}
+                  />
+                  Keep this name
+                </label>
+                {!isTarget && (
+                  <label className="flex items-center gap-2 cursor-pointer text-gray-200">
+                    <input
+                      type="checkbox"
+                      checked={isIncluded}
+                      onChange={() => toggleIncluded(rhythm.id)}
+                    />
+                    Include in merge
+                  </label>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {conflictingFields.map(field => (
+        <div key={field}>
+          <h3 className="text-sm font-semibold text-gray-300 mb-1">{TEXT_FIELD_LABELS[field]}</h3>
+          <div className="space-y-2">
+            {included.filter(rhythm => rhythm[field].trim()).map(rhythm => (
+              <label key={rhythm.id} className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name={`${field}-${group.rhythmIds.join('-')}`}
+                  checked={textSourceFor(field) === rhythm.id}
+                  onChange={() => setTextChoices(prev => ({ ...prev, [field]: rhythm.id }))}
+                  className="mt-1"
+                />
+                <div className="min-w-0">
+                  <p className="text-xs text-gray-500">{tagName(rhythm.primaryRhythmNameTag)}</p>
+                  <p className="text-sm text-gray-200 whitespace-pre-wrap line-clamp-4">{rhythm[field]}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={handleMerge}
+        disabled={isMerging || included.length < 2}
+        className="btn-primary w-full"
+      >
+        {included.length < 2
+          ? 'Select at least two rhythms'
+          : `Merge ${included.length} rhythms into "${rhythmName(targetId)}"`}
+      </button>
+    </div>
+  );
+}
+
+export function DuplicateMergePage() {
+  const navigate = useNavigate();
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+  const [rhythmsById, setRhythmsById] = useState<Map<string, Rhythm>>(new Map());
+  const [tagsById, setTagsById] = useState<Map<string, Tag>>(new Map());
+  const [isMerging, setIsMerging] = useState(false);
+
+  const loadGroups = useCallback(async () => {
+    try {
+      const [found, rhythms, tags] = await Promise.all([
+        scanForDuplicates(),
+        db.rhythms.toArray(),
+        db.tags.toArray()
+      ]);
+      setRhythmsById(new Map(rhythms.map(rhythm => [rhythm.id, rhythm])));
+      setTagsById(new Map(tags.map(tag => [tag.id, tag])));
+      setGroups(found);
+    } catch (error) {
+      console.error('Error scanning for duplicates:', error);
+      alert('❌ Failed to scan for duplicates: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      setGroups([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadGroups();
+  }, [loadGroups]);
+
+  const handleMerge = async (
+    targetId: string,
+    sourceIds: string[],
+    textSources: Record<MergeableTextField, string>
+  ) => {
+    const confirmed = window.confirm(
+      `Merge ${sourceIds.length + 1} rhythms?\n\n` +
+      'Tags, alternate names and recordings are combined into the rhythm you kept. ' +
+      'The other rhythms are deleted.'
+    );
+    if (!confirmed) return;
+
+    setIsMerging(true);
+    try {
+      await mergeRhythms({ targetId, sourceIds, textSources });
+      await loadGroups();
+    } catch (error) {
+      console.error('Merge error:', error);
+      alert('❌ Merge failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 pb-8">
+      <button
+        onClick={() => navigate('/settings')}
+        className="text-blue-400 flex items-center gap-2"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        Back
+      </button>
+
+      <h1 className="text-2xl font-bold text-white">Merge Duplicates</h1>
+
+      {groups === null ? (
+        <div className="text-center py-12">
+          <p className="text-gray-400">Looking for duplicates...</p>
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="card">
+          <p className="text-green-400">✅ No duplicate rhythms found</p>
+        </div>
+      ) : (
+        <>
+          <p className="text-gray-400 text-sm">
+            {groups.length} possible {groups.length === 1 ? 'duplicate' : 'duplicates'} found.
+            Choose which name to keep, untick rhythms that aren't really the same, and pick the text to keep where they differ.
+          </p>
+          {groups.map(group => (
+            <DuplicateGroupCard
+              key={group.rhythmIds.join('-')}
+              group={group}
+              rhythmsById={rhythmsById}
+              tagsById={tagsById}
+              isMerging={isMerging}
+              onMerge={handleMerge}
+            />
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+interface HighlightedTextProps {
+  text: string;
+  ranges: [number, number][]; // [start, end) offsets to mark, in order
+}
+
+export function HighlightedText({ text, ranges }: HighlightedTextProps) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  ranges.forEach(([start, end], index) => {
+    if (start < position) return;
+    if (start > position) {
+      parts.push(text.slice(position, start));
+    }
+    parts.push(
+      <mark key={index} className="bg-yellow-500/30 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(text.slice(position));
+
+  return <>{parts}</>;
+}
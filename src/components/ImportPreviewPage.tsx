@@ -0,0 +1,248 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { readImportFile, previewImport, filterImportPayload, mergeImportData, summarizeImportReport } from '../db/storage';
+import { ExportValidationError, describeValidationIssue } from '../db/exportFormat';
+import type { ImportPayload, ImportPreview, ImportPreviewRhythm, ExportValidationIssue } from '../types';
+import { formatBytes } from '../utils/formatBytes';
+
+export function ImportPreviewPage() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [file, setFile] = useState<File | null>((location.state as { file?: File } | null)?.file ?? null);
+  const [payload, setPayload] = useState<ImportPayload | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [excludedRhythmIds, setExcludedRhythmIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<ExportValidationIssue[]>([]);
+
+  useEffect(() => {
+    if (!file) return;
+
+    const loadPreview = async () => {
+      setIsLoading(true);
+      setError(null);
+      setIssues([]);
+      setPayload(null);
+      setPreview(null);
+      setExcludedRhythmIds(new Set());
+
+      try {
+        const data = await readImportFile(file);
+        setPayload(data);
+        setPreview(await previewImport(data));
+      } catch (err) {
+        console.error('Error reading import file:', err);
+        if (err instanceof ExportValidationError) {
+          setIssues(err.issues);
+          setError(`The export file has ${err.issues.length} ${err.issues.length === 1 ? 'problem' : 'problems'}`);
+        } else {
+          setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadPreview();
+  }, [file]);
+
+  const toggleRhythm = (rhythmId: string) => {
+    setExcludedRhythmIds(prev => {
+      const next = new Set(prev);
+      if (next.has(rhythmId)) {
+        next.delete(rhythmId);
+      } else {
+        next.add(rhythmId);
+      }
+      return next;
+    });
+  };
+
+  const includedRecordings = useMemo(
+    () => preview?.newRecordings.filter(r => !excludedRhythmIds.has(r.rhythmId)) ?? [],
+    [preview, excludedRhythmIds]
+  );
+  const includedAudioBytes = includedRecordings.reduce((total, r) => total + r.audioSize, 0);
+
+  const handleImport = async () => {
+    if (!payload) return;
+
+    setIsImporting(true);
+    try {
+      const report = await mergeImportData(filterImportPayload(payload, excludedRhythmIds));
+      alert('✅ Import complete\n\n' + summarizeImportReport(report));
+      navigate('/rhythms');
+    } catch (err) {
+      console.error('Import error:', err);
+      alert('❌ Import failed: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const renderRhythmRow = (rhythm: ImportPreviewRhythm, isNew: boolean) => {
+    const included = !excludedRhythmIds.has(rhythm.id);
+    return (
+      <div key={rhythm.id} className={`py-3 border-b border-gray-700 last:border-0 ${included ? '' : 'opacity-50'}`}>
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={included}
+            onChange={() => toggleRhythm(rhythm.id)}
+            className="mt-1"
+          />
+          <div className="flex-1 min-w-0">
+            <p className="text-white font-medium">{rhythm.name}</p>
+            <p className="text-xs text-gray-400">
+              {isNew ? 'New rhythm' : `${rhythm.changes.length} ${rhythm.changes.length === 1 ? 'field' : 'fields'} changed`}
+              {rhythm.newRecordingIds.length > 0 &&
+                ` • ${rhythm.newRecordingIds.length} new ${rhythm.newRecordingIds.length === 1 ? 'recording' : 'recordings'}`}
+            </p>
+          </div>
+        </label>
+
+        {rhythm.changes.length > 0 && (
+          <div className="mt-2 ml-7 space-y-2 text-sm">
+            {rhythm.changes.map(change => (
+              <div key={change.field}>
+                <span className="text-gray-500">{change.label}:</span>
+                <div className="text-red-400 line-through whitespace-pre-wrap">{change.before || '(empty)'}</div>
+                <div className="text-green-400 whitespace-pre-wrap">{change.after || '(empty)'}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4 pb-8">
+      <button
+        onClick={() => navigate('/settings')}
+        className="text-blue-400 flex items-center gap-2"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        Back
+      </button>
+
+      <h1 className="text-2xl font-bold text-white">Import Preview</h1>
+
+      <label className="btn-secondary w-full flex items-center justify-center gap-2 cursor-pointer">
+        {file ? `File: ${file.name}` : 'Choose export file'}
+        <input
+          type="file"
+          accept=".zip,.json,application/zip,application/json"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          className="hidden"
+        />
+      </label>
+
+      {isLoading && (
+        <div className="text-center py-12">
+          <p className="text-gray-400">Reading export file...</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="card bg-red-900/20 border border-red-500/30">
+          <p className="text-red-400 font-bold mb-2">{error}</p>
+          {issues.length > 0 && (
+            <ul className="text-red-300 text-xs space-y-1 max-h-64 overflow-y-auto">
+              {issues.map((issue, index) => (
+                <li key={index}>{describeValidationIssue(issue)}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {preview && (
+        <>
+          {/* Summary */}
+          <div className="card">
+            <h2 className="text-lg font-bold text-white mb-3">Summary</h2>
+            <div className="space-y-2 text-gray-300">
+              <div className="flex justify-between">
+                <span>New rhythms:</span>
+                <span className="font-mono">{preview.newRhythms.length}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Changed rhythms:</span>
+                <span className="font-mono">{preview.changedRhythms.length}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Unchanged rhythms:</span>
+                <span className="font-mono">{preview.unchangedRhythmCount}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>New recordings:</span>
+                <span className="font-mono">{includedRecordings.length}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>New tags:</span>
+                <span className="font-mono">{preview.newTagCount}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>New saved searches:</span>
+                <span className="font-mono">{preview.newSavedSearchCount}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Audio to import:</span>
+                <span className="font-mono">{formatBytes(includedAudioBytes)}</span>
+              </div>
+            </div>
+          </div>
+
+          {preview.newRhythms.length > 0 && (
+            <div className="card">
+              <h2 className="text-lg font-bold text-white mb-1">New Rhythms</h2>
+              {preview.newRhythms.map(rhythm => renderRhythmRow(rhythm, true))}
+            </div>
+          )}
+
+          {preview.changedRhythms.length > 0 && (
+            <div className="card">
+              <h2 className="text-lg font-bold text-white mb-1">Changed Rhythms</h2>
+              {preview.changedRhythms.map(rhythm => renderRhythmRow(rhythm, false))}
+            </div>
+          )}
+
+          {preview.newRecordings.length > 0 && (
+            <div className="card">
+              <h2 className="text-lg font-bold text-white mb-3">New Recordings</h2>
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {preview.newRecordings.map(recording => (
+                  <div
+                    key={recording.id}
+                    className={`flex justify-between gap-3 text-sm ${excludedRhythmIds.has(recording.rhythmId) ? 'opacity-50 line-through' : ''}`}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-gray-200 truncate">{recording.fileName}</p>
+                      <p className="text-xs text-gray-500">
+                        {recording.rhythmName} • {new Date(recording.recordedDate).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <span className="text-gray-400 font-mono flex-shrink-0">{formatBytes(recording.audioSize)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <button
+            onClick={handleImport}
+            disabled={isImporting}
+            className="btn-primary w-full"
+          >
+            {isImporting ? 'Importing...' : 'Import Selected'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
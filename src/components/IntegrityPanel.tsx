@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback } from 'react';
+import { checkIntegrity, repairIntegrity, RECOVERED_RHYTHM_NAME } from '../db/integrity';
+import type { IntegrityIssue, IntegrityIssueKind } from '../types';
+
+const ISSUE_LABELS: Record<IntegrityIssueKind, { title: string; repair: string }> = {
+  orphanRecording: {
+    title: 'Orphan recordings',
+    repair: `Move to "${RECOVERED_RHYTHM_NAME}"`
+  },
+  staleRecordingId: {
+    title: 'Stale recording IDs on rhythms',
+    repair: 'Remove from rhythms'
+  },
+  unlistedRecording: {
+    title: 'Recordings missing from their rhythm',
+    repair: 'Add to rhythms'
+  },
+  missingTag: {
+    title: 'Missing tag references',
+    repair: 'Remove references'
+  },
+  usageCountDrift: {
+    title: 'Tag usage count drift',
+    repair: 'Recompute counts'
+  }
+};
+
+const describeIssue = (issue: IntegrityIssue): string => {
+  switch (issue.kind) {
+    case 'orphanRecording':
+      return `Recording ${issue.recordingId} → missing rhythm ${issue.rhythmId}`;
+    case 'staleRecordingId':
+      return `Rhythm ${issue.rhythmId} lists recording ${issue.recordingId}`;
+    case 'unlistedRecording':
+      return `Recording ${issue.recordingId} not listed on rhythm ${issue.rhythmId}`;
+    case 'missingTag':
+      return `${issue.entity} ${issue.entityId} (${issue.field}) → tag ${issue.tagId}`;
+    case 'usageCountDrift':
+      return `Tag ${issue.tagId}: stored ${issue.stored}, actual ${issue.actual}`;
+  }
+};
+
+export function IntegrityPanel() {
+  const [issues, setIssues] = useState<IntegrityIssue[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const runCheck = useCallback(async () => {
+    setIsWorking(true);
+    try {
+      setIssues(await checkIntegrity());
+    } catch (error) {
+      console.error('Integrity check failed:', error);
+      alert('❌ Integrity check failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsWorking(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    runCheck();
+  }, [runCheck]);
+
+  const handleRepair = async (kinds?: IntegrityIssueKind[]) => {
+    setIsWorking(true);
+    try {
+      const fixed = await repairIntegrity(kinds);
+      setIssues(await checkIntegrity());
+      alert(`✅ Fixed ${fixed} ${fixed === 1 ? 'issue' : 'issues'}`);
+    } catch (error) {
+      console.error('Integrity repair failed:', error);
+      alert('❌ Repair failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const grouped = new Map<IntegrityIssueKind, IntegrityIssue[]>();
+  for (const issue of issues ?? []) {
+    grouped.set(issue.kind, [...(grouped.get(issue.kind) ?? []), issue]);
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl font-bold text-white">Integrity</h2>
+        <button onClick={runCheck} disabled={isWorking} className="btn-secondary px-3 py-1 text-sm">
+          {isWorking ? 'Working...' : 'Re-scan'}
+        </button>
+      </div>
+
+      {issues === null ? (
+        <p className="text-gray-400">Scanning...</p>
+      ) : issues.length === 0 ? (
+        <p className="text-green-400">✅ No problems found</p>
+      ) : (
+        <div className="space-y-4">
+          {Array.from(grouped.entries()).map(([kind, kindIssues]) => (
+            <div key={kind}>
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <h3 className="text-yellow-400 font-semibold">
+                  {ISSUE_LABELS[kind].title} ({kindIssues.length})
+                </h3>
+                <button
+                  onClick={() => handleRepair([kind])}
+                  disabled={isWorking}
+                  className="btn-outline px-3 py-1 text-xs whitespace-nowrap"
+                >
+                  {ISSUE_LABELS[kind].repair}
+                </button>
+              </div>
+              <ul className="text-gray-400 text-xs space-y-1 max-h-40 overflow-y-auto font-mono">
+                {kindIssues.map((issue, index) => (
+                  <li key={index}>{describeIssue(issue)}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+
+          <button onClick={() => handleRepair()} disabled={isWorking} className="btn-primary w-full">
+            Fix All
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { useInputLevel } from '../hooks/useInputLevel';
+
+interface LevelMeterProps {
+  stream: MediaStream | null;
+  active: boolean;
+  clipCount: number; // Clipped segments so far in this recording
+  onClip: () => void;
+}
+
+// The meter spans -60 dBFS to 0 dBFS
+const MIN_DB = -60;
+
+const toPercent = (amplitude: number): number => {
+  const db = 20 * Math.log10(Math.max(amplitude, 1e-6));
+  return Math.max(0, Math.min(100, ((db - MIN_DB) / -MIN_DB) * 100));
+};
+
+export function LevelMeter({ stream, active, clipCount, onClip }: LevelMeterProps) {
+  const { level, peak, isClipping } = useInputLevel(stream, active, onClip);
+  const levelPercent = toPercent(level);
+
+  // Green up to -12 dBFS, yellow up to -3 dBFS, red above
+  const barColor = levelPercent > 95 ? 'bg-red-500' : levelPercent > 80 ? 'bg-yellow-400' : 'bg-green-500';
+
+  return (
+    <div className="w-full max-w-sm">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1 h-3 bg-gray-700 rounded overflow-hidden">
+          <div className={`absolute inset-y-0 left-0 ${barColor}`} style={{ width: `${levelPercent}%` }} />
+          {peak > 0 && (
+            <div className="absolute inset-y-0 w-0.5 bg-white" style={{ left: `${toPercent(peak)}%` }} />
+          )}
+        </div>
+        <span
+          className={`text-xs font-bold px-2 py-0.5 rounded ${
+            isClipping ? 'bg-red-600 text-white' : 'bg-gray-700 text-gray-500'
+          }`}
+        >
+          CLIP
+        </span>
+      </div>
+      {clipCount > 0 && (
+        <p className="text-xs text-red-400 mt-1">
+          Clipped {clipCount} {clipCount === 1 ? 'time' : 'times'} - try moving the phone further from the drums
+        </p>
+      )}
+    </div>
+  );
+}
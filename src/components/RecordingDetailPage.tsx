@@ -1,24 +1,48 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { getRecordingById, getRhythmById, getTagById, updateRecording, deleteRecording } from '../db/storage';
-import type { Recording, Rhythm } from '../types';
+import { updateRecording, deleteRecording, splitRecording } from '../db/storage';
 import { AudioPlayerWithLoop } from './AudioPlayerWithLoop';
 import { useWaveform } from '../hooks/useWaveform';
+import { useRecording, useRhythm, useTag } from '../hooks/useLiveData';
+import { splitAudio, estimateSplitSize, MAX_SPLIT_DURATION } from '../utils/audioSegments';
+import { formatBytes } from '../utils/formatBytes';
+import type { CaptureInfo } from '../types';
 
 interface LoopPoints {
   start: number;
   end: number;
 }
 
+// Clipping times beyond this are only counted
+const MAX_LISTED_CLIPS = 10;
+
+const describeFormat = (info: CaptureInfo): string =>
+  [
+    info.mimeType || 'Unknown format',
+    info.audioBitsPerSecond && `${Math.round(info.audioBitsPerSecond / 1000)} kbps`,
+    info.sampleRate && `${info.sampleRate / 1000} kHz`,
+    info.channelCount && (info.channelCount === 1 ? 'mono' : `${info.channelCount} channels`)
+  ].filter(Boolean).join(' • ');
+
+const describeProcessing = (info: CaptureInfo): string => {
+  const applied = [
+    info.echoCancellation && 'echo cancellation',
+    info.noiseSuppression && 'noise suppression',
+    info.autoGainControl && 'automatic gain control'
+  ].filter(Boolean);
+  return applied.length > 0 ? applied.join(', ') : 'none';
+};
+
 export function RecordingDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [recording, setRecording] = useState<Recording | null>(null);
-  const [rhythm, setRhythm] = useState<Rhythm | null>(null);
-  const [rhythmName, setRhythmName] = useState('');
-  const [isLoading, setIsLoading] = useState(true);
+  const recording = useRecording(id);
+  const rhythm = useRhythm(recording?.rhythmId);
+  const rhythmName = useTag(rhythm?.primaryRhythmNameTag)?.value ?? '';
+  const isLoading = recording === undefined;
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [editedTitle, setEditedTitle] = useState('');
+  const [isSplitting, setIsSplitting] = useState(false);
 
   // Load waveform data
   const { waveformData, isLoading: isGeneratingWaveform, error: waveformError } = useWaveform(
@@ -27,46 +51,12 @@ export function RecordingDetailPage() {
     recording?.waveformData || null
   );
 
-  useEffect(() => {
-    const loadRecording = async () => {
-      if (!id) return;
-
-      try {
-        const recordingData = await getRecordingById(id);
-        if (recordingData) {
-          setRecording(recordingData);
-
-          // Load associated rhythm
-          const rhythmData = await getRhythmById(recordingData.rhythmId);
-          if (rhythmData) {
-            setRhythm(rhythmData);
-
-            // Load rhythm name
-            const tag = await getTagById(rhythmData.primaryRhythmNameTag);
-            if (tag) {
-              setRhythmName(tag.value);
-            }
-          }
-        }
-      } catch (error) {
-        console.error('Error loading recording:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    loadRecording();
-  }, [id]);
-
   const handleSaveLoopPoints = async (points: LoopPoints | null) => {
     if (!recording) return;
 
     try {
       await updateRecording(recording.id, { loopPoints: points });
       console.log('✅ Loop points saved');
-
-      // Update local state
-      setRecording({ ...recording, loopPoints: points });
     } catch (error) {
       console.error('Error saving loop points:', error);
       alert('Failed to save loop points');
@@ -96,6 +86,42 @@ export function RecordingDetailPage() {
     }
   };
 
+  const handleSplit = async () => {
+    if (!recording?.audioBlob) return;
+
+    // The whole take is decoded to split it, which long ones could run out of memory doing
+    if (recording.duration !== null && recording.duration > MAX_SPLIT_DURATION) {
+      alert(`Recordings longer than ${MAX_SPLIT_DURATION / 60} minutes can't be split.`);
+      return;
+    }
+
+    // The parts are uncompressed, so say what that costs
+    const sizeChange = recording.duration !== null
+      ? `about ${formatBytes(estimateSplitSize(recording.duration, recording.captureInfo?.channelCount ?? undefined))} in total, up from ${formatBytes(recording.audioBlob.size)}`
+      : 'several times the size of the original';
+    const partCount = recording.markers.length + 1;
+    const confirmed = window.confirm(
+      `Split "${recording.fileName}" into ${partCount} recordings at its pause points? ` +
+      `The parts are saved as uncompressed WAV, ${sizeChange}. Loop points on this recording will be lost.`
+    );
+
+    if (!confirmed) return;
+
+    setIsSplitting(true);
+    try {
+      const parts = await splitAudio(recording.audioBlob, recording.markers);
+      await splitRecording(recording.id, parts);
+      navigate(`/rhythm/${recording.rhythmId}`);
+    } catch (error) {
+      console.error('Error splitting recording:', error);
+      alert(`Failed to split recording: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setIsSplitting(false);
+    }
+  };
+
+  const formatTime = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
   const handleTitleClick = () => {
     if (!recording) return;
     setIsEditingTitle(true);
@@ -111,7 +137,6 @@ export function RecordingDetailPage() {
     if (editedTitle.trim() !== recording.fileName) {
       try {
         await updateRecording(recording.id, { fileName: editedTitle.trim() });
-        setRecording({ ...recording, fileName: editedTitle.trim() });
       } catch (error) {
         console.error('Error updating title:', error);
         alert('Failed to update title');
@@ -135,7 +160,6 @@ export function RecordingDetailPage() {
     try {
       const newFavoriteState = !recording.isFavorite;
       await updateRecording(recording.id, { isFavorite: newFavoriteState });
-      setRecording({ ...recording, isFavorite: newFavoriteState });
     } catch (error) {
       console.error('Error toggling favorite:', error);
       alert('Failed to update favorite status');
@@ -233,8 +257,39 @@ export function RecordingDetailPage() {
             </span>
           </div>
         </div>
+        {recording.captureInfo && (
+          <div className="mt-3 pt-3 border-t border-gray-700 space-y-1 text-sm">
+            <div>
+              <span className="text-gray-500">Captured as:</span>{' '}
+              <span className="text-gray-300">{describeFormat(recording.captureInfo)}</span>
+            </div>
+            {recording.captureInfo.deviceLabel && (
+              <div>
+                <span className="text-gray-500">Microphone:</span>{' '}
+                <span className="text-gray-300">{recording.captureInfo.deviceLabel}</span>
+              </div>
+            )}
+            <div>
+              <span className="text-gray-500">Processing:</span>{' '}
+              <span className="text-gray-300">{describeProcessing(recording.captureInfo)}</span>
+            </div>
+          </div>
+        )}
       </div>
 
+      {/* Clipping warning */}
+      {recording.clipTimes.length > 0 && (
+        <div className="card bg-yellow-900/30">
+          <p className="text-yellow-300 font-medium mb-1">
+            Clipping detected in {recording.clipTimes.length} {recording.clipTimes.length === 1 ? 'place' : 'places'}
+          </p>
+          <p className="text-sm text-gray-300">
+            The input was too loud at {recording.clipTimes.slice(0, MAX_LISTED_CLIPS).map(formatTime).join(', ')}
+            {recording.clipTimes.length > MAX_LISTED_CLIPS && ` and ${recording.clipTimes.length - MAX_LISTED_CLIPS} more`}
+          </p>
+        </div>
+      )}
+
       {/* Waveform generation status */}
       {isGeneratingWaveform && (
         <div className="card text-center py-6">
@@ -269,6 +324,23 @@ export function RecordingDetailPage() {
         </div>
       )}
 
+      {/* Pause points */}
+      {recording.markers.length > 0 && recording.audioBlob && (
+        <div className="card">
+          <h3 className="text-lg font-semibold text-white mb-2">Pause Points</h3>
+          <p className="text-sm text-gray-400 mb-3">
+            Recording was paused at {recording.markers.map(formatTime).join(', ')}
+          </p>
+          <button
+            onClick={handleSplit}
+            disabled={isSplitting}
+            className="w-full btn-secondary py-3"
+          >
+            {isSplitting ? 'Splitting...' : `Split into ${recording.markers.length + 1} recordings`}
+          </button>
+        </div>
+      )}
+
       {/* Delete button */}
       <div className="card">
         <button
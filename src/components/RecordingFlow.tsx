@@ -1,19 +1,36 @@
 import { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { createRhythm, createRecording, getAllRhythms, getTagById, createTag } from '../db/storage';
-import type { Rhythm } from '../types';
+import {
+  createRhythm,
+  createRecording,
+  getAllRhythms,
+  getTagById,
+  getTagsByIds,
+  createTag,
+  startRecordingSession,
+  appendRecordingChunk,
+  updateRecordingSession,
+  getUnfinishedRecordingSessions,
+  getRecordingSessionAudio,
+  discardRecordingSession,
+  claimRecordingSession,
+  saveRecordingSession
+} from '../db/storage';
+import type { Rhythm, RecordingSession } from '../types';
+import { fuzzyNameScore } from '../utils/nameSimilarity';
+import { LevelMeter } from './LevelMeter';
+import { useRecorder, buildRecordingFileName } from '../hooks/useRecorder';
 
-type RecordingState = 'idle' | 'requesting' | 'recording' | 'stopped';
 type FlowStep = 'record' | 'metadata' | 'complete';
 
+// How often MediaRecorder hands over audio, which is then saved straight away
+const CHUNK_INTERVAL_MS = 1000;
+
 export function RecordingFlow() {
   const navigate = useNavigate();
 
   // Recording state
-  const [recordingState, setRecordingState] = useState<RecordingState>('idle');
-  const [recordingTime, setRecordingTime] = useState(0);
-  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
-  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [clipCount, setClipCount] = useState(0);
 
   // Flow state
   const [flowStep, setFlowStep] = useState<FlowStep>('record');
@@ -44,23 +61,85 @@ export function RecordingFlow() {
   const [isSaving, setIsSaving] = useState(false);
   const [existingRhythms, setExistingRhythms] = useState<Rhythm[]>([]);
   const [showExistingRhythms, setShowExistingRhythms] = useState(false);
+  const [existingRhythmNames, setExistingRhythmNames] = useState<Map<string, string[]>>(new Map()); // Primary name first
+  const [existingRhythmFilter, setExistingRhythmFilter] = useState('');
+  const [unfinishedSessions, setUnfinishedSessions] = useState<RecordingSession[]>([]);
 
   // Refs
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
-  const timerIntervalRef = useRef<number | null>(null);
-  const recordingStartTimeRef = useRef<Date>(new Date());
+  const clipTimesRef = useRef<number[]>([]); // Starts of clipped segments, in seconds of recorded audio
   const autoSaveTimeoutRef = useRef<number | null>(null);
+  const sessionIdRef = useRef<string | null>(null); // Saved session of the current audio, discarded once it's a recording
+  const releaseSessionRef = useRef<(() => void) | null>(null); // Lets other tabs recover the session again
+  const chunkCountRef = useRef(0);
+
+  // Audio is saved as it comes in, so a recording cut short can be recovered
+  const recorder = useRecorder({
+    timeslice: CHUNK_INTERVAL_MS,
+    onStart: async (mediaRecorder, captureInfo) => {
+      clipTimesRef.current = [];
+      setClipCount(0);
+      chunkCountRef.current = 0;
+
+      // Keep recording even if the audio can't be saved as it comes in
+      sessionIdRef.current = null;
+      releaseSession();
+      try {
+        const session = await startRecordingSession(mediaRecorder.mimeType, captureInfo);
+        sessionIdRef.current = session.id;
+        releaseSessionRef.current = await claimRecordingSession(session.id);
+      } catch (err) {
+        console.error('Error starting recording session:', err);
+      }
+    },
+    onChunk: chunk => persistChunk(chunk),
+    onMarkersChange: markers => persistMarkers(markers)
+  });
+  const { state: recordingState, audioBlob, audioUrl } = recorder;
 
   // Load existing rhythms
   useEffect(() => {
     const loadRhythms = async () => {
       const rhythms = await getAllRhythms();
+      const nameTags = await getTagsByIds(
+        rhythms.flatMap(rhythm => [rhythm.primaryRhythmNameTag, ...rhythm.alternateRhythmNameTags])
+      );
+      const tagValues = new Map(nameTags.map(tag => [tag.id, tag.value]));
+
       setExistingRhythms(rhythms);
+      setExistingRhythmNames(new Map(rhythms.map(rhythm => [
+        rhythm.id,
+        [rhythm.primaryRhythmNameTag, ...rhythm.alternateRhythmNameTags]
+          .map(id => tagValues.get(id))
+          .filter((name): name is string => !!name)
+      ])));
     };
     loadRhythms();
   }, []);
 
+  // A session left unsaved on leaving becomes recoverable from other tabs
+  useEffect(() => () => releaseSession(), []);
+
+  // Recordings cut short last time (tab closed, phone locked, battery died)
+  useEffect(() => {
+    getUnfinishedRecordingSessions()
+      .then(setUnfinishedSessions)
+      .catch(err => console.error('Error loading unfinished recordings:', err));
+  }, []);
+
+  // Existing rhythms whose primary or alternate names match, best first; spelling
+  // variants match too ("Kouku" finds "Kuku")
+  const rankRhythmsByName = (query: string): Rhythm[] =>
+    existingRhythms
+      .map(rhythm => ({
+        rhythm,
+        score: Math.max(0, ...(existingRhythmNames.get(rhythm.id) ?? []).map(name => fuzzyNameScore(query, name)))
+      }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map(({ rhythm }) => rhythm);
+
+  const pickerRhythms = existingRhythmFilter.trim() ? rankRhythmsByName(existingRhythmFilter) : existingRhythms;
+
   // Auto-save: 1 second after user stops typing or after recording finishes
   useEffect(() => {
     if (autoSaveTimeoutRef.current) {
@@ -89,67 +168,33 @@ export function RecordingFlow() {
     return `${hrs.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const startRecording = async () => {
-    try {
-      setRecordingState('requesting');
-      setError(null);
-
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          sampleRate: 44100
-        }
-      });
-
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: 'audio/webm;codecs=opus'
-      });
-
-      mediaRecorderRef.current = mediaRecorder;
-      audioChunksRef.current = [];
-      recordingStartTimeRef.current = new Date();
-
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data);
-        }
-      };
-
-      mediaRecorder.onstop = () => {
-        const blob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-        setAudioBlob(blob);
-
-        const url = URL.createObjectURL(blob);
-        setAudioUrl(url);
-
-        stream.getTracks().forEach(track => track.stop());
-        setRecordingState('stopped');
-      };
-
-      mediaRecorder.start();
-      setRecordingState('recording');
-      setRecordingTime(0);
+  const releaseSession = () => {
+    releaseSessionRef.current?.();
+    releaseSessionRef.current = null;
+  };
 
-      timerIntervalRef.current = window.setInterval(() => {
-        setRecordingTime(prev => prev + 1);
-      }, 1000);
+  const persistChunk = (data: Blob) => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) return;
 
-    } catch (err) {
-      console.error('Error starting recording:', err);
-      setError('Failed to access microphone. Please grant permission and try again.');
-      setRecordingState('idle');
-    }
+    const index = chunkCountRef.current++;
+    appendRecordingChunk(sessionId, index, data)
+      .then(() => updateRecordingSession(sessionId, { duration: recorder.recordedSeconds() }))
+      .catch(err => console.error('Error saving recording chunk:', err));
   };
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && recordingState === 'recording') {
-      mediaRecorderRef.current.stop();
+  const persistMarkers = (markers: number[]) => {
+    if (!sessionIdRef.current) return;
+    updateRecordingSession(sessionIdRef.current, { markers })
+      .catch(err => console.error('Error saving pause markers:', err));
+  };
 
-      if (timerIntervalRef.current) {
-        clearInterval(timerIntervalRef.current);
-        timerIntervalRef.current = null;
-      }
+  const handleClip = () => {
+    clipTimesRef.current.push(Math.round(recorder.recordedSeconds() * 1000) / 1000);
+    setClipCount(clipTimesRef.current.length);
+    if (sessionIdRef.current) {
+      updateRecordingSession(sessionIdRef.current, { clipTimes: [...clipTimesRef.current] })
+        .catch(err => console.error('Error saving clipping times:', err));
     }
   };
 
@@ -250,11 +295,7 @@ export function RecordingFlow() {
       rhythmId = newRhythm.id;
     }
 
-    // Generate file name
-    const date = recordingStartTimeRef.current.toISOString().split('T')[0];
-    const time = recordingStartTimeRef.current.toTimeString().split(' ')[0];
-    const loc = location.trim() || 'Unknown Location';
-    const fileName = `${loc} - ${date} - ${time}`;
+    const fileName = buildRecordingFileName(location, recorder.startedAt ?? new Date());
 
     // Create player name tags
     const playerTagIds: string[] = [];
@@ -266,20 +307,91 @@ export function RecordingFlow() {
       }
     }
 
-    // Create the recording
-    await createRecording({
+    const recording = {
       rhythmId,
       fileName,
       audioBlob,
-      duration: recordingTime,
+      duration: recorder.elapsedSeconds,
       recordedDate: recordedDate,
       location: location.trim() || 'Unknown',
       playerNameTags: playerTagIds,
       notes: notes.trim(),
       loopPoints: null,
       waveformData: null,
-      isFavorite: false
-    });
+      isFavorite: false,
+      markers: recorder.markers,
+      clipTimes: clipTimesRef.current,
+      captureInfo: recorder.captureInfo
+    };
+
+    // Create the recording, discarding the session its audio was saved in along with it
+    if (sessionIdRef.current) {
+      await saveRecordingSession(sessionIdRef.current, recording);
+      sessionIdRef.current = null;
+      releaseSession();
+    } else {
+      await createRecording(recording);
+    }
+  };
+
+  // Pick up an unfinished session as if it had just been recorded, so it's named and saved as usual
+  const handleRecoverSession = async (session: RecordingSession) => {
+    try {
+      const release = await claimRecordingSession(session.id);
+      if (!release) {
+        alert('This recording is already open in another tab');
+        setUnfinishedSessions(prev => prev.filter(s => s.id !== session.id));
+        return;
+      }
+
+      const blob = await getRecordingSessionAudio(session);
+      if (blob.size === 0) {
+        alert('No audio was saved for this recording');
+        release();
+        await handleDiscardSession(session, false);
+        return;
+      }
+
+      releaseSession();
+      sessionIdRef.current = session.id;
+      releaseSessionRef.current = release;
+      clipTimesRef.current = [...session.clipTimes];
+      setClipCount(session.clipTimes.length);
+      setRecordedDate(session.startedDate.split('T')[0]);
+      recorder.restore({
+        audioBlob: blob,
+        startedAt: new Date(session.startedDate),
+        duration: session.duration,
+        markers: session.markers,
+        captureInfo: session.captureInfo
+      });
+      setUnfinishedSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (err) {
+      console.error('Error recovering recording:', err);
+      alert('Failed to recover recording');
+    }
+  };
+
+  const handleDiscardSession = async (session: RecordingSession, askFirst = true) => {
+    if (askFirst && !window.confirm('Discard this unfinished recording? This action cannot be undone.')) return;
+
+    try {
+      // Not while another tab has recovered it since the list was loaded
+      const release = await claimRecordingSession(session.id);
+      if (release) {
+        try {
+          await discardRecordingSession(session.id);
+        } finally {
+          release();
+        }
+      } else {
+        alert('This recording is already open in another tab');
+      }
+      setUnfinishedSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (err) {
+      console.error('Error discarding recording:', err);
+      alert('Failed to discard recording');
+    }
   };
 
   const handleCompleteMetadata = async () => {
@@ -315,20 +427,38 @@ export function RecordingFlow() {
   if (flowStep === 'record') {
     return (
       <div className="max-w-2xl mx-auto">
-        {error && (
+        {(error || recorder.error) && (
           <div className="bg-red-50 border-2 border-red-300 text-red-800 px-4 py-3 rounded-lg mb-6">
-            {error}
+            {error || recorder.error}
           </div>
         )}
 
         {/* Recording UI */}
-        {recordingState === 'idle' && (
+        {(recordingState === 'idle' || recordingState === 'error') && (
           <div className="space-y-8">
+            {/* Unfinished recordings from an earlier session */}
+            {unfinishedSessions.map(session => (
+              <div key={session.id} className="card bg-yellow-900/30">
+                <p className="text-yellow-300 font-medium mb-1">Unfinished recording found</p>
+                <p className="text-sm text-gray-300 mb-3">
+                  Started {new Date(session.startedDate).toLocaleString()} • {formatTime(Math.floor(session.duration))} saved
+                </p>
+                <div className="flex gap-2">
+                  <button onClick={() => handleRecoverSession(session)} className="btn-primary flex-1">
+                    Recover
+                  </button>
+                  <button onClick={() => handleDiscardSession(session)} className="btn-outline flex-1">
+                    Discard
+                  </button>
+                </div>
+              </div>
+            ))}
+
             {/* Option 1: Tap to Record */}
             <div className="flex flex-col items-center justify-center py-8">
               <h2 className="text-xl font-semibold text-white mb-6">Tap to Record</h2>
               <button
-                onClick={startRecording}
+                onClick={recorder.start}
                 className="w-32 h-32 rounded-full bg-gradient-to-br from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 shadow-2xl transform transition-all hover:scale-105 active:scale-95 flex items-center justify-center"
               >
                 <svg className="w-16 h-16 text-white" fill="currentColor" viewBox="0 0 20 20">
@@ -373,21 +503,41 @@ export function RecordingFlow() {
           </div>
         )}
 
-        {recordingState === 'recording' && (
+        {(recordingState === 'recording' || recordingState === 'paused') && (
           <div className="flex flex-col items-center justify-center py-12">
             <button
-              onClick={stopRecording}
+              onClick={recorder.stop}
               className="w-32 h-32 rounded-full bg-gradient-to-br from-gray-600 to-gray-700 hover:from-gray-700 hover:to-gray-800 shadow-2xl transform transition-all hover:scale-105 active:scale-95 flex items-center justify-center relative"
             >
-              <div className="absolute -top-2 -right-2 w-6 h-6 bg-red-500 rounded-full animate-pulse"></div>
+              {recordingState === 'recording' && (
+                <div className="absolute -top-2 -right-2 w-6 h-6 bg-red-500 rounded-full animate-pulse"></div>
+              )}
               <div className="w-12 h-12 bg-white rounded-lg"></div>
             </button>
             <div className="mt-8 text-center">
-              <p className="text-3xl font-mono font-bold text-red-500 mb-2">
-                {formatTime(recordingTime)}
+              <p className={`text-3xl font-mono font-bold mb-2 ${recordingState === 'paused' ? 'text-gray-400' : 'text-red-500'}`}>
+                {formatTime(recorder.elapsedSeconds)}
+              </p>
+              <p className="text-gray-400">
+                {recordingState === 'paused'
+                  ? `Paused after take ${recorder.markers.length}`
+                  : `Recording${recorder.markers.length > 0 ? ` take ${recorder.markers.length + 1}` : ''}...`}
               </p>
-              <p className="text-gray-400">Recording...</p>
             </div>
+            <div className="mt-6 w-full flex justify-center">
+              <LevelMeter
+                stream={recorder.stream}
+                active={recordingState === 'recording'}
+                clipCount={clipCount}
+                onClip={handleClip}
+              />
+            </div>
+            <button
+              onClick={recordingState === 'paused' ? recorder.resume : recorder.pause}
+              className="btn-secondary px-6 py-2 mt-6"
+            >
+              {recordingState === 'paused' ? 'Resume' : 'Pause'}
+            </button>
           </div>
         )}
 
@@ -402,6 +552,11 @@ export function RecordingFlow() {
               <p className="text-xl font-medium text-green-500 mb-2">
                 Recording complete!
               </p>
+              {clipCount > 0 && (
+                <p className="text-red-400 text-sm mb-2">
+                  The input clipped {clipCount} {clipCount === 1 ? 'time' : 'times'}
+                </p>
+              )}
               {isSaving && (
                 <p className="text-gray-400">Saving...</p>
               )}
@@ -456,13 +611,24 @@ export function RecordingFlow() {
             {showExistingRhythms && existingRhythms.length > 0 && (
               <div className="card max-h-60 overflow-y-auto">
                 <p className="text-sm font-medium text-white mb-2">Select existing rhythm:</p>
-                {existingRhythms.map((rhythm) => (
+                <input
+                  type="text"
+                  className="input-field mb-2"
+                  placeholder="Filter by name..."
+                  value={existingRhythmFilter}
+                  onChange={(e) => setExistingRhythmFilter(e.target.value)}
+                />
+                {pickerRhythms.map((rhythm) => (
                   <ExistingRhythmItem
                     key={rhythm.id}
                     rhythm={rhythm}
+                    names={existingRhythmNames.get(rhythm.id) ?? []}
                     onSelect={handleSelectExistingRhythm}
                   />
                 ))}
+                {pickerRhythms.length === 0 && (
+                  <p className="text-sm text-gray-400 px-3 py-2">No rhythms match "{existingRhythmFilter}"</p>
+                )}
               </div>
             )}
 
@@ -683,26 +849,19 @@ export function RecordingFlow() {
 }
 
 // Helper component for displaying existing rhythms
-function ExistingRhythmItem({ rhythm, onSelect }: { rhythm: Rhythm; onSelect: (rhythm: Rhythm) => void }) {
-  const [rhythmName, setRhythmName] = useState('Loading...');
-
-  useEffect(() => {
-    const loadName = async () => {
-      const tag = await getTagById(rhythm.primaryRhythmNameTag);
-      if (tag) {
-        setRhythmName(tag.value);
-      }
-    };
-    loadName();
-  }, [rhythm]);
-
+function ExistingRhythmItem({ rhythm, names, onSelect }: {
+  rhythm: Rhythm;
+  names: string[]; // Primary name first, then alternates
+  onSelect: (rhythm: Rhythm) => void;
+}) {
   return (
     <button
       onClick={() => onSelect(rhythm)}
       className="w-full text-left px-3 py-2 hover:bg-gray-700 rounded-lg transition-colors"
     >
-      <p className="font-medium text-white">{rhythmName}</p>
+      <p className="font-medium text-white">{names[0] ?? 'Unknown'}</p>
       <p className="text-xs text-gray-400">
+        {names.length > 1 && `Also ${names.slice(1).join(', ')} • `}
         {rhythm.recordingIds.length} {rhythm.recordingIds.length === 1 ? 'recording' : 'recordings'}
       </p>
     </button>
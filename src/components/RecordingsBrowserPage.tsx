@@ -0,0 +1,271 @@
+import { useState, useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { findRecordings, getAllRhythms, getTagsByType, getTagsByIds } from '../db/storage';
+import type { Recording, RecordingFilter, RecordingSortOption } from '../types';
+import { RecordingListItem } from './RecordingListItem';
+import { VirtualList } from './VirtualList';
+
+// Height of one RecordingListItem with a subtitle line, until rows are measured
+const ROW_HEIGHT = 144;
+
+const EMPTY_FILTER: RecordingFilter = {
+  playerTagIds: [],
+  location: '',
+  fromDate: null,
+  toDate: null,
+  minDuration: null,
+  maxDuration: null,
+  favoritesOnly: false,
+  loopPoints: 'any'
+};
+
+// Duration inputs are in minutes; the filter is in seconds
+const minutesToSeconds = (value: string): number | null =>
+  value.trim() === '' || isNaN(Number(value)) ? null : Number(value) * 60;
+
+const NO_RECORDINGS: Recording[] = [];
+
+export function RecordingsBrowserPage() {
+  const [filter, setFilter] = useState<RecordingFilter>(EMPTY_FILTER);
+  const [sortOption, setSortOption] = useState<RecordingSortOption>('date-newest');
+  const [showFilterMenu, setShowFilterMenu] = useState(false);
+  const [durationInput, setDurationInput] = useState({ min: '', max: '' }); // Kept as typed
+
+  // Names for subtitles and the player filter
+  const names = useLiveQuery(async () => {
+    const [rhythms, playerTags] = await Promise.all([getAllRhythms(), getTagsByType('playerName')]);
+    const nameTags = await getTagsByIds(rhythms.map(rhythm => rhythm.primaryRhythmNameTag));
+    const tagValues = new Map(nameTags.map(tag => [tag.id, tag.value]));
+
+    return {
+      rhythmNames: new Map(rhythms.map(rhythm => [rhythm.id, tagValues.get(rhythm.primaryRhythmNameTag) ?? 'Unknown'])),
+      players: [...playerTags].sort((a, b) => a.value.localeCompare(b.value)),
+      playerNames: new Map(playerTags.map(tag => [tag.id, tag.value]))
+    };
+  }, []);
+  const players = names?.players ?? [];
+
+  // Re-queried whenever the filter or the recordings change; stale responses are dropped
+  const matchingRecordings = useLiveQuery(() => findRecordings(filter), [filter]);
+  const recordings = matchingRecordings ?? NO_RECORDINGS;
+  const isLoading = matchingRecordings === undefined;
+
+  const sortedRecordings = useMemo(() => {
+    return [...recordings].sort((a, b) => {
+      switch (sortOption) {
+        case 'date-newest':
+          return b.recordedDate.localeCompare(a.recordedDate);
+        case 'date-oldest':
+          return a.recordedDate.localeCompare(b.recordedDate);
+        case 'longest':
+          return (b.duration ?? 0) - (a.duration ?? 0);
+        case 'shortest':
+          return (a.duration ?? 0) - (b.duration ?? 0);
+        case 'name-asc':
+          return a.fileName.localeCompare(b.fileName);
+        default:
+          return 0;
+      }
+    });
+  }, [recordings, sortOption]);
+
+  const updateFilter = (updates: Partial<RecordingFilter>) => {
+    setFilter(prev => ({ ...prev, ...updates }));
+  };
+
+  const clearFilters = () => {
+    setFilter(EMPTY_FILTER);
+    setDurationInput({ min: '', max: '' });
+  };
+
+  const handleDurationChange = (bound: 'min' | 'max', value: string) => {
+    setDurationInput(prev => ({ ...prev, [bound]: value }));
+    updateFilter(bound === 'min' ? { minDuration: minutesToSeconds(value) } : { maxDuration: minutesToSeconds(value) });
+  };
+
+  const togglePlayer = (tagId: string) => {
+    updateFilter({
+      playerTagIds: filter.playerTagIds.includes(tagId)
+        ? filter.playerTagIds.filter(id => id !== tagId)
+        : [...filter.playerTagIds, tagId]
+    });
+  };
+
+  const activeFilterCount =
+    filter.playerTagIds.length +
+    (filter.location.trim() ? 1 : 0) +
+    (filter.fromDate || filter.toDate ? 1 : 0) +
+    (filter.minDuration !== null || filter.maxDuration !== null ? 1 : 0) +
+    (filter.favoritesOnly ? 1 : 0) +
+    (filter.loopPoints !== 'any' ? 1 : 0);
+
+  const describeRecording = (recording: Recording): string =>
+    [
+      names?.rhythmNames.get(recording.rhythmId) ?? 'Unknown',
+      ...recording.playerNameTags.map(id => names?.playerNames.get(id)).filter(Boolean)
+    ].join(' • ');
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex justify-between items-center mb-4">
+        <h1 className="text-2xl font-bold text-white">Recordings</h1>
+        <div className="text-sm text-gray-400">
+          {isLoading ? 'Loading...' : `${sortedRecordings.length} ${sortedRecordings.length === 1 ? 'recording' : 'recordings'}`}
+        </div>
+      </div>
+
+      {/* Filter and sort */}
+      <div className="flex gap-2 mb-4">
+        <button
+          onClick={() => setShowFilterMenu(!showFilterMenu)}
+          className={`btn-secondary flex-1 px-4 py-2 ${activeFilterCount > 0 ? 'bg-blue-600 text-white' : ''}`}
+        >
+          Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
+        </button>
+        <select
+          value={sortOption}
+          onChange={(e) => setSortOption(e.target.value as RecordingSortOption)}
+          className="input-field py-2"
+        >
+          <option value="date-newest">Newest</option>
+          <option value="date-oldest">Oldest</option>
+          <option value="longest">Longest</option>
+          <option value="shortest">Shortest</option>
+          <option value="name-asc">A-Z</option>
+        </select>
+      </div>
+
+      {/* Filter menu */}
+      {showFilterMenu && (
+        <div className="card mb-4 space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-white font-semibold">Filters</h3>
+            {activeFilterCount > 0 && (
+              <button onClick={clearFilters} className="text-sm text-blue-400 hover:text-blue-300">
+                Clear all
+              </button>
+            )}
+          </div>
+
+          {players.length > 0 && (
+            <div>
+              <h4 className="text-sm text-gray-400 mb-2">Players</h4>
+              <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+                {players.map(tag => (
+                  <button
+                    key={tag.id}
+                    onClick={() => togglePlayer(tag.id)}
+                    className={`px-3 py-1 rounded text-sm ${
+                      filter.playerTagIds.includes(tag.id)
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                    }`}
+                  >
+                    {tag.value}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm text-gray-400 mb-2">Location</h4>
+            <input
+              type="text"
+              value={filter.location}
+              onChange={(e) => updateFilter({ location: e.target.value })}
+              placeholder="e.g. Conakry"
+              className="input-field w-full"
+            />
+          </div>
+
+          <div>
+            <h4 className="text-sm text-gray-400 mb-2">Recorded between</h4>
+            <div className="flex gap-2 items-center">
+              <input
+                type="date"
+                value={filter.fromDate ?? ''}
+                onChange={(e) => updateFilter({ fromDate: e.target.value || null })}
+                className="input-field flex-1"
+              />
+              <span className="text-gray-400">–</span>
+              <input
+                type="date"
+                value={filter.toDate ?? ''}
+                onChange={(e) => updateFilter({ toDate: e.target.value || null })}
+                className="input-field flex-1"
+              />
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm text-gray-400 mb-2">Length (minutes)</h4>
+            <div className="flex gap-2 items-center">
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={durationInput.min}
+                onChange={(e) => handleDurationChange('min', e.target.value)}
+                placeholder="Min"
+                className="input-field flex-1"
+              />
+              <span className="text-gray-400">–</span>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={durationInput.max}
+                onChange={(e) => handleDurationChange('max', e.target.value)}
+                placeholder="Max"
+                className="input-field flex-1"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-4 items-center">
+            <label className="flex items-center gap-2 text-gray-300">
+              <input
+                type="checkbox"
+                checked={filter.favoritesOnly}
+                onChange={(e) => updateFilter({ favoritesOnly: e.target.checked })}
+              />
+              Favorites only
+            </label>
+            <select
+              value={filter.loopPoints}
+              onChange={(e) => updateFilter({ loopPoints: e.target.value as RecordingFilter['loopPoints'] })}
+              className="input-field flex-1 py-1"
+            >
+              <option value="any">Any loop points</option>
+              <option value="with">With loop points</option>
+              <option value="without">Without loop points</option>
+            </select>
+          </div>
+        </div>
+      )}
+
+      {/* Results */}
+      {!isLoading && sortedRecordings.length === 0 ? (
+        <div className="card text-center py-12">
+          <p className="text-xl text-white mb-4">No matching recordings</p>
+          {activeFilterCount > 0 && (
+            <button onClick={clearFilters} className="btn-primary px-4 py-2">
+              Clear filters
+            </button>
+          )}
+        </div>
+      ) : (
+        <VirtualList
+          items={sortedRecordings}
+          estimatedItemHeight={ROW_HEIGHT}
+          getKey={recording => recording.id}
+          renderItem={recording => (
+            <RecordingListItem recording={recording} subtitle={describeRecording(recording)} />
+          )}
+        />
+      )}
+    </div>
+  );
+}
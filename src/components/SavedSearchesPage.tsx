@@ -0,0 +1,107 @@
+import { useNavigate } from 'react-router-dom';
+import { updateSavedSearch, deleteSavedSearch } from '../db/storage';
+import type { SavedSearch, RhythmSortOption } from '../types';
+import { useSavedSearches } from '../hooks/useLiveData';
+import { describePlayedWithin } from '../utils/playedWithin';
+
+const SORT_LABELS: Record<RhythmSortOption, string> = {
+  'relevance': 'Best match',
+  'date-newest': 'Newest',
+  'date-oldest': 'Oldest',
+  'name-asc': 'A-Z',
+  'recordings': 'Most recordings'
+};
+
+export function SavedSearchesPage() {
+  const navigate = useNavigate();
+  const searches = useSavedSearches();
+
+  const handleRename = async (search: SavedSearch) => {
+    const name = prompt('Rename saved search:', search.name)?.trim();
+    if (!name || name === search.name) return;
+
+    if (searches?.some(other => other.id !== search.id && other.name.toLowerCase() === name.toLowerCase())) {
+      alert(`A saved search named "${name}" already exists`);
+      return;
+    }
+
+    try {
+      await updateSavedSearch(search.id, { name });
+    } catch (error) {
+      console.error('Error renaming saved search:', error);
+      alert('Failed to rename saved search');
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    if (!confirm(`Delete the saved search "${search.name}"?`)) return;
+
+    try {
+      await deleteSavedSearch(search.id);
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      alert('Failed to delete saved search');
+    }
+  };
+
+  if (!searches) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-400">Loading saved searches...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 pb-8">
+      <h1 className="text-2xl font-bold text-white">Saved Searches</h1>
+
+      {searches.length === 0 ? (
+        <div className="card text-center py-12">
+          <p className="text-xl text-white mb-4">No saved searches yet</p>
+          <p className="text-gray-400 mb-6">
+            Search or filter the rhythm list, then tap "Save search" to keep it here
+          </p>
+          <button onClick={() => navigate('/rhythms')} className="btn-primary px-4 py-2">
+            Go to Rhythms
+          </button>
+        </div>
+      ) : (
+        searches.map(search => {
+          const filterValues: string[] = Object.values(search.filters).flat();
+          return (
+            <div key={search.id} className="card">
+              <button
+                onClick={() => navigate(`/rhythms?saved=${search.id}`)}
+                className="w-full text-left"
+              >
+                <h3 className="text-lg font-bold text-white mb-2">{search.name}</h3>
+                <div className="flex flex-wrap gap-2 text-xs mb-2">
+                  {search.query.trim() && (
+                    <span className="bg-gray-700 text-gray-300 px-2 py-1 rounded font-mono">{search.query}</span>
+                  )}
+                  {search.playedWithinDays !== null && (
+                    <span className="bg-blue-600 text-white px-2 py-1 rounded">{describePlayedWithin(search.playedWithinDays)}</span>
+                  )}
+                  {filterValues.map((value, index) => (
+                    <span key={index} className="bg-blue-600 text-white px-2 py-1 rounded">{value}</span>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">Sorted by {SORT_LABELS[search.sortOption]}</p>
+              </button>
+
+              <div className="flex gap-2 mt-3">
+                <button onClick={() => handleRename(search)} className="btn-secondary flex-1 py-2 text-sm">
+                  Rename
+                </button>
+                <button onClick={() => handleDelete(search)} className="btn-danger flex-1 py-2 text-sm">
+                  Delete
+                </button>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useRef, useEffect } from 'react';
 import type { Tag, TagType } from '../types';
 import { useTags } from '../hooks/useTags';
 import { TagChip } from './TagChip';
+import { normalizeTagValue } from '../utils/nameSimilarity';
 
 interface TagInputProps {
   type: TagType;
@@ -156,6 +157,18 @@ export function TagInput({
                     </span>
                   </button>
                 ))}
+                {/* Suggestions may be spelling variants, so still offer the exact spelling */}
+                {inputValue.trim() && !filteredSuggestions.some(tag => tag.normalizedValue === normalizeTagValue(inputValue)) && (
+                  <button
+                    type="button"
+                    onClick={() => handleAddTag(inputValue)}
+                    className="w-full px-4 py-2 text-left hover:bg-gray-700 transition-colors border-t border-gray-300"
+                  >
+                    <span className="text-white">
+                      Create "<span className="font-medium">{inputValue}</span>"
+                    </span>
+                  </button>
+                )}
               </>
             ) : inputValue.trim() ? (
               <button
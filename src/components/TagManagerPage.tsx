@@ -0,0 +1,282 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { db } from '../db/schema';
+import { findTagByValue } from '../db/storage';
+import { collectTagUsage, renameTag, mergeTags, deleteUnusedTag } from '../db/tagManagement';
+import { normalizeTagValue } from '../utils/nameSimilarity';
+import type { Tag, TagType, TagUsage } from '../types';
+
+const TAG_TYPE_LABELS: Record<TagType, string> = {
+  rhythmName: 'Rhythm Names',
+  region: 'Regions',
+  ethnicGroup: 'Ethnic Groups',
+  occasion: 'Occasions',
+  language: 'Languages',
+  playerName: 'Players'
+};
+
+const NO_USAGE: TagUsage = { rhythmIds: [], recordingIds: [] };
+
+export function TagManagerPage() {
+  const navigate = useNavigate();
+  const [tags, setTags] = useState<Tag[] | null>(null);
+  const [usage, setUsage] = useState<Map<string, TagUsage>>(new Map());
+  const [rhythmNames, setRhythmNames] = useState<Map<string, string>>(new Map());
+  const [recordingNames, setRecordingNames] = useState<Map<string, string>>(new Map());
+  const [filter, setFilter] = useState('');
+  const [expandedTagId, setExpandedTagId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadTags = useCallback(async () => {
+    try {
+      const [allTags, rhythms, recordings] = await Promise.all([
+        db.tags.toArray(),
+        db.rhythms.toArray(),
+        db.recordings.toArray()
+      ]);
+      const tagValues = new Map(allTags.map(tag => [tag.id, tag.value]));
+
+      setTags(allTags.sort((a, b) => a.value.localeCompare(b.value)));
+      setUsage(collectTagUsage(rhythms, recordings));
+      setRhythmNames(new Map(rhythms.map(rhythm => [rhythm.id, tagValues.get(rhythm.primaryRhythmNameTag) ?? 'Unknown'])));
+      setRecordingNames(new Map(recordings.map(recording => [recording.id, recording.fileName])));
+    } catch (error) {
+      console.error('Error loading tags:', error);
+      setTags([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  const tagsByType = useMemo(() => {
+    const query = normalizeTagValue(filter);
+    const grouped = new Map<TagType, Tag[]>();
+    for (const tag of tags ?? []) {
+      if (query && !tag.normalizedValue.includes(query)) continue;
+      grouped.set(tag.type, [...(grouped.get(tag.type) ?? []), tag]);
+    }
+    return grouped;
+  }, [tags, filter]);
+
+  // Tags created before matching ignored case and accents may still share a key
+  const keyCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const tag of tags ?? []) {
+      const key = `${tag.type}:${tag.normalizedValue}`;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    return counts;
+  }, [tags]);
+
+  const selectedTags = (tags ?? []).filter(tag => selectedIds.has(tag.id));
+  const selectedType = selectedTags[0]?.type;
+
+  const runAction = async (action: () => Promise<void>, failureMessage: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+      await loadTags();
+    } catch (error) {
+      console.error(failureMessage, error);
+      alert(`❌ ${failureMessage}: ` + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toggleSelected = (tag: Tag) => {
+    setSelectedIds(prev => {
+      // Merging only makes sense within one type, so switching type starts a new selection
+      const next = selectedType && selectedType !== tag.type ? new Set<string>() : new Set(prev);
+      if (next.has(tag.id)) {
+        next.delete(tag.id);
+      } else {
+        next.add(tag.id);
+      }
+      return next;
+    });
+  };
+
+  const handleRename = async (tag: Tag) => {
+    const value = window.prompt(`Rename "${tag.value}" to:`, tag.value)?.trim();
+    if (!value || value === tag.value) return;
+
+    const existing = await findTagByValue(tag.type, value);
+    if (existing && existing.id !== tag.id) {
+      const confirmed = window.confirm(
+        `"${value}" already exists.\n\nMerge "${tag.value}" into it? Every rhythm and recording using "${tag.value}" will use "${value}" instead.`
+      );
+      if (!confirmed) return;
+      await runAction(() => mergeTags(existing.id, [tag.id]), 'Merge failed');
+      return;
+    }
+
+    await runAction(() => renameTag(tag.id, value), 'Rename failed');
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    if (!window.confirm(`Delete the unused tag "${tag.value}"?`)) return;
+    await runAction(() => deleteUnusedTag(tag.id), 'Delete failed');
+  };
+
+  const handleMerge = async () => {
+    const target = selectedTags.find(tag => tag.id === mergeTargetId) ?? selectedTags[0];
+    if (!target || selectedTags.length < 2) return;
+
+    const others = selectedTags.filter(tag => tag.id !== target.id);
+    const confirmed = window.confirm(
+      `Merge ${others.map(tag => `"${tag.value}"`).join(', ')} into "${target.value}"?\n\n` +
+      'Every rhythm and recording using the merged tags will be updated. This cannot be undone.'
+    );
+    if (!confirmed) return;
+
+    await runAction(async () => {
+      await mergeTags(target.id, others.map(tag => tag.id));
+      setSelectedIds(new Set());
+      setMergeTargetId('');
+    }, 'Merge failed');
+  };
+
+  return (
+    <div className="space-y-4 pb-8">
+      <button
+        onClick={() => navigate('/settings')}
+        className="text-blue-400 flex items-center gap-2"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        Back
+      </button>
+
+      <h1 className="text-2xl font-bold text-white">Manage Tags</h1>
+
+      <input
+        type="text"
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        placeholder="Filter tags..."
+        className="input-field w-full"
+      />
+
+      {selectedTags.length >= 2 && (
+        <div className="card sticky top-2 z-10 border border-blue-500">
+          <p className="text-white mb-2">Merge {selectedTags.length} tags into:</p>
+          <div className="flex gap-2">
+            <select
+              value={mergeTargetId || selectedTags[0].id}
+              onChange={(e) => setMergeTargetId(e.target.value)}
+              className="input-field flex-1"
+            >
+              {selectedTags.map(tag => (
+                <option key={tag.id} value={tag.id}>{tag.value}</option>
+              ))}
+            </select>
+            <button onClick={handleMerge} disabled={isWorking} className="btn-primary">
+              Merge
+            </button>
+          </div>
+        </div>
+      )}
+
+      {tags === null ? (
+        <div className="text-center py-12">
+          <p className="text-gray-400">Loading tags...</p>
+        </div>
+      ) : tagsByType.size === 0 ? (
+        <div className="card">
+          <p className="text-gray-400">No tags found</p>
+        </div>
+      ) : (
+        (Object.keys(TAG_TYPE_LABELS) as TagType[])
+          .filter(type => tagsByType.has(type))
+          .map(type => (
+            <div key={type} className="card">
+              <h2 className="text-lg font-bold text-white mb-2">
+                {TAG_TYPE_LABELS[type]} ({tagsByType.get(type)!.length})
+              </h2>
+              <div className="divide-y divide-gray-700">
+                {tagsByType.get(type)!.map(tag => {
+                  const tagUsage = usage.get(tag.id) ?? NO_USAGE;
+                  const useCount = tagUsage.rhythmIds.length + tagUsage.recordingIds.length;
+                  const isExpanded = expandedTagId === tag.id;
+
+                  return (
+                    <div key={tag.id} className="py-2">
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(tag.id)}
+                          onChange={() => toggleSelected(tag)}
+                        />
+                        <button
+                          onClick={() => setExpandedTagId(isExpanded ? null : tag.id)}
+                          className="flex-1 min-w-0 text-left"
+                        >
+                          <p className="text-gray-200 truncate">
+                            {tag.value}
+                            {(keyCounts.get(`${tag.type}:${tag.normalizedValue}`) ?? 0) > 1 && (
+                              <span className="ml-2 text-xs text-yellow-400">Possible duplicate</span>
+                            )}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {useCount === 0
+                              ? 'Unused'
+                              : [
+                                  tagUsage.rhythmIds.length > 0 &&
+                                    `${tagUsage.rhythmIds.length} ${tagUsage.rhythmIds.length === 1 ? 'rhythm' : 'rhythms'}`,
+                                  tagUsage.recordingIds.length > 0 &&
+                                    `${tagUsage.recordingIds.length} ${tagUsage.recordingIds.length === 1 ? 'recording' : 'recordings'}`
+                                ].filter(Boolean).join(' • ')}
+                          </p>
+                        </button>
+                        <button
+                          onClick={() => handleRename(tag)}
+                          disabled={isWorking}
+                          className="btn-secondary px-3 py-1 text-xs"
+                        >
+                          Rename
+                        </button>
+                        {useCount === 0 && (
+                          <button
+                            onClick={() => handleDelete(tag)}
+                            disabled={isWorking}
+                            className="btn-danger px-3 py-1 text-xs"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </div>
+
+                      {isExpanded && useCount > 0 && (
+                        <ul className="mt-2 ml-7 space-y-1 text-sm">
+                          {tagUsage.rhythmIds.map(id => (
+                            <li key={id}>
+                              <Link to={`/rhythm/${id}`} className="text-blue-400 hover:underline">
+                                {rhythmNames.get(id) ?? id}
+                              </Link>
+                            </li>
+                          ))}
+                          {tagUsage.recordingIds.map(id => (
+                            <li key={id}>
+                              <Link to={`/recording/${id}`} className="text-blue-400 hover:underline">
+                                🎵 {recordingNames.get(id) ?? id}
+                              </Link>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState, useEffect, useRef, useCallback, type ReactNode } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  estimatedItemHeight: number; // px; used for rows that haven't been rendered yet
+  overscan?: number; // Extra rows rendered above and below the viewport
+  getKey: (item: T) => string;
+  renderItem: (item: T) => ReactNode;
+  onEndReached?: () => void; // Called while the last rows are within the overscan, e.g. to load more
+}
+
+// Renders only the rows near the viewport. The page itself scrolls, so the
+// visible range is worked out from the list's position in the window. Rows are
+// measured once rendered, so they may differ in height.
+export function VirtualList<T>({ items, estimatedItemHeight, overscan = 5, getKey, renderItem, onEndReached }: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const [heights, setHeights] = useState<Map<string, number>>(new Map());
+  const [viewport, setViewport] = useState({ top: 0, bottom: 0 }); // Relative to the top of the list
+
+  // Row positions from measured heights, estimating the rest
+  const tops: number[] = [];
+  let totalHeight = 0;
+  for (const item of items) {
+    tops.push(totalHeight);
+    totalHeight += heights.get(getKey(item)) ?? estimatedItemHeight;
+  }
+
+  const updateViewport = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const top = container.getBoundingClientRect().top; // Negative once scrolled past
+    setViewport(previous =>
+      previous.top === -top && previous.bottom === window.innerHeight - top
+        ? previous
+        : { top: -top, bottom: window.innerHeight - top }
+    );
+  }, []);
+
+  useEffect(() => {
+    updateViewport();
+    window.addEventListener('scroll', updateViewport, { passive: true });
+    window.addEventListener('resize', updateViewport);
+    return () => {
+      window.removeEventListener('scroll', updateViewport);
+      window.removeEventListener('resize', updateViewport);
+    };
+  }, [updateViewport]);
+
+  // Content above the list (filter menus etc.) can move it without a scroll event
+  useEffect(() => {
+    updateViewport();
+  }, [updateViewport, items.length, totalHeight]);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const measureRow = useCallback((element: HTMLDivElement | null) => {
+    if (!element) return;
+
+    observerRef.current ??= new ResizeObserver(entries => {
+      setHeights(previous => {
+        let next = previous;
+        for (const entry of entries) {
+          const key = (entry.target as HTMLElement).dataset.key!;
+          const height = entry.borderBoxSize[0]?.blockSize ?? entry.contentRect.height;
+          if (previous.get(key) !== height) {
+            if (next === previous) next = new Map(previous);
+            next.set(key, height);
+          }
+        }
+        return next;
+      });
+    });
+
+    const observer = observerRef.current;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, []);
+
+  // First row that ends below the top of the viewport, by binary search
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    const bottom = middle + 1 < tops.length ? tops[middle + 1] : totalHeight;
+    if (bottom > viewport.top) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  let start = low;
+  let end = start;
+  while (end < items.length && tops[end] < viewport.bottom) end++;
+
+  start = Math.max(0, start - overscan);
+  end = Math.min(items.length, end + overscan);
+
+  const isNearEnd = end === items.length;
+  useEffect(() => {
+    if (isNearEnd) onEndReached?.();
+  }, [isNearEnd, items.length, onEndReached]);
+
+  return (
+    <div ref={containerRef} className="relative" style={{ height: totalHeight }}>
+      {items.slice(start, end).map((item, offset) => {
+        const key = getKey(item);
+        return (
+          <div
+            key={key}
+            ref={measureRow}
+            data-key={key}
+            className="absolute left-0 right-0"
+            style={{ top: tops[start + offset] }}
+          >
+            {renderItem(item)}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
-import { createContext, useContext, useState, useRef, useCallback, useEffect, useMemo, type ReactNode } from 'react';
+import { createContext, useContext, useState, useRef, useCallback, useEffect, type ReactNode } from 'react';
+import { broadcast, onTabMessage } from '../utils/tabChannel';
+import timeStretchProcessorUrl from '../workers/timeStretchProcessor.ts?worker&url';
 
 interface LoopPoints {
   start: number;
@@ -11,16 +13,53 @@ interface PlayHistoryEntry {
 }
 
 interface AudioPlaybackState {
-  playingRecordingId: string | null;
+  playingRecordingId: string | null; // Loaded recording, playing or paused
   isLooping: boolean;
+  isPaused: boolean;
   currentTime: number;
   duration: number;
-  recentlyPlayedRecordings: string[]; // List of recently played recording IDs
-  playRecording: (recordingId: string, audioBlob: Blob, loop: boolean, loopPoints: LoopPoints | null) => Promise<void>;
+  getRecordingsPlayedWithin: (days: number) => Set<string>; // IDs of recordings played in the last `days` days
+  // Plays, or pauses/resumes if this recording is already loaded in this mode.
+  // Without startAt, playback picks up where the recording was last left.
+  playRecording: (recordingId: string, audioBlob: Blob, loop: boolean, loopPoints: LoopPoints | null, startAt?: number) => Promise<void>;
   stopPlayback: () => void;
+  pausePlayback: () => void;
+  resumePlayback: () => Promise<void>;
+  seek: (time: number) => Promise<void>; // Seconds; the loaded recording only
+  skip: (seconds: number) => Promise<void>; // Negative to go back
+  getResumePosition: (recordingId: string) => number;
   isPlaying: (recordingId: string, checkLoop?: boolean) => boolean;
+  playbackSpeed: number; // 1 is normal speed; pitch is kept at any speed
+  setPlaybackSpeed: (speed: number) => void;
+  isSpeedSupported: boolean; // False once the time-stretch worklet fails to load
 }
 
+export const MIN_PLAYBACK_SPEED = 0.5;
+export const MAX_PLAYBACK_SPEED = 1.5;
+
+// Speed changes need the time-stretch worklet; without it playback stays at normal speed
+const hasAudioWorklet = typeof AudioWorkletNode !== 'undefined';
+
+// Resume positions are kept for this many recordings, most recent first
+const MAX_RESUME_POSITIONS = 200;
+// Closer than this to the end counts as finished, so the next play starts over
+const FINISHED_MARGIN = 1;
+
+// A worklet node that plays the decoded recording, time-stretched to the given speed
+const createStretchNode = async (audioContext: AudioContext, audioBuffer: AudioBuffer, speed: number): Promise<AudioWorkletNode> => {
+  await audioContext.audioWorklet.addModule(timeStretchProcessorUrl);
+  const node = new AudioWorkletNode(audioContext, 'time-stretch', {
+    numberOfInputs: 0,
+    outputChannelCount: [audioBuffer.numberOfChannels]
+  });
+
+  // The worklet gets its own copy of the samples
+  const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, channel) => audioBuffer.getChannelData(channel).slice());
+  node.port.postMessage({ type: 'load', channels }, channels.map(channel => channel.buffer));
+  node.port.postMessage({ type: 'speed', speed });
+  return node;
+};
+
 const AudioPlaybackContext = createContext<AudioPlaybackState | undefined>(undefined);
 
 export function AudioPlaybackProvider({ children }: { children: ReactNode }) {
@@ -28,7 +67,11 @@ export function AudioPlaybackProvider({ children }: { children: ReactNode }) {
   const [isLooping, setIsLooping] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
   const [playHistory, setPlayHistory] = useState<PlayHistoryEntry[]>([]);
+  const [resumePositions, setResumePositions] = useState<Record<string, number>>({});
+  const [playbackSpeed, setPlaybackSpeedState] = useState(1);
+  const [isSpeedSupported, setIsSpeedSupported] = useState(hasAudioWorklet);
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const audioBufferRef = useRef<AudioBuffer | null>(null);
@@ -42,13 +85,17 @@ export function AudioPlaybackProvider({ children }: { children: ReactNode }) {
   const isLoopingRef = useRef<boolean>(false);
   const crossfadeScheduledRef = useRef<boolean>(false);
   const nextSourceRef = useRef<AudioBufferSourceNode | null>(null);
-
-  // Get recently played recordings (within last 7 days)
-  const recentlyPlayedRecordings = useMemo(() => {
-    const sevenDaysAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
-    const recentEntries = playHistory.filter(entry => entry.timestamp > sevenDaysAgo);
-    // Return unique recording IDs
-    return Array.from(new Set(recentEntries.map(e => e.recordingId)));
+  const playingRecordingIdRef = useRef<string | null>(null);
+  const isPausedRef = useRef(false);
+  const stretchNodeRef = useRef<AudioWorkletNode | null>(null); // Plays the loaded recording while the speed isn't 1
+  const isSoundingRef = useRef(false);
+  const speedRef = useRef(1);
+  const isSpeedSupportedRef = useRef(hasAudioWorklet);
+
+  // Worked out when asked, so the window moves with the clock
+  const getRecordingsPlayedWithin = useCallback((days: number) => {
+    const since = Date.now() - days * 24 * 60 * 60 * 1000;
+    return new Set(playHistory.filter(entry => entry.timestamp > since).map(entry => entry.recordingId));
   }, [playHistory]);
 
   // Load play history from localStorage on mount
@@ -71,9 +118,44 @@ export function AudioPlaybackProvider({ children }: { children: ReactNode }) {
     }
   }, [playHistory]);
 
+  // Load resume positions from localStorage on mount
+  useEffect(() => {
+    const stored = localStorage.getItem('resumePositions');
+    if (stored) {
+      try {
+        setResumePositions(JSON.parse(stored));
+      } catch (e) {
+        console.error('Failed to load resume positions:', e);
+      }
+    }
+  }, []);
+
+  const rememberPosition = useCallback((recordingId: string, time: number, duration: number) => {
+    setResumePositions(prev => {
+      const rest = { ...prev };
+      delete rest[recordingId];
+      const finished = time <= 0 || time >= duration - FINISHED_MARGIN;
+      const next = finished
+        ? rest
+        : Object.fromEntries([[recordingId, time], ...Object.entries(rest)].slice(0, MAX_RESUME_POSITIONS));
+      localStorage.setItem('resumePositions', JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const getResumePosition = useCallback(
+    (recordingId: string) => resumePositions[recordingId] ?? 0,
+    [resumePositions]
+  );
+
   const CROSSFADE_DURATION = 0.0; // No crossfade - clean loop
 
+  // Seconds of recording per second of playback
+  const activeSpeed = useCallback(() => (stretchNodeRef.current ? speedRef.current : 1), []);
+
   const stopPlayback = useCallback(() => {
+    stretchNodeRef.current?.port.postMessage({ type: 'stop' });
+    isSoundingRef.current = false;
     if (sourceNodeRef.current) {
       try {
         sourceNodeRef.current.stop();
@@ -97,6 +179,43 @@ export function AudioPlaybackProvider({ children }: { children: ReactNode }) {
     crossfadeScheduledRef.current = false;
   }, []);
 
+  const releaseStretchNode = useCallback(() => {
+    stretchNodeRef.current?.port.postMessage({ type: 'stop' });
+    stretchNodeRef.current?.disconnect();
+    stretchNodeRef.current = null;
+  }, []);
+
+  // The worklet holds a copy of the whole recording, so it only plays it while
+  // the speed isn't 1; at normal speed a buffer source does. Null means use the
+  // buffer source, including when the worklet fails to load.
+  const prepareStretchNode = useCallback(async (): Promise<AudioWorkletNode | null> => {
+    const audioContext = audioContextRef.current;
+    const audioBuffer = audioBufferRef.current;
+    const gainNode = gainNodeRef.current;
+    if (speedRef.current === 1 || !isSpeedSupportedRef.current || !audioContext || !audioBuffer || !gainNode) {
+      releaseStretchNode();
+      return null;
+    }
+    if (stretchNodeRef.current) return stretchNodeRef.current;
+
+    try {
+      const node = await createStretchNode(audioContext, audioBuffer, speedRef.current);
+      // Another recording may have been loaded meanwhile
+      if (audioContextRef.current !== audioContext) return null;
+      node.connect(gainNode);
+      stretchNodeRef.current = node;
+      return node;
+    } catch (error) {
+      // Stop offering a speed that playback no longer follows
+      console.error('Speed control unavailable, playing at normal speed:', error);
+      isSpeedSupportedRef.current = false;
+      setIsSpeedSupported(false);
+      speedRef.current = 1;
+      setPlaybackSpeedState(1);
+      return null;
+    }
+  }, [releaseStretchNode]);
+
   const startPlayback = useCallback(async (startFrom: number = 0, fadeIn: boolean = false) => {
     const audioContext = audioContextRef.current;
     const audioBuffer = audioBufferRef.current;
@@ -116,44 +235,55 @@ export function AudioPlaybackProvider({ children }: { children: ReactNode }) {
       await audioContext.resume();
     }
 
+    const stretchNode = await prepareStretchNode();
     stopPlayback();
 
-    const source = audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-
-    const crossfadeGain = audioContext.createGain();
-    crossfadeGain.connect(gainNode);
-    source.connect(crossfadeGain);
-    crossfadeGainNodeRef.current = crossfadeGain;
-
-    if (fadeIn) {
-      crossfadeGain.gain.setValueAtTime(0, audioContext.currentTime);
-      crossfadeGain.gain.linearRampToValueAtTime(1, audioContext.currentTime + CROSSFADE_DURATION);
-    } else {
-      crossfadeGain.gain.setValueAtTime(1, audioContext.currentTime);
-    }
-
     let offset = startFrom;
     let playDuration: number | undefined = undefined;
 
     if (isLoopingRef.current && loopPointsRef.current) {
-      offset = startFrom >= loopPointsRef.current.start ? startFrom : loopPointsRef.current.start;
-      playDuration = loopPointsRef.current.end - offset;
+      const { start, end } = loopPointsRef.current;
+      offset = startFrom >= start && startFrom < end ? startFrom : start;
+      playDuration = end - offset;
     }
 
-    source.start(0, offset, playDuration);
-    sourceNodeRef.current = source;
+    if (stretchNode) {
+      stretchNode.port.postMessage({
+        type: 'play',
+        position: offset,
+        end: playDuration === undefined ? audioBuffer.duration : offset + playDuration
+      });
+    } else {
+      const source = audioContext.createBufferSource();
+      source.buffer = audioBuffer;
+
+      const crossfadeGain = audioContext.createGain();
+      crossfadeGain.connect(gainNode);
+      source.connect(crossfadeGain);
+      crossfadeGainNodeRef.current = crossfadeGain;
+
+      if (fadeIn) {
+        crossfadeGain.gain.setValueAtTime(0, audioContext.currentTime);
+        crossfadeGain.gain.linearRampToValueAtTime(1, audioContext.currentTime + CROSSFADE_DURATION);
+      } else {
+        crossfadeGain.gain.setValueAtTime(1, audioContext.currentTime);
+      }
+
+      source.start(0, offset, playDuration);
+      sourceNodeRef.current = source;
+    }
+    isSoundingRef.current = true;
     startTimeRef.current = audioContext.currentTime;
     pauseTimeRef.current = offset;
     crossfadeScheduledRef.current = false;
-  }, [stopPlayback, CROSSFADE_DURATION]);
+  }, [stopPlayback, prepareStretchNode, CROSSFADE_DURATION]);
 
   const updatePlayback = useCallback(() => {
     const audioContext = audioContextRef.current;
     const audioBuffer = audioBufferRef.current;
     if (!audioContext || !audioBuffer) return;
 
-    const elapsed = audioContext.currentTime - startTimeRef.current;
+    const elapsed = (audioContext.currentTime - startTimeRef.current) * activeSpeed();
     let newTime = pauseTimeRef.current + elapsed;
 
     // Update current time state
@@ -167,8 +297,12 @@ export function AudioPlaybackProvider({ children }: { children: ReactNode }) {
         startPlayback(loopPointsRef.current.start, false);
       }
     } else if (!isLoopingRef.current && newTime >= audioBuffer.duration) {
-      // Stop at end in normal mode
+      // Stop at end in normal mode; the next play starts over
       stopPlayback();
+      if (playingRecordingIdRef.current) {
+        rememberPosition(playingRecordingIdRef.current, 0, audioBuffer.duration);
+      }
+      playingRecordingIdRef.current = null;
       setPlayingRecordingId(null);
       setIsLooping(false);
       setCurrentTime(0);
@@ -177,33 +311,134 @@ export function AudioPlaybackProvider({ children }: { children: ReactNode }) {
     }
 
     animationFrameRef.current = requestAnimationFrame(updatePlayback);
-  }, [stopPlayback, startPlayback]);
+  }, [stopPlayback, startPlayback, rememberPosition, activeSpeed]);
+
+  // Position in the loaded recording, in seconds
+  const currentPosition = useCallback((): number => {
+    const audioContext = audioContextRef.current;
+    if (!audioContext || isPausedRef.current || !isSoundingRef.current) return pauseTimeRef.current;
+    return pauseTimeRef.current + (audioContext.currentTime - startTimeRef.current) * activeSpeed();
+  }, [activeSpeed]);
+
+  const setPlaybackSpeed = useCallback((speed: number) => {
+    const clamped = Math.max(MIN_PLAYBACK_SPEED, Math.min(MAX_PLAYBACK_SPEED, speed));
+
+    // Count time so far at the old speed before switching
+    if (isSoundingRef.current && audioContextRef.current) {
+      pauseTimeRef.current = currentPosition();
+      startTimeRef.current = audioContextRef.current.currentTime;
+    }
+    speedRef.current = clamped;
+    setPlaybackSpeedState(clamped);
+
+    // Moving to or from normal speed switches between the buffer source and the
+    // worklet, so playback starts again from here on the other one
+    const needsStretchNode = clamped !== 1 && isSpeedSupportedRef.current;
+    if (isSoundingRef.current && needsStretchNode !== (stretchNodeRef.current !== null)) {
+      startPlayback(pauseTimeRef.current).catch(error => console.error('Error changing speed:', error));
+    } else if (needsStretchNode) {
+      stretchNodeRef.current?.port.postMessage({ type: 'speed', speed: clamped });
+    } else {
+      releaseStretchNode();
+    }
+  }, [currentPosition, startPlayback, releaseStretchNode]);
+
+  const setPaused = useCallback((paused: boolean) => {
+    isPausedRef.current = paused;
+    setIsPaused(paused);
+  }, []);
+
+  // Stop where we are, keeping the recording loaded so it can resume from here
+  const pausePlayback = useCallback(() => {
+    const audioBuffer = audioBufferRef.current;
+    if (!audioBuffer || isPausedRef.current || !playingRecordingIdRef.current) return;
+
+    const position = currentPosition();
+    stopPlayback();
+    pauseTimeRef.current = position;
+    setCurrentTime(position);
+    setPaused(true);
+    rememberPosition(playingRecordingIdRef.current, position, audioBuffer.duration);
+  }, [currentPosition, stopPlayback, setPaused, rememberPosition]);
+
+  const resumePlayback = useCallback(async () => {
+    if (!audioBufferRef.current || !isPausedRef.current) return;
+
+    setPaused(false);
+    await startPlayback(pauseTimeRef.current);
+    animationFrameRef.current = requestAnimationFrame(updatePlayback);
+    broadcast({ type: 'playback-started' });
+  }, [setPaused, startPlayback, updatePlayback]);
+
+  const seek = useCallback(async (time: number) => {
+    const audioBuffer = audioBufferRef.current;
+    if (!audioBuffer || !playingRecordingIdRef.current) return;
+
+    const position = Math.max(0, Math.min(time, audioBuffer.duration));
+    if (isPausedRef.current) {
+      pauseTimeRef.current = position;
+      setCurrentTime(position);
+      rememberPosition(playingRecordingIdRef.current, position, audioBuffer.duration);
+    } else {
+      // Replacing the source keeps the frame loop running
+      await startPlayback(position);
+      if (!animationFrameRef.current) {
+        animationFrameRef.current = requestAnimationFrame(updatePlayback);
+      }
+    }
+  }, [startPlayback, updatePlayback, rememberPosition]);
+
+  const skip = useCallback(
+    (seconds: number) => seek(currentPosition() + seconds),
+    [seek, currentPosition]
+  );
+
+  // Only one tab plays at a time: another tab starting playback pauses ours
+  useEffect(() => onTabMessage(message => {
+    if (message.type === 'playback-started') {
+      pausePlayback();
+    }
+  }), [pausePlayback]);
+
+  // Keep the place in a recording that's playing when the page is closed
+  useEffect(() => {
+    const handlePageHide = () => {
+      if (playingRecordingIdRef.current && audioBufferRef.current) {
+        rememberPosition(playingRecordingIdRef.current, currentPosition(), audioBufferRef.current.duration);
+      }
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [rememberPosition, currentPosition]);
 
   const playRecording = useCallback(async (
     recordingId: string,
     audioBlob: Blob,
     loop: boolean,
-    loopPoints: LoopPoints | null
+    loopPoints: LoopPoints | null,
+    startAt?: number
   ) => {
-    // If clicking the same recording with same mode, stop it
+    // Same recording in the same mode: seek, or pause/resume
     if (playingRecordingId === recordingId && isLooping === loop) {
-      stopPlayback();
-      if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-        await audioContextRef.current.close();
+      if (startAt !== undefined) {
+        await seek(startAt);
+        if (isPausedRef.current) await resumePlayback();
+      } else if (isPausedRef.current) {
+        await resumePlayback();
+      } else {
+        pausePlayback();
       }
-      audioContextRef.current = null;
-      audioBufferRef.current = null;
-      gainNodeRef.current = null;
-      setPlayingRecordingId(null);
-      setIsLooping(false);
-      setCurrentTime(0);
-      setDuration(0);
-      isLoopingRef.current = false;
       return;
     }
 
+    // Leave the current recording where it is for next time
+    if (playingRecordingIdRef.current && audioBufferRef.current) {
+      rememberPosition(playingRecordingIdRef.current, currentPosition(), audioBufferRef.current.duration);
+    }
+
     // Stop any current playback
     stopPlayback();
+    stretchNodeRef.current = null;
     if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
       await audioContextRef.current.close();
     }
@@ -223,10 +458,11 @@ export function AudioPlaybackProvider({ children }: { children: ReactNode }) {
 
       loopPointsRef.current = loopPoints || null;
       isLoopingRef.current = loop;
+      playingRecordingIdRef.current = recordingId;
       setPlayingRecordingId(recordingId);
       setIsLooping(loop);
+      setPaused(false);
       setDuration(audioBuffer.duration);
-      setCurrentTime(0);
 
       // Add to play history
       setPlayHistory(prev => {
@@ -241,24 +477,39 @@ export function AudioPlaybackProvider({ children }: { children: ReactNode }) {
         return updated;
       });
 
-      // Start from loop point only if looping, otherwise start from beginning
-      const startFrom = loop && loopPoints ? loopPoints.start : 0;
+      // Loops start at the loop start; otherwise pick up where this recording was left
+      const startFrom = startAt ?? (loop && loopPoints ? loopPoints.start : resumePositions[recordingId] ?? 0);
+      setCurrentTime(startFrom);
       await startPlayback(startFrom);
       animationFrameRef.current = requestAnimationFrame(updatePlayback);
+      broadcast({ type: 'playback-started' });
     } catch (error) {
       console.error('Error playing audio:', error);
       isLoopingRef.current = false;
+      playingRecordingIdRef.current = null;
       setPlayingRecordingId(null);
       setIsLooping(false);
     }
-  }, [playingRecordingId, isLooping, stopPlayback, startPlayback, updatePlayback]);
-
+  }, [
+    playingRecordingId,
+    isLooping,
+    resumePositions,
+    seek,
+    pausePlayback,
+    resumePlayback,
+    rememberPosition,
+    currentPosition,
+    setPaused,
+    stopPlayback,
+    startPlayback,
+    updatePlayback
+  ]);
+
+  // Paused recordings stay loaded but don't count as playing
   const isPlaying = useCallback((recordingId: string, checkLoop?: boolean) => {
-    if (checkLoop !== undefined) {
-      return playingRecordingId === recordingId && isLooping === checkLoop;
-    }
-    return playingRecordingId === recordingId;
-  }, [playingRecordingId, isLooping]);
+    if (playingRecordingId !== recordingId || isPaused) return false;
+    return checkLoop === undefined || isLooping === checkLoop;
+  }, [playingRecordingId, isLooping, isPaused]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -271,6 +522,7 @@ export function AudioPlaybackProvider({ children }: { children: ReactNode }) {
       audioBufferRef.current = null;
       gainNodeRef.current = null;
       crossfadeGainNodeRef.current = null;
+      stretchNodeRef.current = null;
     };
   }, [stopPlayback]);
 
@@ -278,12 +530,21 @@ export function AudioPlaybackProvider({ children }: { children: ReactNode }) {
     <AudioPlaybackContext.Provider value={{
       playingRecordingId,
       isLooping,
+      isPaused,
       currentTime,
       duration,
-      recentlyPlayedRecordings,
+      getRecordingsPlayedWithin,
       playRecording,
       stopPlayback,
-      isPlaying
+      pausePlayback,
+      resumePlayback,
+      seek,
+      skip,
+      getResumePosition,
+      isPlaying,
+      playbackSpeed,
+      setPlaybackSpeed,
+      isSpeedSupported
     }}>
       {children}
     </AudioPlaybackContext.Provider>
@@ -0,0 +1,147 @@
+import { db } from './schema';
+import type { Tag, Rhythm, DuplicateGroup, DuplicateMatch, RhythmMergePlan, MergeableTextField } from '../types';
+import { normalizeName, nameTokenKey, nameSimilarity } from '../utils/nameSimilarity';
+import { rhythmTagIds } from './tagUsage';
+import { refreshTagUsage, announceRhythmChange } from './storage';
+import { indexRhythms, indexRecordings } from './searchIndex';
+
+// Names at least this similar are offered as possible duplicates
+export const SIMILAR_NAME_THRESHOLD = 0.8;
+
+export const MERGEABLE_TEXT_FIELDS: MergeableTextField[] = ['lyrics', 'lyricsTranslation', 'notes'];
+
+const MERGED_TAG_LIST_FIELDS = ['regionTags', 'ethnicGroupTags', 'occasionTags', 'languageTags'] as const;
+
+const matchPair = (a: Rhythm, b: Rhythm, tagsById: Map<string, Tag>): DuplicateMatch | null => {
+  const nameOf = (tagId: string) => tagsById.get(tagId)?.value ?? '';
+  const primaryA = nameOf(a.primaryRhythmNameTag);
+  const primaryB = nameOf(b.primaryRhythmNameTag);
+  const rhythmIds: [string, string] = [a.id, b.id];
+
+  if (a.primaryRhythmNameTag === b.primaryRhythmNameTag ||
+      (primaryA && normalizeName(primaryA) === normalizeName(primaryB))) {
+    return { rhythmIds, reason: 'sameName', similarity: 1 };
+  }
+
+  const alternatesOf = (rhythm: Rhythm) => new Set(rhythm.alternateRhythmNameTags.map(id => normalizeName(nameOf(id))));
+  if ((primaryB && alternatesOf(a).has(normalizeName(primaryB))) ||
+      (primaryA && alternatesOf(b).has(normalizeName(primaryA)))) {
+    return { rhythmIds, reason: 'alternateName', similarity: 1 };
+  }
+
+  if (!primaryA || !primaryB) return null;
+  const similarity = nameTokenKey(primaryA) === nameTokenKey(primaryB) ? 1 : nameSimilarity(primaryA, primaryB);
+  return similarity >= SIMILAR_NAME_THRESHOLD ? { rhythmIds, reason: 'similarName', similarity } : null;
+};
+
+/**
+ * Find groups of rhythms that are probably the same rhythm.
+ * Pairs are matched by identical primary name, a primary name that appears as
+ * another rhythm's alternate name, or fuzzy similarity; matching pairs are then
+ * joined transitively into groups.
+ */
+export const findDuplicateGroups = (rhythms: Rhythm[], tags: Tag[]): DuplicateGroup[] => {
+  const tagsById = new Map(tags.map(tag => [tag.id, tag]));
+  const parent = new Map(rhythms.map(rhythm => [rhythm.id, rhythm.id]));
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  const matches: DuplicateMatch[] = [];
+  for (let i = 0; i < rhythms.length; i++) {
+    for (let j = i + 1; j < rhythms.length; j++) {
+      const match = matchPair(rhythms[i], rhythms[j], tagsById);
+      if (match) {
+        matches.push(match);
+        parent.set(find(rhythms[j].id), find(rhythms[i].id));
+      }
+    }
+  }
+
+  const groups = new Map<string, DuplicateGroup>();
+  for (const match of matches) {
+    const root = find(match.rhythmIds[0]);
+    const group = groups.get(root) ?? { rhythmIds: [], matches: [] };
+    for (const id of match.rhythmIds) {
+      if (!group.rhythmIds.includes(id)) group.rhythmIds.push(id);
+    }
+    group.matches.push(match);
+    groups.set(root, group);
+  }
+
+  return Array.from(groups.values());
+};
+
+export const scanForDuplicates = async (): Promise<DuplicateGroup[]> => {
+  return db.transaction('r', db.tags, db.rhythms, async () => {
+    const [rhythms, tags] = await Promise.all([db.rhythms.toArray(), db.tags.toArray()]);
+    return findDuplicateGroups(rhythms, tags);
+  });
+};
+
+/**
+ * Merge the source rhythms into the target in one transaction.
+ * Tags and recordings are unioned, source primary names become alternate names
+ * of the target, and each text field is taken from the rhythm chosen in the plan.
+ * The source rhythms are deleted once their recordings have moved.
+ */
+export const mergeRhythms = async (plan: RhythmMergePlan): Promise<Rhythm> => {
+  return db.transaction('rw', db.tags, db.rhythms, db.recordings, db.searchIndex, async () => {
+    const rhythmIds = [plan.targetId, ...plan.sourceIds.filter(id => id !== plan.targetId)];
+    const loaded = await db.rhythms.bulkGet(rhythmIds);
+    const missing = rhythmIds.filter((_id, index) => !loaded[index]);
+    if (missing.length > 0) {
+      throw new Error(`Rhythm ${missing.join(', ')} no longer exists`);
+    }
+
+    const [target, ...sources] = loaded as Rhythm[];
+    const all = [target, ...sources];
+    const rhythmsById = new Map(all.map(rhythm => [rhythm.id, rhythm]));
+    const tagsById = new Map(
+      (await db.tags.bulkGet(all.flatMap(r => [r.primaryRhythmNameTag, ...r.alternateRhythmNameTags])))
+        .filter((tag): tag is Tag => !!tag)
+        .map(tag => [tag.id, tag])
+    );
+
+    // Name tags: keep the target's primary, everything else becomes an alternate (one per distinct name)
+    const seenNames = new Set([normalizeName(tagsById.get(target.primaryRhythmNameTag)?.value ?? '')]);
+    const alternateRhythmNameTags: string[] = [];
+    for (const tagId of all.flatMap(r => [r.primaryRhythmNameTag, ...r.alternateRhythmNameTags])) {
+      if (tagId === target.primaryRhythmNameTag || alternateRhythmNameTags.includes(tagId)) continue;
+      const name = normalizeName(tagsById.get(tagId)?.value ?? tagId);
+      if (seenNames.has(name)) continue;
+      seenNames.add(name);
+      alternateRhythmNameTags.push(tagId);
+    }
+
+    const sourceIds = sources.map(source => source.id);
+    const movedRecordingIds = await db.recordings.where('rhythmId').anyOf(sourceIds).primaryKeys();
+
+    const merged: Rhythm = {
+      ...target,
+      alternateRhythmNameTags,
+      recordingIds: Array.from(new Set([...all.flatMap(r => r.recordingIds), ...movedRecordingIds])),
+      updatedDate: new Date().toISOString()
+    };
+    for (const field of MERGED_TAG_LIST_FIELDS) {
+      merged[field] = Array.from(new Set(all.flatMap(r => r[field])));
+    }
+    for (const field of MERGEABLE_TEXT_FIELDS) {
+      const source = rhythmsById.get(plan.textSources[field]) ?? target;
+      merged[field] = source[field];
+    }
+
+    await db.recordings.where('rhythmId').anyOf(sourceIds).modify({ rhythmId: target.id });
+    await db.rhythms.put(merged);
+    await db.rhythms.bulkDelete(sourceIds);
+    await refreshTagUsage(all.flatMap(rhythmTagIds));
+    await indexRhythms(rhythmIds);
+    await indexRecordings(movedRecordingIds);
+    rhythmIds.forEach(announceRhythmChange);
+
+    return merged;
+  });
+};
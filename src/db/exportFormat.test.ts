@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { CURRENT_EXPORT_VERSION, migrateExport, validateExport } from './exportFormat';
+
+const savedSearch = (fields: Record<string, unknown>) => ({
+  id: 's1',
+  name: 'Practice',
+  query: '',
+  filters: { alternateNames: [], regions: [], ethnicGroups: [], occasions: [], languages: [] },
+  sortOption: 'date-newest',
+  createdDate: '2024-05-01T10:00:00.000Z',
+  updatedDate: '2024-05-01T10:00:00.000Z',
+  ...fields
+});
+
+// An export as version 1.0 wrote it: no loop points, waveforms, favorites,
+// markers, clipping times, capture details or saved searches
+const legacyExport = () => ({
+  version: '1.0',
+  exportDate: '2023-01-01T00:00:00.000Z',
+  tags: [
+    { id: 'kuku', type: 'rhythmName', value: 'Kuku', usageCount: 1, createdDate: '2023-01-01T00:00:00.000Z' },
+    { id: 'player', type: 'playerName', value: 'Famoudou', usageCount: 1, createdDate: '2023-01-01T00:00:00.000Z' }
+  ],
+  rhythms: [{
+    id: 'r1',
+    primaryRhythmNameTag: 'kuku',
+    alternateRhythmNameTags: [],
+    regionTags: [],
+    ethnicGroupTags: [],
+    occasionTags: [],
+    languageTags: [],
+    lyrics: '',
+    lyricsTranslation: '',
+    notes: '',
+    createdDate: '2023-01-01T00:00:00.000Z',
+    updatedDate: '2023-01-01T00:00:00.000Z',
+    recordingIds: ['rec1']
+  }],
+  recordings: [{
+    id: 'rec1',
+    rhythmId: 'r1',
+    fileName: 'Conakry - 2023-01-01 - 10:00:00',
+    duration: 12,
+    recordedDate: '2023-01-01T10:00:00.000Z',
+    location: 'Conakry',
+    playerNameTags: ['player'],
+    notes: '',
+    audioBase64: 'AAAA',
+    audioBlobType: 'audio/webm'
+  }]
+});
+
+describe('saved search played-within window', () => {
+  it('rejects a window that is not a whole number of days', () => {
+    const { data, issues } = validateExport(migrateExport({
+      version: CURRENT_EXPORT_VERSION,
+      tags: [],
+      rhythms: [],
+      recordings: [],
+      savedSearches: [savedSearch({ playedWithinDays: 1.5 })]
+    }));
+
+    expect(data).toBeNull();
+    expect(issues).toMatchObject([{ entity: 'savedSearch', field: 'playedWithinDays' }]);
+  });
+});
+
+describe('migrateExport', () => {
+  it('upgrades a 1.0 export through every version to one that validates', () => {
+    const migrated = migrateExport(legacyExport());
+    expect(migrated.version).toBe(CURRENT_EXPORT_VERSION);
+
+    const { data, issues } = validateExport(migrated);
+    expect(issues).toEqual([]);
+    expect(data?.savedSearches).toEqual([]);
+    expect(data?.recordings[0]).toMatchObject({
+      isFavorite: false,
+      loopPoints: null,
+      waveformData: null,
+      markers: [],
+      clipTimes: [],
+      captureInfo: null
+    });
+    expect(data?.recordings[0]).not.toHaveProperty('audioBase64');
+    expect(data?.tags[0].normalizedValue).toBe('kuku');
+  });
+
+  it('refuses exports from a newer version of the app', () => {
+    expect(() => migrateExport({ ...legacyExport(), version: '99.0' })).toThrow('newer version of the app');
+  });
+});
+
+describe('validateExport', () => {
+  const issuesOf = (edit: (data: ReturnType<typeof legacyExport>) => void) => {
+    const raw = legacyExport();
+    edit(raw);
+    return validateExport(migrateExport(raw));
+  };
+
+  it('reports a rhythm whose primary name tag is missing', () => {
+    const { data, issues } = issuesOf(raw => { raw.rhythms[0].primaryRhythmNameTag = 'deleted-tag'; });
+    expect(data).toBeNull();
+    expect(issues).toEqual([{
+      entity: 'rhythm',
+      index: 0,
+      id: 'r1',
+      field: 'primaryRhythmNameTag',
+      message: 'References missing tag deleted-tag'
+    }]);
+  });
+
+  it('reports a recording whose rhythm is missing', () => {
+    const { data, issues } = issuesOf(raw => { raw.recordings[0].rhythmId = 'deleted-rhythm'; });
+    expect(data).toBeNull();
+    expect(issues).toMatchObject([{ entity: 'recording', id: 'rec1', field: 'rhythmId', message: 'Parent rhythm deleted-rhythm does not exist' }]);
+  });
+
+  it('reports malformed dates on every kind of record', () => {
+    const { data, issues } = issuesOf(raw => {
+      raw.tags[0].createdDate = 'yesterday';
+      raw.rhythms[0].updatedDate = '2023-13-45';
+      raw.recordings[0].recordedDate = '';
+    });
+    expect(data).toBeNull();
+    expect(issues.map(({ entity, field }) => `${entity}.${field}`)).toEqual([
+      'tag.createdDate',
+      'rhythm.updatedDate',
+      'recording.recordedDate'
+    ]);
+    expect(issues[0].message).toBe('Malformed date "yesterday"');
+  });
+});
@@ -0,0 +1,436 @@
+import type { Tag, Rhythm, Recording, TagType, SavedSearch, RhythmSortOption, ExportValidationIssue } from '../types';
+import { normalizeTagValue } from '../utils/nameSimilarity';
+import { RHYTHM_TAG_LIST_FIELDS } from './tagUsage';
+
+// Version history of the export format:
+// 1.0 - JSON file with base64 audio; records may predate isFavorite/loopPoints/waveformData
+// 2.0 - ZIP archive manifest; every record has the full current shape
+// 2.1 - adds saved searches
+// 2.2 - adds pause markers to recordings
+// 2.3 - adds clipping times to recordings
+// 2.4 - adds capture parameters to recordings
+export const CURRENT_EXPORT_VERSION = '2.4';
+
+type RawRecord = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export interface RawExport {
+  version: string;
+  exportDate?: string;
+  tags: RawRecord[];
+  rhythms: RawRecord[];
+  recordings: RawRecord[];
+  savedSearches: RawRecord[];
+}
+
+// Recording fields as stored in an export, before audio is attached
+export type ExportRecordingFields = Omit<Recording, 'audioBlob'>;
+
+export interface ValidatedExport {
+  tags: Tag[];
+  rhythms: Rhythm[];
+  recordings: ExportRecordingFields[];
+  savedSearches: SavedSearch[];
+}
+
+export class ExportValidationError extends Error {
+  issues: ExportValidationIssue[];
+
+  constructor(issues: ExportValidationIssue[]) {
+    const shown = issues.slice(0, 5).map(describeValidationIssue).join('\n');
+    const more = issues.length > 5 ? `\n…and ${issues.length - 5} more` : '';
+    super(`The export file has ${issues.length} ${issues.length === 1 ? 'problem' : 'problems'}:\n${shown}${more}`);
+    this.name = 'ExportValidationError';
+    this.issues = issues;
+  }
+}
+
+// ============= MIGRATIONS =============
+
+// Each migration upgrades records from its key version to `to`
+const MIGRATIONS: Record<string, { to: string; migrate: (data: RawExport) => RawExport }> = {
+  '1.0': {
+    to: '2.0',
+    migrate: data => ({
+      ...data,
+      rhythms: data.rhythms.map(rhythm => ({
+        ...rhythm,
+        recordingIds: rhythm.recordingIds ?? []
+      })),
+      recordings: data.recordings.map(recording => ({
+        ...recording,
+        isFavorite: recording.isFavorite ?? false,
+        loopPoints: recording.loopPoints ?? null,
+        waveformData: recording.waveformData ?? null
+      }))
+    })
+  },
+  '2.0': {
+    to: '2.1',
+    migrate: data => ({
+      ...data,
+      savedSearches: data.savedSearches ?? []
+    })
+  },
+  '2.1': {
+    to: '2.2',
+    migrate: data => ({
+      ...data,
+      recordings: data.recordings.map(recording => ({
+        ...recording,
+        markers: recording.markers ?? []
+      }))
+    })
+  },
+  '2.2': {
+    to: '2.3',
+    migrate: data => ({
+      ...data,
+      recordings: data.recordings.map(recording => ({
+        ...recording,
+        clipTimes: recording.clipTimes ?? []
+      }))
+    })
+  },
+  '2.3': {
+    to: '2.4',
+    migrate: data => ({
+      ...data,
+      recordings: data.recordings.map(recording => ({
+        ...recording,
+        captureInfo: recording.captureInfo ?? null
+      }))
+    })
+  }
+};
+
+const compareVersions = (a: string, b: string): number => {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+/**
+ * Parse the top-level structure of an export and upgrade it to CURRENT_EXPORT_VERSION.
+ * Throws if the file is not an export or was written by a newer version of the app.
+ */
+export const migrateExport = (raw: unknown): RawExport => {
+  if (!isObject(raw) || typeof raw.version !== 'string') {
+    throw new Error('Invalid export file format: missing version');
+  }
+  for (const key of ['tags', 'rhythms', 'recordings'] as const) {
+    if (!Array.isArray(raw[key])) {
+      throw new Error(`Invalid export file format: "${key}" must be a list`);
+    }
+  }
+
+  let data = raw as unknown as RawExport;
+
+  if (compareVersions(data.version, CURRENT_EXPORT_VERSION) > 0) {
+    throw new Error(`Export version ${data.version} was created by a newer version of the app`);
+  }
+
+  while (data.version !== CURRENT_EXPORT_VERSION) {
+    const migration = MIGRATIONS[data.version];
+    if (!migration) {
+      throw new Error(`Unsupported export version ${data.version}`);
+    }
+    data = { ...migration.migrate(data), version: migration.to };
+  }
+
+  if (!Array.isArray(data.savedSearches)) {
+    throw new Error('Invalid export file format: "savedSearches" must be a list');
+  }
+
+  return data;
+};
+
+// ============= VALIDATION =============
+
+const TAG_TYPES: TagType[] = ['rhythmName', 'region', 'ethnicGroup', 'occasion', 'language', 'playerName'];
+
+const RHYTHM_TEXT_FIELDS = ['lyrics', 'lyricsTranslation', 'notes'] as const;
+
+const SAVED_SEARCH_FILTER_FIELDS = ['alternateNames', 'regions', 'ethnicGroups', 'occasions', 'languages'] as const;
+
+const SORT_OPTIONS: RhythmSortOption[] = ['relevance', 'name-asc', 'date-newest', 'date-oldest', 'recordings'];
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isValidDate = (value: unknown): value is string =>
+  typeof value === 'string' && !isNaN(Date.parse(value));
+
+const isAscendingSeconds = (value: unknown): value is number[] =>
+  Array.isArray(value) &&
+  value.every((v, i) => typeof v === 'number' && v >= 0 && (i === 0 || v > value[i - 1]));
+
+/**
+ * Check every record of a migrated export for shape and referential integrity.
+ * Returns the typed records only when there are no issues.
+ */
+export const validateExport = (
+  data: RawExport
+): { data: ValidatedExport | null; issues: ExportValidationIssue[] } => {
+  const issues: ExportValidationIssue[] = [];
+
+  const checkIds = (entity: ExportValidationIssue['entity'], records: RawRecord[]) => {
+    const seen = new Set<string>();
+    records.forEach((record, index) => {
+      if (!isObject(record) || !isNonEmptyString(record.id)) {
+        issues.push({ entity, index, field: 'id', message: 'Missing ID' });
+        return;
+      }
+      if (seen.has(record.id)) {
+        issues.push({ entity, index, id: record.id, field: 'id', message: 'Duplicate ID' });
+      }
+      seen.add(record.id);
+    });
+    return seen;
+  };
+
+  const tagIds = checkIds('tag', data.tags);
+  const rhythmIds = checkIds('rhythm', data.rhythms);
+  checkIds('recording', data.recordings);
+  checkIds('savedSearch', data.savedSearches);
+
+  const issue = (
+    entity: ExportValidationIssue['entity'],
+    index: number,
+    record: RawRecord,
+    field: string,
+    message: string
+  ) => {
+    issues.push({
+      entity,
+      index,
+      id: isObject(record) && typeof record.id === 'string' ? record.id : undefined,
+      field,
+      message
+    });
+  };
+
+  const checkTagRef = (
+    entity: ExportValidationIssue['entity'],
+    index: number,
+    record: RawRecord,
+    field: string,
+    tagId: string
+  ) => {
+    if (!tagIds.has(tagId)) {
+      issue(entity, index, record, field, `References missing tag ${tagId}`);
+    }
+  };
+
+  data.tags.forEach((tag, index) => {
+    if (!isObject(tag)) return;
+    if (!TAG_TYPES.includes(tag.type as TagType)) {
+      issue('tag', index, tag, 'type', `Unknown tag type "${String(tag.type)}"`);
+    }
+    if (!isNonEmptyString(tag.value)) {
+      issue('tag', index, tag, 'value', 'Tag value must be a non-empty string');
+    }
+    if (typeof tag.usageCount !== 'number') {
+      issue('tag', index, tag, 'usageCount', 'Usage count must be a number');
+    }
+    if (!isValidDate(tag.createdDate)) {
+      issue('tag', index, tag, 'createdDate', `Malformed date "${String(tag.createdDate)}"`);
+    }
+  });
+
+  data.rhythms.forEach((rhythm, index) => {
+    if (!isObject(rhythm)) return;
+
+    if (!isNonEmptyString(rhythm.primaryRhythmNameTag)) {
+      issue('rhythm', index, rhythm, 'primaryRhythmNameTag', 'Primary rhythm name is required');
+    } else {
+      checkTagRef('rhythm', index, rhythm, 'primaryRhythmNameTag', rhythm.primaryRhythmNameTag);
+    }
+
+    for (const field of RHYTHM_TAG_LIST_FIELDS) {
+      const value = rhythm[field];
+      if (!isStringArray(value)) {
+        issue('rhythm', index, rhythm, field, 'Must be a list of tag IDs');
+        continue;
+      }
+      value.forEach(tagId => checkTagRef('rhythm', index, rhythm, field, tagId));
+    }
+
+    for (const field of RHYTHM_TEXT_FIELDS) {
+      if (typeof rhythm[field] !== 'string') {
+        issue('rhythm', index, rhythm, field, 'Must be text');
+      }
+    }
+
+    if (!isStringArray(rhythm.recordingIds)) {
+      issue('rhythm', index, rhythm, 'recordingIds', 'Must be a list of recording IDs');
+    }
+
+    for (const field of ['createdDate', 'updatedDate'] as const) {
+      if (!isValidDate(rhythm[field])) {
+        issue('rhythm', index, rhythm, field, `Malformed date "${String(rhythm[field])}"`);
+      }
+    }
+  });
+
+  data.recordings.forEach((recording, index) => {
+    if (!isObject(recording)) return;
+
+    if (!isNonEmptyString(recording.rhythmId) || !rhythmIds.has(recording.rhythmId)) {
+      issue('recording', index, recording, 'rhythmId', `Parent rhythm ${String(recording.rhythmId)} does not exist`);
+    }
+    if (typeof recording.fileName !== 'string') {
+      issue('recording', index, recording, 'fileName', 'Must be text');
+    }
+    if (recording.duration !== null && typeof recording.duration !== 'number') {
+      issue('recording', index, recording, 'duration', 'Must be a number of seconds');
+    }
+    if (!isValidDate(recording.recordedDate)) {
+      issue('recording', index, recording, 'recordedDate', `Malformed date "${String(recording.recordedDate)}"`);
+    }
+    for (const field of ['location', 'notes'] as const) {
+      if (typeof recording[field] !== 'string') {
+        issue('recording', index, recording, field, 'Must be text');
+      }
+    }
+    if (!isStringArray(recording.playerNameTags)) {
+      issue('recording', index, recording, 'playerNameTags', 'Must be a list of tag IDs');
+    } else {
+      recording.playerNameTags.forEach(tagId => checkTagRef('recording', index, recording, 'playerNameTags', tagId));
+    }
+
+    const loop = recording.loopPoints;
+    if (loop !== null && !(isObject(loop) && typeof loop.start === 'number' && typeof loop.end === 'number' && loop.start < loop.end)) {
+      issue('recording', index, recording, 'loopPoints', 'Loop points must have a start before the end');
+    }
+    if (recording.waveformData !== null &&
+        !(Array.isArray(recording.waveformData) && recording.waveformData.every(v => typeof v === 'number'))) {
+      issue('recording', index, recording, 'waveformData', 'Must be a list of numbers');
+    }
+    if (typeof recording.isFavorite !== 'boolean') {
+      issue('recording', index, recording, 'isFavorite', 'Must be true or false');
+    }
+    if (!isAscendingSeconds(recording.markers)) {
+      issue('recording', index, recording, 'markers', 'Must be an ascending list of seconds');
+    }
+    if (!isAscendingSeconds(recording.clipTimes)) {
+      issue('recording', index, recording, 'clipTimes', 'Must be an ascending list of seconds');
+    }
+    if (recording.captureInfo !== null &&
+        !(isObject(recording.captureInfo) && typeof recording.captureInfo.mimeType === 'string')) {
+      issue('recording', index, recording, 'captureInfo', 'Must be capture details or null');
+    }
+  });
+
+  data.savedSearches.forEach((search, index) => {
+    if (!isObject(search)) return;
+
+    if (!isNonEmptyString(search.name)) {
+      issue('savedSearch', index, search, 'name', 'Name is required');
+    }
+    if (typeof search.query !== 'string') {
+      issue('savedSearch', index, search, 'query', 'Must be text');
+    }
+    const filters = search.filters;
+    if (!isObject(filters) || !SAVED_SEARCH_FILTER_FIELDS.every(field => isStringArray(filters[field]))) {
+      issue('savedSearch', index, search, 'filters', 'Must have a list of tag values for each filter');
+    }
+    if (search.playedWithinDays !== null &&
+        !(Number.isInteger(search.playedWithinDays) && (search.playedWithinDays as number) > 0)) {
+      issue('savedSearch', index, search, 'playedWithinDays', 'Must be a whole number of days or null');
+    }
+    if (!SORT_OPTIONS.includes(search.sortOption as RhythmSortOption)) {
+      issue('savedSearch', index, search, 'sortOption', `Unknown sort option "${String(search.sortOption)}"`);
+    }
+    for (const field of ['createdDate', 'updatedDate'] as const) {
+      if (!isValidDate(search[field])) {
+        issue('savedSearch', index, search, field, `Malformed date "${String(search[field])}"`);
+      }
+    }
+  });
+
+  if (issues.length > 0) {
+    return { data: null, issues };
+  }
+
+  // Copy only known fields so stray properties (e.g. inline audio) never reach the database
+  const rawTags = data.tags as unknown as Tag[];
+  const rawRhythms = data.rhythms as unknown as Rhythm[];
+  const rawRecordings = data.recordings as unknown as ExportRecordingFields[];
+  const rawSavedSearches = data.savedSearches as unknown as SavedSearch[];
+
+  return {
+    data: {
+      tags: rawTags.map(tag => ({
+        id: tag.id,
+        type: tag.type,
+        value: tag.value,
+        normalizedValue: normalizeTagValue(tag.value), // Derived, never trusted from the file
+        usageCount: tag.usageCount,
+        createdDate: tag.createdDate
+      })),
+      rhythms: rawRhythms.map(rhythm => ({
+        id: rhythm.id,
+        primaryRhythmNameTag: rhythm.primaryRhythmNameTag,
+        alternateRhythmNameTags: rhythm.alternateRhythmNameTags,
+        regionTags: rhythm.regionTags,
+        ethnicGroupTags: rhythm.ethnicGroupTags,
+        occasionTags: rhythm.occasionTags,
+        languageTags: rhythm.languageTags,
+        lyrics: rhythm.lyrics,
+        lyricsTranslation: rhythm.lyricsTranslation,
+        notes: rhythm.notes,
+        createdDate: rhythm.createdDate,
+        updatedDate: rhythm.updatedDate,
+        recordingIds: rhythm.recordingIds
+      })),
+      recordings: rawRecordings.map(recording => ({
+        id: recording.id,
+        rhythmId: recording.rhythmId,
+        fileName: recording.fileName,
+        duration: recording.duration,
+        recordedDate: recording.recordedDate,
+        location: recording.location,
+        playerNameTags: recording.playerNameTags,
+        notes: recording.notes,
+        loopPoints: recording.loopPoints,
+        waveformData: recording.waveformData,
+        isFavorite: recording.isFavorite,
+        markers: recording.markers,
+        clipTimes: recording.clipTimes,
+        captureInfo: recording.captureInfo
+      })),
+      savedSearches: rawSavedSearches.map(search => ({
+        id: search.id,
+        name: search.name,
+        query: search.query,
+        filters: {
+          alternateNames: search.filters.alternateNames,
+          regions: search.filters.regions,
+          ethnicGroups: search.filters.ethnicGroups,
+          occasions: search.filters.occasions,
+          languages: search.filters.languages
+        },
+        playedWithinDays: search.playedWithinDays,
+        sortOption: search.sortOption,
+        createdDate: search.createdDate,
+        updatedDate: search.updatedDate
+      }))
+    },
+    issues
+  };
+};
+
+export const describeValidationIssue = (issue: ExportValidationIssue): string => {
+  const label = issue.id ? `${issue.entity} ${issue.id}` : `${issue.entity} #${issue.index + 1}`;
+  return `${label}${issue.field ? ` (${issue.field})` : ''}: ${issue.message}`;
+};
@@ -0,0 +1,84 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from './schema';
+import { checkIntegrity, repairIntegrity } from './integrity';
+import type { Recording, Rhythm, Tag } from '../types';
+
+const now = new Date().toISOString();
+
+const tag = (id: string, type: Tag['type'], value: string, usageCount: number): Tag => ({
+  id,
+  type,
+  value,
+  normalizedValue: value.toLowerCase(),
+  usageCount,
+  createdDate: now
+});
+
+const rhythm = (id: string, primaryRhythmNameTag: string, recordingIds: string[] = []): Rhythm => ({
+  id,
+  primaryRhythmNameTag,
+  alternateRhythmNameTags: [],
+  regionTags: [],
+  ethnicGroupTags: [],
+  occasionTags: [],
+  languageTags: [],
+  lyrics: '',
+  lyricsTranslation: '',
+  notes: '',
+  createdDate: now,
+  updatedDate: now,
+  recordingIds
+});
+
+const recording = (id: string, rhythmId: string, playerNameTags: string[] = []): Recording => ({
+  id,
+  rhythmId,
+  fileName: id,
+  audioBlob: null,
+  duration: null,
+  recordedDate: now,
+  location: '',
+  playerNameTags,
+  notes: '',
+  loopPoints: null,
+  waveformData: null,
+  isFavorite: false,
+  markers: [],
+  clipTimes: [],
+  captureInfo: null
+});
+
+describe('repairIntegrity', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+  });
+
+  it('leaves nothing to find after repairing only orphan recordings', async () => {
+    await db.tags.bulkAdd([tag('kuku', 'rhythmName', 'Kuku', 1), tag('player', 'playerName', 'Famoudou', 1)]);
+    await db.rhythms.add(rhythm('r1', 'kuku'));
+    await db.recordings.add(recording('orphan', 'deleted-rhythm', ['player']));
+    expect(await checkIntegrity()).toEqual([{ kind: 'orphanRecording', recordingId: 'orphan', rhythmId: 'deleted-rhythm' }]);
+
+    expect(await repairIntegrity(['orphanRecording'])).toBe(1);
+    expect(await checkIntegrity()).toEqual([]);
+  });
+
+  it('leaves nothing to find after repairing only missing tags', async () => {
+    await db.tags.add(tag('player', 'playerName', 'Famoudou', 1));
+    await db.rhythms.add(rhythm('r1', 'deleted-tag', ['rec1']));
+    await db.recordings.add(recording('rec1', 'r1', ['player', 'deleted-player']));
+
+    expect(await repairIntegrity(['missingTag'])).toBe(2);
+    expect(await checkIntegrity()).toEqual([]);
+  });
+
+  it('leaves nothing to find after repairing every kind', async () => {
+    await db.tags.bulkAdd([tag('kuku', 'rhythmName', 'Kuku', 5), tag('player', 'playerName', 'Famoudou', 0)]);
+    await db.rhythms.bulkAdd([rhythm('r1', 'kuku', ['stale']), rhythm('r2', 'deleted-tag')]);
+    await db.recordings.bulkAdd([recording('unlisted', 'r1', ['player']), recording('orphan', 'deleted-rhythm')]);
+
+    expect(await repairIntegrity()).toBeGreaterThan(0);
+    expect(await checkIntegrity()).toEqual([]);
+  });
+});
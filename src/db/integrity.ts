@@ -0,0 +1,250 @@
+import { db } from './schema';
+import type { Tag, Rhythm, Recording, IntegrityIssue, IntegrityIssueKind } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { RHYTHM_TAG_LIST_FIELDS, countTagReferences, rhythmTagIds, recordingTagIds, changedTagIds } from './tagUsage';
+import { findTagByValue, refreshTagUsage, announceRhythmChange } from './storage';
+import { indexRhythms, indexRecordings } from './searchIndex';
+import { normalizeTagValue } from '../utils/nameSimilarity';
+
+export const RECOVERED_RHYTHM_NAME = 'Unsorted recordings';
+const UNTITLED_RHYTHM_NAME = 'Untitled rhythm';
+
+/**
+ * Find every consistency problem between tags, rhythms and recordings.
+ * Pure function so it can run against in-memory data as well as the database.
+ */
+export const findIntegrityIssues = (tags: Tag[], rhythms: Rhythm[], recordings: Recording[]): IntegrityIssue[] => {
+  const issues: IntegrityIssue[] = [];
+  const tagIds = new Set(tags.map(tag => tag.id));
+  const rhythmsById = new Map(rhythms.map(rhythm => [rhythm.id, rhythm]));
+  const recordingsById = new Map(recordings.map(recording => [recording.id, recording]));
+
+  for (const recording of recordings) {
+    const parent = rhythmsById.get(recording.rhythmId);
+    if (!parent) {
+      issues.push({ kind: 'orphanRecording', recordingId: recording.id, rhythmId: recording.rhythmId });
+    } else if (!parent.recordingIds.includes(recording.id)) {
+      issues.push({ kind: 'unlistedRecording', rhythmId: parent.id, recordingId: recording.id });
+    }
+
+    for (const tagId of recording.playerNameTags) {
+      if (!tagIds.has(tagId)) {
+        issues.push({ kind: 'missingTag', entity: 'recording', entityId: recording.id, field: 'playerNameTags', tagId });
+      }
+    }
+  }
+
+  for (const rhythm of rhythms) {
+    for (const recordingId of rhythm.recordingIds) {
+      if (recordingsById.get(recordingId)?.rhythmId !== rhythm.id) {
+        issues.push({ kind: 'staleRecordingId', rhythmId: rhythm.id, recordingId });
+      }
+    }
+
+    if (!tagIds.has(rhythm.primaryRhythmNameTag)) {
+      issues.push({ kind: 'missingTag', entity: 'rhythm', entityId: rhythm.id, field: 'primaryRhythmNameTag', tagId: rhythm.primaryRhythmNameTag });
+    }
+    for (const field of RHYTHM_TAG_LIST_FIELDS) {
+      for (const tagId of rhythm[field]) {
+        if (!tagIds.has(tagId)) {
+          issues.push({ kind: 'missingTag', entity: 'rhythm', entityId: rhythm.id, field, tagId });
+        }
+      }
+    }
+  }
+
+  const counts = countTagReferences(rhythms, recordings);
+  for (const tag of tags) {
+    const actual = counts.get(tag.id) ?? 0;
+    if (tag.usageCount !== actual) {
+      issues.push({ kind: 'usageCountDrift', tagId: tag.id, stored: tag.usageCount, actual });
+    }
+  }
+
+  return issues;
+};
+
+export const checkIntegrity = async (): Promise<IntegrityIssue[]> => {
+  return db.transaction('r', db.tags, db.rhythms, db.recordings, async () => {
+    const [tags, rhythms, recordings] = await Promise.all([
+      db.tags.toArray(),
+      db.rhythms.toArray(),
+      db.recordings.toArray()
+    ]);
+    return findIntegrityIssues(tags, rhythms, recordings);
+  });
+};
+
+// Find or create a rhythm-name tag without touching usage counts (they are recomputed separately)
+const findOrCreateNameTag = async (value: string): Promise<Tag> => {
+  const existing = await findTagByValue('rhythmName', value);
+  if (existing) return existing;
+
+  const tag: Tag = {
+    id: uuidv4(),
+    type: 'rhythmName',
+    value,
+    normalizedValue: normalizeTagValue(value),
+    usageCount: 0,
+    createdDate: new Date().toISOString()
+  };
+  await db.tags.add(tag);
+  return tag;
+};
+
+const ALL_ISSUE_KINDS: IntegrityIssueKind[] = [
+  'orphanRecording',
+  'staleRecordingId',
+  'unlistedRecording',
+  'missingTag',
+  'usageCountDrift'
+];
+
+/**
+ * Re-scan the database and fix every issue of the given kinds in one transaction.
+ * Orphan recordings are moved to an "Unsorted recordings" rhythm rather than deleted.
+ * Usage counts of the tags the repair itself re-references are always kept right,
+ * so fixing one kind of issue never leaves usageCountDrift behind.
+ * Returns the number of issues that were fixed.
+ */
+export const repairIntegrity = async (kinds: IntegrityIssueKind[] = ALL_ISSUE_KINDS): Promise<number> => {
+  return db.transaction('rw', db.tags, db.rhythms, db.recordings, db.searchIndex, async () => {
+    const tags = await db.tags.toArray();
+    const originalRhythms = await db.rhythms.toArray();
+    const originalRecordings = await db.recordings.toArray();
+    const fixCount = findIntegrityIssues(tags, originalRhythms, originalRecordings)
+      .filter(issue => kinds.includes(issue.kind)).length;
+    if (fixCount === 0) return 0;
+
+    const rhythms = new Map(originalRhythms.map(rhythm => [rhythm.id, { ...rhythm }]));
+    const recordings = new Map(originalRecordings.map(recording => [recording.id, { ...recording }]));
+    const changedRhythmIds = new Set<string>();
+    const changedRecordingIds = new Set<string>();
+    const tagIds = new Set(tags.map(tag => tag.id));
+
+    if (kinds.includes('orphanRecording')) {
+      const orphans = Array.from(recordings.values()).filter(recording => !rhythms.has(recording.rhythmId));
+      if (orphans.length > 0) {
+        const nameTag = await findOrCreateNameTag(RECOVERED_RHYTHM_NAME);
+        tagIds.add(nameTag.id);
+
+        let target = Array.from(rhythms.values()).find(rhythm => rhythm.primaryRhythmNameTag === nameTag.id);
+        if (!target) {
+          const now = new Date().toISOString();
+          target = {
+            id: uuidv4(),
+            primaryRhythmNameTag: nameTag.id,
+            alternateRhythmNameTags: [],
+            regionTags: [],
+            ethnicGroupTags: [],
+            occasionTags: [],
+            languageTags: [],
+            lyrics: '',
+            lyricsTranslation: '',
+            notes: 'Recordings whose rhythm no longer existed, collected by the integrity repair tool.',
+            createdDate: now,
+            updatedDate: now,
+            recordingIds: []
+          };
+          rhythms.set(target.id, target);
+        }
+
+        for (const orphan of orphans) {
+          orphan.rhythmId = target.id;
+          target.recordingIds = [...target.recordingIds, orphan.id];
+          changedRecordingIds.add(orphan.id);
+        }
+        changedRhythmIds.add(target.id);
+      }
+    }
+
+    if (kinds.includes('staleRecordingId')) {
+      for (const rhythm of rhythms.values()) {
+        const valid = rhythm.recordingIds.filter(id => recordings.get(id)?.rhythmId === rhythm.id);
+        if (valid.length !== rhythm.recordingIds.length) {
+          rhythm.recordingIds = valid;
+          changedRhythmIds.add(rhythm.id);
+        }
+      }
+    }
+
+    if (kinds.includes('unlistedRecording')) {
+      for (const recording of recordings.values()) {
+        const parent = rhythms.get(recording.rhythmId);
+        if (parent && !parent.recordingIds.includes(recording.id)) {
+          parent.recordingIds = [...parent.recordingIds, recording.id];
+          changedRhythmIds.add(parent.id);
+        }
+      }
+    }
+
+    if (kinds.includes('missingTag')) {
+      for (const rhythm of rhythms.values()) {
+        let changed = false;
+        for (const field of RHYTHM_TAG_LIST_FIELDS) {
+          const valid = rhythm[field].filter(id => tagIds.has(id));
+          if (valid.length !== rhythm[field].length) {
+            rhythm[field] = valid;
+            changed = true;
+          }
+        }
+
+        if (!tagIds.has(rhythm.primaryRhythmNameTag)) {
+          // Promote the first alternate name, or fall back to a placeholder name
+          const [promoted, ...rest] = rhythm.alternateRhythmNameTags;
+          if (promoted) {
+            rhythm.primaryRhythmNameTag = promoted;
+            rhythm.alternateRhythmNameTags = rest;
+          } else {
+            const untitled = await findOrCreateNameTag(UNTITLED_RHYTHM_NAME);
+            tagIds.add(untitled.id);
+            rhythm.primaryRhythmNameTag = untitled.id;
+          }
+          changed = true;
+        }
+
+        if (changed) changedRhythmIds.add(rhythm.id);
+      }
+
+      for (const recording of recordings.values()) {
+        const valid = recording.playerNameTags.filter(id => tagIds.has(id));
+        if (valid.length !== recording.playerNameTags.length) {
+          recording.playerNameTags = valid;
+          changedRecordingIds.add(recording.id);
+        }
+      }
+    }
+
+    const updatedDate = new Date().toISOString();
+    await db.rhythms.bulkPut(Array.from(changedRhythmIds).map(id => ({ ...rhythms.get(id)!, updatedDate })));
+    await db.recordings.bulkPut(Array.from(changedRecordingIds).map(id => recordings.get(id)!));
+    await indexRhythms(Array.from(changedRhythmIds));
+    await indexRecordings(Array.from(changedRecordingIds));
+    changedRhythmIds.forEach(announceRhythmChange);
+
+    const originalRhythmsById = new Map(originalRhythms.map(rhythm => [rhythm.id, rhythm]));
+    const originalRecordingsById = new Map(originalRecordings.map(recording => [recording.id, recording]));
+    await refreshTagUsage([
+      ...Array.from(changedRhythmIds).flatMap(id => {
+        const original = originalRhythmsById.get(id);
+        const repaired = rhythmTagIds(rhythms.get(id)!);
+        return original ? changedTagIds(rhythmTagIds(original), repaired) : repaired;
+      }),
+      ...Array.from(changedRecordingIds).flatMap(id =>
+        changedTagIds(recordingTagIds(originalRecordingsById.get(id)!), recordingTagIds(recordings.get(id)!))
+      )
+    ]);
+
+    if (kinds.includes('usageCountDrift')) {
+      const counts = countTagReferences(Array.from(rhythms.values()), Array.from(recordings.values()));
+      for (const tag of await db.tags.toArray()) {
+        const actual = counts.get(tag.id) ?? 0;
+        if (tag.usageCount !== actual) {
+          await db.tags.update(tag.id, { usageCount: actual });
+        }
+      }
+    }
+
+    return fixCount;
+  });
+};
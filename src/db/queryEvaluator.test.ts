@@ -0,0 +1,109 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from './schema';
+import { createTag, createRhythm, createRecording } from './storage';
+import { runQuery } from './queryEvaluator';
+import { parseQuery } from '../utils/queryParser';
+import type { Recording } from '../types';
+
+const recordingFields = (rhythmId: string, fields: Partial<Recording> = {}): Omit<Recording, 'id'> => ({
+  rhythmId,
+  fileName: 'Conakry - 2024-05-01 - 10:00:00',
+  audioBlob: null,
+  duration: 12,
+  recordedDate: '2024-05-01T10:00:00.000Z',
+  location: 'Conakry',
+  playerNameTags: [],
+  notes: '',
+  loopPoints: null,
+  waveformData: null,
+  isFavorite: false,
+  markers: [],
+  clipTimes: [],
+  captureInfo: null,
+  ...fields
+});
+
+describe('runQuery', () => {
+  const ids: Record<'kuku' | 'soli' | 'dundunba', string> = { kuku: '', soli: '', dundunba: '' };
+
+  // Rhythm names matching the query, sorted so structured-only results compare stably
+  const search = async (input: string) => {
+    const { query, error } = parseQuery(input);
+    expect(error).toBeNull();
+    const names = Object.fromEntries(Object.entries(ids).map(([name, id]) => [id, name]));
+    return (await runQuery(query!)).map(result => names[result.rhythmId]).sort();
+  };
+
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+    const guinea = await createTag('region', 'Guinée');
+    const mali = await createTag('region', 'Mali');
+    const wedding = await createTag('occasion', 'Wedding');
+    const famoudou = await createTag('playerName', 'Famoudou Konaté');
+    const rhythm = async (name: string, fields: { regionTags?: string[]; occasionTags?: string[]; lyrics?: string; notes?: string }) =>
+      (await createRhythm({
+        primaryRhythmNameTag: (await createTag('rhythmName', name)).id,
+        alternateRhythmNameTags: [],
+        regionTags: [],
+        ethnicGroupTags: [],
+        occasionTags: [],
+        languageTags: [],
+        lyrics: '',
+        lyricsTranslation: '',
+        notes: '',
+        recordingIds: [],
+        ...fields
+      })).id;
+
+    ids.kuku = await rhythm('Kuku', { regionTags: [guinea.id], occasionTags: [wedding.id], lyrics: 'Wolo sodon jara' });
+    ids.soli = await rhythm('Soli', { regionTags: [mali.id] });
+    ids.dundunba = await rhythm('Dundunba', { regionTags: [guinea.id], notes: 'Played for the strong men' });
+
+    await createRecording(recordingFields(ids.kuku, { playerNameTags: [famoudou.id], isFavorite: true }));
+    await createRecording(recordingFields(ids.kuku));
+    await createRecording(recordingFields(ids.dundunba, { loopPoints: { start: 1, end: 4 } }));
+  });
+
+  it('matches tag fields by normalized prefix', async () => {
+    expect(await search('region:guinee')).toEqual(['dundunba', 'kuku']);
+    expect(await search('region:ma')).toEqual(['soli']);
+    expect(await search('occasion:funeral')).toEqual([]);
+  });
+
+  it('matches names and players despite typos', async () => {
+    expect(await search('name:dunduba')).toEqual(['dundunba']);
+    expect(await search('player:"famudou konate"')).toEqual(['kuku']);
+  });
+
+  it('matches rhythm and recording properties', async () => {
+    expect(await search('has:lyrics')).toEqual(['kuku']);
+    expect(await search('has:notes')).toEqual(['dundunba']);
+    expect(await search('has:recordings')).toEqual(['dundunba', 'kuku']);
+    expect(await search('has:favorite')).toEqual(['kuku']);
+    expect(await search('has:loop')).toEqual(['dundunba']);
+  });
+
+  it('compares recording counts', async () => {
+    expect(await search('recordings>1')).toEqual(['kuku']);
+    expect(await search('recordings=0')).toEqual(['soli']);
+    expect(await search('recordings<=1')).toEqual(['dundunba', 'soli']);
+  });
+
+  it('combines terms with AND, OR and NOT', async () => {
+    expect(await search('region:guinee has:loop')).toEqual(['dundunba']);
+    expect(await search('region:mali OR has:favorite')).toEqual(['kuku', 'soli']);
+    expect(await search('-region:guinee')).toEqual(['soli']);
+    expect(await search('NOT has:recordings OR has:lyrics')).toEqual(['kuku', 'soli']);
+  });
+
+  it('filters free text with structured terms, keeping its score and highlights', async () => {
+    const results = await runQuery(parseQuery('sodon region:guinee').query!);
+    expect(results).toHaveLength(1);
+    expect(results[0].rhythmId).toBe(ids.kuku);
+    expect(results[0].score).toBeGreaterThan(0);
+    expect(results[0].highlights.length).toBeGreaterThan(0);
+
+    expect(await search('strong -region:guinee')).toEqual([]);
+  });
+});
@@ -0,0 +1,144 @@
+import { db } from './schema';
+import type { Rhythm, Recording, TagType, QueryNode, QueryTagField, QueryHasProperty, QueryComparison, SearchResult } from '../types';
+import { searchArchive } from './searchIndex';
+import { normalizeTagValue, fuzzyNameScore } from '../utils/nameSimilarity';
+
+// Which tag type and multi-entry indexes each query field searches. Names are
+// spelled inconsistently, so they also match phonetically and with typos.
+const FIELD_TAGS: Record<QueryTagField, { type: TagType; indexes: string[]; onRecordings?: boolean; fuzzy?: boolean }> = {
+  name: { type: 'rhythmName', indexes: ['primaryRhythmNameTag', 'alternateRhythmNameTags'], fuzzy: true },
+  region: { type: 'region', indexes: ['regionTags'] },
+  ethnic: { type: 'ethnicGroup', indexes: ['ethnicGroupTags'] },
+  occasion: { type: 'occasion', indexes: ['occasionTags'] },
+  language: { type: 'language', indexes: ['languageTags'] },
+  player: { type: 'playerName', indexes: ['playerNameTags'], onRecordings: true, fuzzy: true }
+};
+
+const RHYTHM_PROPERTIES: Partial<Record<QueryHasProperty, (rhythm: Rhythm) => boolean>> = {
+  lyrics: rhythm => !!rhythm.lyrics.trim(),
+  translation: rhythm => !!rhythm.lyricsTranslation.trim(),
+  notes: rhythm => !!rhythm.notes.trim(),
+  recordings: rhythm => rhythm.recordingIds.length > 0
+};
+
+const RECORDING_PROPERTIES: Partial<Record<QueryHasProperty, (recording: Recording) => boolean>> = {
+  favorite: recording => recording.isFavorite,
+  loop: recording => recording.loopPoints !== null
+};
+
+const compare = (count: number, operator: QueryComparison, value: number): boolean => {
+  switch (operator) {
+    case '>': return count > value;
+    case '>=': return count >= value;
+    case '<': return count < value;
+    case '<=': return count <= value;
+    case '=': return count === value;
+  }
+};
+
+const intersect = (a: Set<string>, b: Set<string>): Set<string> =>
+  new Set(Array.from(a).filter(id => b.has(id)));
+
+// Tag values match on their normalized key, by prefix so results update while typing
+const findTagIds = async (type: TagType, value: string, fuzzy = false): Promise<string[]> => {
+  if (fuzzy) {
+    return db.tags.where('type').equals(type).filter(tag => fuzzyNameScore(value, tag.value) > 0).primaryKeys();
+  }
+
+  const key = normalizeTagValue(value);
+  return db.tags
+    .where('[type+normalizedValue]')
+    .between([type, key], [type, key + '\uffff'], true, true)
+    .primaryKeys();
+};
+
+const rhythmIdsOf = async (recordings: Promise<Recording[]>): Promise<Set<string>> =>
+  new Set((await recordings).map(recording => recording.rhythmId));
+
+/**
+ * Run a parsed query. Returns one result per matching rhythm; free-text terms
+ * contribute their score and highlights, while structured terms only filter.
+ */
+export const runQuery = async (query: QueryNode): Promise<SearchResult[]> => {
+  return db.transaction('r', db.tags, db.rhythms, db.recordings, db.searchIndex, async () => {
+    const textMatches = new Map<string, SearchResult>();
+    let allRhythmIds: Set<string> | null = null;
+
+    const evaluate = async (node: QueryNode, negated: boolean): Promise<Set<string>> => {
+      switch (node.type) {
+        case 'text': {
+          const results = await searchArchive(node.value);
+          if (!negated) {
+            for (const result of results) {
+              const existing = textMatches.get(result.rhythmId);
+              textMatches.set(result.rhythmId, existing ? {
+                ...existing,
+                score: existing.score + result.score,
+                highlights: [...existing.highlights, ...result.highlights],
+                recordingIds: Array.from(new Set([...existing.recordingIds, ...result.recordingIds]))
+              } : result);
+            }
+          }
+          return new Set(results.map(result => result.rhythmId));
+        }
+
+        case 'tag': {
+          const { type, indexes, onRecordings, fuzzy } = FIELD_TAGS[node.field];
+          const tagIds = await findTagIds(type, node.value, fuzzy);
+          if (tagIds.length === 0) return new Set();
+
+          if (onRecordings) {
+            return rhythmIdsOf(db.recordings.where('playerNameTags').anyOf(tagIds).toArray());
+          }
+          const matches = new Set<string>();
+          for (const index of indexes) {
+            const ids = await db.rhythms.where(index).anyOf(tagIds).primaryKeys();
+            ids.forEach(id => matches.add(id));
+          }
+          return matches;
+        }
+
+        case 'has': {
+          const rhythmTest = RHYTHM_PROPERTIES[node.property];
+          if (rhythmTest) {
+            return new Set(await db.rhythms.filter(rhythmTest).primaryKeys());
+          }
+          return rhythmIdsOf(db.recordings.filter(RECORDING_PROPERTIES[node.property]!).toArray());
+        }
+
+        case 'recordingCount':
+          return new Set(await db.rhythms
+            .filter(rhythm => compare(rhythm.recordingIds.length, node.operator, node.value))
+            .primaryKeys());
+
+        case 'not': {
+          const excluded = await evaluate(node.operand, !negated);
+          allRhythmIds ??= new Set(await db.rhythms.toCollection().primaryKeys());
+          return new Set(Array.from(allRhythmIds).filter(id => !excluded.has(id)));
+        }
+
+        case 'and': {
+          let matches = await evaluate(node.operands[0], negated);
+          for (const operand of node.operands.slice(1)) {
+            matches = intersect(matches, await evaluate(operand, negated));
+          }
+          return matches;
+        }
+
+        case 'or': {
+          const matches = new Set<string>();
+          for (const operand of node.operands) {
+            (await evaluate(operand, negated)).forEach(id => matches.add(id));
+          }
+          return matches;
+        }
+      }
+    };
+
+    const matches = await evaluate(query, false);
+
+    return Array.from(matches)
+      .map(rhythmId => textMatches.get(rhythmId) ?? { rhythmId, score: 0, highlights: [], recordingIds: [] })
+      .sort((a, b) => b.score - a.score);
+  });
+};
@@ -1,11 +1,18 @@
 import Dexie, { type Table } from 'dexie';
-import type { Tag, Rhythm, Recording } from '../types';
+import type { Tag, Rhythm, Recording, SearchDocument, SavedSearch, RecordingSession, RecordingChunk } from '../types';
+import { countTagReferences } from './tagUsage';
+import { normalizeTagValue } from '../utils/nameSimilarity';
+import { buildRhythmDocument, buildRecordingDocument } from './searchDocuments';
 
 export class RhythmArchiveDB extends Dexie {
   // Tables
   tags!: Table<Tag, string>;
   rhythms!: Table<Rhythm, string>;
   recordings!: Table<Recording, string>;
+  searchIndex!: Table<SearchDocument, string>;
+  savedSearches!: Table<SavedSearch, string>;
+  recordingSessions!: Table<RecordingSession, string>;
+  recordingChunks!: Table<RecordingChunk, [string, number]>;
 
   constructor() {
     super('RhythmArchiveDB');
@@ -29,6 +36,126 @@ export class RhythmArchiveDB extends Dexie {
         }
       });
     });
+
+    // Version 3: usage counts are derived from references instead of being
+    // incremented on every tag lookup, so recompute them for existing data
+    this.version(3).stores({
+      tags: 'id, type, value, usageCount',
+      rhythms: 'id, primaryRhythmNameTag, *alternateRhythmNameTags, *regionTags, *ethnicGroupTags, *occasionTags, *languageTags, createdDate, updatedDate',
+      recordings: 'id, rhythmId, fileName, recordedDate, location, *playerNameTags, isFavorite'
+    }).upgrade(async tx => {
+      const counts = countTagReferences(
+        await tx.table('rhythms').toArray(),
+        await tx.table('recordings').toArray()
+      );
+      await tx.table('tags').toCollection().modify(tag => {
+        tag.usageCount = counts.get(tag.id) ?? 0;
+      });
+    });
+
+    // Version 4: normalized tag key for case- and accent-insensitive matching
+    this.version(4).stores({
+      tags: 'id, type, value, usageCount, [type+normalizedValue]',
+      rhythms: 'id, primaryRhythmNameTag, *alternateRhythmNameTags, *regionTags, *ethnicGroupTags, *occasionTags, *languageTags, createdDate, updatedDate',
+      recordings: 'id, rhythmId, fileName, recordedDate, location, *playerNameTags, isFavorite'
+    }).upgrade(tx => {
+      return tx.table('tags').toCollection().modify(tag => {
+        tag.normalizedValue = normalizeTagValue(tag.value);
+      });
+    });
+
+    // Version 5: persistent full-text index, one document per rhythm and recording,
+    // with name-like words indexed apart so fuzzy search doesn't read every word
+    this.version(5).stores({
+      tags: 'id, type, value, usageCount, [type+normalizedValue]',
+      rhythms: 'id, primaryRhythmNameTag, *alternateRhythmNameTags, *regionTags, *ethnicGroupTags, *occasionTags, *languageTags, createdDate, updatedDate',
+      recordings: 'id, rhythmId, fileName, recordedDate, location, *playerNameTags, isFavorite',
+      searchIndex: 'id, rhythmId, *terms, *fuzzyTerms'
+    }).upgrade(async tx => {
+      const tags: Tag[] = await tx.table('tags').toArray();
+      const values = new Map(tags.map(tag => [tag.id, tag.value]));
+      const lookup = (tagId: string) => values.get(tagId);
+      const rhythms: Rhythm[] = await tx.table('rhythms').toArray();
+      const recordings: Recording[] = await tx.table('recordings').toArray();
+
+      await tx.table('searchIndex').bulkPut([
+        ...rhythms.map(rhythm => buildRhythmDocument(rhythm, lookup)),
+        ...recordings.map(recording => buildRecordingDocument(recording, lookup))
+      ]);
+    });
+
+    // Version 6: saved searches
+    this.version(6).stores({
+      tags: 'id, type, value, usageCount, [type+normalizedValue]',
+      rhythms: 'id, primaryRhythmNameTag, *alternateRhythmNameTags, *regionTags, *ethnicGroupTags, *occasionTags, *languageTags, createdDate, updatedDate',
+      recordings: 'id, rhythmId, fileName, recordedDate, location, *playerNameTags, isFavorite',
+      searchIndex: 'id, rhythmId, *terms, *fuzzyTerms',
+      savedSearches: 'id, name'
+    });
+
+    // Version 7: pause markers on recordings
+    this.version(7).stores({
+      tags: 'id, type, value, usageCount, [type+normalizedValue]',
+      rhythms: 'id, primaryRhythmNameTag, *alternateRhythmNameTags, *regionTags, *ethnicGroupTags, *occasionTags, *languageTags, createdDate, updatedDate',
+      recordings: 'id, rhythmId, fileName, recordedDate, location, *playerNameTags, isFavorite',
+      searchIndex: 'id, rhythmId, *terms, *fuzzyTerms',
+      savedSearches: 'id, name'
+    }).upgrade(tx => {
+      return tx.table('recordings').toCollection().modify(recording => {
+        if (recording.markers === undefined) {
+          recording.markers = [];
+        }
+      });
+    });
+
+    // Version 8: audio of recordings in progress, saved as it's captured
+    this.version(8).stores({
+      tags: 'id, type, value, usageCount, [type+normalizedValue]',
+      rhythms: 'id, primaryRhythmNameTag, *alternateRhythmNameTags, *regionTags, *ethnicGroupTags, *occasionTags, *languageTags, createdDate, updatedDate',
+      recordings: 'id, rhythmId, fileName, recordedDate, location, *playerNameTags, isFavorite',
+      searchIndex: 'id, rhythmId, *terms, *fuzzyTerms',
+      savedSearches: 'id, name',
+      recordingSessions: 'id, startedDate',
+      recordingChunks: '[sessionId+index]'
+    });
+
+    // Version 9: clipping times on recordings and recordings in progress
+    this.version(9).stores({
+      tags: 'id, type, value, usageCount, [type+normalizedValue]',
+      rhythms: 'id, primaryRhythmNameTag, *alternateRhythmNameTags, *regionTags, *ethnicGroupTags, *occasionTags, *languageTags, createdDate, updatedDate',
+      recordings: 'id, rhythmId, fileName, recordedDate, location, *playerNameTags, isFavorite',
+      searchIndex: 'id, rhythmId, *terms, *fuzzyTerms',
+      savedSearches: 'id, name',
+      recordingSessions: 'id, startedDate',
+      recordingChunks: '[sessionId+index]'
+    }).upgrade(async tx => {
+      for (const table of ['recordings', 'recordingSessions']) {
+        await tx.table(table).toCollection().modify(record => {
+          if (record.clipTimes === undefined) {
+            record.clipTimes = [];
+          }
+        });
+      }
+    });
+
+    // Version 10: capture parameters on recordings and recordings in progress
+    this.version(10).stores({
+      tags: 'id, type, value, usageCount, [type+normalizedValue]',
+      rhythms: 'id, primaryRhythmNameTag, *alternateRhythmNameTags, *regionTags, *ethnicGroupTags, *occasionTags, *languageTags, createdDate, updatedDate',
+      recordings: 'id, rhythmId, fileName, recordedDate, location, *playerNameTags, isFavorite',
+      searchIndex: 'id, rhythmId, *terms, *fuzzyTerms',
+      savedSearches: 'id, name',
+      recordingSessions: 'id, startedDate',
+      recordingChunks: '[sessionId+index]'
+    }).upgrade(async tx => {
+      for (const table of ['recordings', 'recordingSessions']) {
+        await tx.table(table).toCollection().modify(record => {
+          if (record.captureInfo === undefined) {
+            record.captureInfo = null;
+          }
+        });
+      }
+    });
   }
 }
 
@@ -0,0 +1,158 @@
+import type { Rhythm, Recording, SearchDocument, SearchField, SearchHighlight } from '../types';
+import { normalizeTagValue, matchWord, WORD_MATCH_SCORES } from '../utils/nameSimilarity';
+
+// Pure helpers for building and scoring search documents. Kept free of database
+// imports so the schema upgrade can use them without a circular import.
+
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 10,
+  alternateName: 6,
+  tag: 4,
+  player: 4,
+  fileName: 3,
+  location: 2,
+  lyrics: 2,
+  lyricsTranslation: 2,
+  notes: 1,
+  recordingNotes: 1
+};
+
+// Name-like fields, where spelling varies enough to warrant phonetic and typo-tolerant matching
+export const FUZZY_SEARCH_FIELDS: SearchField[] = ['name', 'alternateName', 'tag', 'player'];
+
+// Shorter query words only match by prefix
+export const MIN_FUZZY_TERM_LENGTH = 3;
+
+const SNIPPET_LENGTH = 120;
+const SNIPPET_LEAD = 40;
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+// Split text into words and fold each one; offsets point into the original text for highlighting
+export const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{M}\p{N}]+/gu)) {
+    const term = normalizeTagValue(match[0]);
+    if (term) {
+      tokens.push({ term, start: match.index, end: match.index + match[0].length });
+    }
+  }
+  return tokens;
+};
+
+export const parseSearchTerms = (query: string): string[] =>
+  Array.from(new Set(tokenize(query).map(token => token.term)));
+
+const buildDocument = (
+  entityType: SearchDocument['entityType'],
+  entityId: string,
+  rhythmId: string,
+  fields: Partial<Record<SearchField, string>>
+): SearchDocument => {
+  const nonEmpty = Object.fromEntries(
+    Object.entries(fields).filter(([, text]) => text && text.trim())
+  ) as Partial<Record<SearchField, string>>;
+
+  const termsOf = (texts: (string | undefined)[]) =>
+    Array.from(new Set(texts.flatMap(text => (text ? tokenize(text).map(token => token.term) : []))));
+
+  return {
+    id: `${entityType}:${entityId}`,
+    entityType,
+    entityId,
+    rhythmId,
+    terms: termsOf(Object.values(nonEmpty)),
+    fuzzyTerms: termsOf(FUZZY_SEARCH_FIELDS.map(field => nonEmpty[field])),
+    fields: nonEmpty
+  };
+};
+
+type TagValueLookup = (tagId: string) => string | undefined;
+
+const tagValues = (tagIds: string[], lookup: TagValueLookup): string =>
+  tagIds.map(lookup).filter(Boolean).join(', ');
+
+export const buildRhythmDocument = (rhythm: Rhythm, lookup: TagValueLookup): SearchDocument =>
+  buildDocument('rhythm', rhythm.id, rhythm.id, {
+    name: lookup(rhythm.primaryRhythmNameTag),
+    alternateName: tagValues(rhythm.alternateRhythmNameTags, lookup),
+    tag: tagValues([...rhythm.regionTags, ...rhythm.ethnicGroupTags, ...rhythm.occasionTags, ...rhythm.languageTags], lookup),
+    lyrics: rhythm.lyrics,
+    lyricsTranslation: rhythm.lyricsTranslation,
+    notes: rhythm.notes
+  });
+
+export const buildRecordingDocument = (recording: Recording, lookup: TagValueLookup): SearchDocument =>
+  buildDocument('recording', recording.id, recording.rhythmId, {
+    fileName: recording.fileName,
+    location: recording.location,
+    player: tagValues(recording.playerNameTags, lookup),
+    recordingNotes: recording.notes
+  });
+
+// Trim long fields to a window around the first match, shifting the ranges to match
+const makeHighlight = (
+  field: SearchField,
+  entityId: string,
+  text: string,
+  ranges: [number, number][]
+): SearchHighlight => {
+  if (text.length <= SNIPPET_LENGTH) {
+    return { field, entityId, text, ranges };
+  }
+
+  const start = Math.max(0, ranges[0][0] - SNIPPET_LEAD);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const shift = prefix.length - start;
+
+  return {
+    field,
+    entityId,
+    text: prefix + text.slice(start, end) + suffix,
+    ranges: ranges
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from + shift, to + shift])
+  };
+};
+
+/**
+ * Score a document against folded query terms. A word matches a term when it
+ * starts with it (so results update while typing); whole-word matches count double.
+ * In name-like fields phonetic and near-miss spellings also match, for less.
+ */
+export const scoreDocument = (
+  document: SearchDocument,
+  terms: string[]
+): { matchedTerms: Set<string>; score: number; highlights: SearchHighlight[] } => {
+  const matchedTerms = new Set<string>();
+  const highlights: SearchHighlight[] = [];
+  let score = 0;
+
+  for (const [field, text] of Object.entries(document.fields) as [SearchField, string][]) {
+    const fuzzy = FUZZY_SEARCH_FIELDS.includes(field);
+    const ranges: [number, number][] = [];
+    for (const token of tokenize(text)) {
+      for (const term of terms) {
+        const match = token.term.startsWith(term)
+          ? 'exact'
+          : fuzzy && term.length >= MIN_FUZZY_TERM_LENGTH ? matchWord(term, token.term) : null;
+        if (!match) continue;
+        matchedTerms.add(term);
+        score += SEARCH_FIELD_WEIGHTS[field] * (token.term === term ? 2 : WORD_MATCH_SCORES[match]);
+        ranges.push([token.start, token.end]);
+        break;
+      }
+    }
+    if (ranges.length > 0) {
+      highlights.push(makeHighlight(field, document.entityId, text, ranges));
+    }
+  }
+
+  return { matchedTerms, score, highlights };
+};
@@ -0,0 +1,47 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { db } from './schema';
+import { createTag, createRhythm } from './storage';
+import { searchArchive } from './searchIndex';
+
+describe('searchArchive', () => {
+  let rhythmId: string;
+
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+    const name = await createTag('rhythmName', 'Dundunba');
+    const rhythm = await createRhythm({
+      primaryRhythmNameTag: name.id,
+      alternateRhythmNameTags: [],
+      regionTags: [],
+      ethnicGroupTags: [],
+      occasionTags: [],
+      languageTags: [],
+      lyrics: 'Wolo sodon jara',
+      lyricsTranslation: '',
+      notes: 'Played for the strong men',
+      recordingIds: []
+    });
+    rhythmId = rhythm.id;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('matches names with a typo', async () => {
+    expect((await searchArchive('dunduba')).map(result => result.rhythmId)).toEqual([rhythmId]);
+  });
+
+  it('matches lyrics and notes by prefix only', async () => {
+    expect((await searchArchive('sodo')).map(result => result.rhythmId)).toEqual([rhythmId]);
+    expect(await searchArchive('sodin')).toEqual([]);
+    expect(await searchArchive('strang')).toEqual([]);
+  });
+
+  it('never reads the vocabulary of every indexed word', async () => {
+    const orderBy = vi.spyOn(db.searchIndex, 'orderBy');
+    await searchArchive('dunduba strong');
+    expect(orderBy).not.toHaveBeenCalledWith('terms');
+  });
+});
@@ -0,0 +1,109 @@
+import { db } from './schema';
+import type { Tag, SearchDocument, SearchResult } from '../types';
+import { rhythmTagIds, recordingTagIds } from './tagUsage';
+import { buildRhythmDocument, buildRecordingDocument, parseSearchTerms, scoreDocument, MIN_FUZZY_TERM_LENGTH } from './searchDocuments';
+import { matchWord } from '../utils/nameSimilarity';
+
+const loadTagValues = async (tagIds: string[]): Promise<(tagId: string) => string | undefined> => {
+  const tags = await db.tags.bulkGet(Array.from(new Set(tagIds)));
+  const values = new Map(tags.filter((tag): tag is Tag => !!tag).map(tag => [tag.id, tag.value]));
+  return tagId => values.get(tagId);
+};
+
+/**
+ * Re-index the given rhythms, dropping index entries for rhythms that no longer exist.
+ * Call from inside the transaction that wrote them.
+ */
+export const indexRhythms = async (rhythmIds: string[]): Promise<void> => {
+  if (rhythmIds.length === 0) return;
+  const rhythms = await db.rhythms.bulkGet(rhythmIds);
+  const lookup = await loadTagValues(rhythms.flatMap(rhythm => (rhythm ? rhythmTagIds(rhythm) : [])));
+
+  await db.searchIndex.bulkDelete(rhythmIds.filter((_id, index) => !rhythms[index]).map(id => `rhythm:${id}`));
+  await db.searchIndex.bulkPut(rhythms.flatMap(rhythm => (rhythm ? [buildRhythmDocument(rhythm, lookup)] : [])));
+};
+
+/**
+ * Re-index the given recordings, dropping index entries for recordings that no longer exist.
+ * Call from inside the transaction that wrote them.
+ */
+export const indexRecordings = async (recordingIds: string[]): Promise<void> => {
+  if (recordingIds.length === 0) return;
+  const recordings = await db.recordings.bulkGet(recordingIds);
+  const lookup = await loadTagValues(recordings.flatMap(recording => (recording ? recordingTagIds(recording) : [])));
+
+  await db.searchIndex.bulkDelete(recordingIds.filter((_id, index) => !recordings[index]).map(id => `recording:${id}`));
+  await db.searchIndex.bulkPut(recordings.flatMap(recording => (recording ? [buildRecordingDocument(recording, lookup)] : [])));
+};
+
+export const rebuildSearchIndex = async (): Promise<void> => {
+  await db.transaction('rw', db.tags, db.rhythms, db.recordings, db.searchIndex, async () => {
+    const tags = await db.tags.toArray();
+    const values = new Map(tags.map(tag => [tag.id, tag.value]));
+    const lookup = (tagId: string) => values.get(tagId);
+
+    const documents: SearchDocument[] = [
+      ...(await db.rhythms.toArray()).map(rhythm => buildRhythmDocument(rhythm, lookup)),
+      ...(await db.recordings.toArray()).map(recording => buildRecordingDocument(recording, lookup))
+    ];
+
+    await db.searchIndex.clear();
+    await db.searchIndex.bulkPut(documents);
+  });
+};
+
+/**
+ * Search rhythms and their recordings. Every query word must match somewhere in
+ * the rhythm or one of its recordings; results are ranked by weighted score.
+ * Names also match phonetically or with typos, see scoreDocument.
+ */
+export const searchArchive = async (query: string): Promise<SearchResult[]> => {
+  const terms = parseSearchTerms(query);
+  if (terms.length === 0) return [];
+
+  const candidates = new Map<string, SearchDocument>();
+  let vocabulary: string[] | null = null;
+  for (const term of terms) {
+    const documents = await db.searchIndex.where('terms').startsWith(term).distinct().toArray();
+    documents.forEach(document => candidates.set(document.id, document));
+
+    // Name, tag and player words that only match fuzzily. Lyrics and notes only
+    // ever match by prefix, so their (much larger) vocabulary is never loaded.
+    if (term.length >= MIN_FUZZY_TERM_LENGTH) {
+      vocabulary ??= (await db.searchIndex.orderBy('fuzzyTerms').uniqueKeys()) as string[];
+      const variants = vocabulary.filter(word => !word.startsWith(term) && matchWord(term, word));
+      if (variants.length > 0) {
+        const fuzzyDocuments = await db.searchIndex.where('fuzzyTerms').anyOf(variants).distinct().toArray();
+        fuzzyDocuments.forEach(document => candidates.set(document.id, document));
+      }
+    }
+  }
+
+  const byRhythm = new Map<string, SearchResult>();
+  const matchedByRhythm = new Map<string, Set<string>>();
+  for (const document of candidates.values()) {
+    const { matchedTerms, score, highlights } = scoreDocument(document, terms);
+    const result = byRhythm.get(document.rhythmId) ?? {
+      rhythmId: document.rhythmId,
+      score: 0,
+      highlights: [],
+      recordingIds: []
+    };
+    const matched = matchedByRhythm.get(document.rhythmId) ?? new Set<string>();
+
+    result.score += score;
+    matchedTerms.forEach(term => matched.add(term));
+    if (document.entityType === 'rhythm') {
+      result.highlights.unshift(...highlights);
+    } else {
+      result.highlights.push(...highlights);
+      result.recordingIds.push(document.entityId);
+    }
+    byRhythm.set(document.rhythmId, result);
+    matchedByRhythm.set(document.rhythmId, matched);
+  }
+
+  return Array.from(byRhythm.values())
+    .filter(result => matchedByRhythm.get(result.rhythmId)!.size === terms.length)
+    .sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,575 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { db } from './schema';
+import {
+  createTag,
+  createRhythm,
+  createRecording,
+  deleteRecording,
+  deleteRhythm,
+  moveRecording,
+  splitRecording,
+  mergeImportData,
+  getRhythmFilterOptions,
+  getRhythmSummaryPage,
+  updateRhythm,
+  updateRhythmTagValues,
+  ConcurrentEditError,
+  importAllData,
+  startRecordingSession,
+  appendRecordingChunk,
+  claimRecordingSession,
+  getUnfinishedRecordingSessions,
+  saveRecordingSession
+} from './storage';
+import { mergeRhythms } from './duplicates';
+import { mergeTags, renameTag } from './tagManagement';
+import { broadcast } from '../utils/tabChannel';
+import type { Recording, Rhythm, RhythmListQuery, RhythmSummaryPage } from '../types';
+
+vi.mock('../utils/tabChannel', () => ({ broadcast: vi.fn(), onTabMessage: vi.fn() }));
+
+const rhythmFields = (primaryRhythmNameTag: string, regionTags: string[] = []): Omit<Rhythm, 'id' | 'createdDate' | 'updatedDate'> => ({
+  primaryRhythmNameTag,
+  alternateRhythmNameTags: [],
+  regionTags,
+  ethnicGroupTags: [],
+  occasionTags: [],
+  languageTags: [],
+  lyrics: '',
+  lyricsTranslation: '',
+  notes: '',
+  recordingIds: []
+});
+
+const recordingFields = (rhythmId: string, playerNameTags: string[]): Omit<Recording, 'id'> => ({
+  rhythmId,
+  fileName: 'Conakry - 2024-05-01 - 10:00:00',
+  audioBlob: new Blob(['audio'], { type: 'audio/webm' }),
+  duration: 12,
+  recordedDate: '2024-05-01T10:00:00.000Z',
+  location: 'Conakry',
+  playerNameTags,
+  notes: '',
+  loopPoints: null,
+  waveformData: null,
+  isFavorite: false,
+  markers: [],
+  clipTimes: [],
+  captureInfo: null
+});
+
+const seed = async () => {
+  const kuku = await createTag('rhythmName', 'Kuku');
+  const soli = await createTag('rhythmName', 'Soli');
+  const region = await createTag('region', 'Guinée');
+  const player = await createTag('playerName', 'Famoudou');
+
+  const rhythm = await createRhythm(rhythmFields(kuku.id, [region.id]));
+  const other = await createRhythm(rhythmFields(soli.id));
+  const recording = await createRecording(recordingFields(rhythm.id, [player.id]));
+  return { rhythm, other, recording, tags: { kuku, soli, region, player } };
+};
+
+// Everything a multi-table write touches, in a stable order
+const snapshot = async () => ({
+  tags: await db.tags.orderBy('id').toArray(),
+  rhythms: await db.rhythms.orderBy('id').toArray(),
+  recordings: await db.recordings.orderBy('id').toArray(),
+  searchIndex: await db.searchIndex.orderBy('id').toArray()
+});
+
+// Re-indexing comes last in every write, so failing it leaves all other writes
+// made. Earlier index writes can be let through to fail later in the operation.
+const failSearchIndexWrite = (succeedFirst = 0) => {
+  const bulkPut = db.searchIndex.bulkPut.bind(db.searchIndex);
+  const spy = vi.spyOn(db.searchIndex, 'bulkPut');
+  for (let i = 0; i < succeedFirst; i++) {
+    spy.mockImplementationOnce(bulkPut);
+  }
+  return spy.mockRejectedValueOnce(new Error('Simulated write failure'));
+};
+
+describe('multi-table writes roll back together', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('createRecording', async () => {
+    const { rhythm, tags } = await seed();
+    const before = await snapshot();
+    const failure = failSearchIndexWrite();
+
+    await expect(createRecording(recordingFields(rhythm.id, [tags.player.id]))).rejects.toThrow('Simulated write failure');
+    expect(failure).toHaveBeenCalled();
+    expect(await snapshot()).toEqual(before);
+  });
+
+  it('deleteRhythm', async () => {
+    const { rhythm } = await seed();
+    const before = await snapshot();
+    const failure = failSearchIndexWrite();
+
+    await expect(deleteRhythm(rhythm.id)).rejects.toThrow('Simulated write failure');
+    expect(failure).toHaveBeenCalled();
+    expect(await snapshot()).toEqual(before);
+  });
+
+  it('moveRecording', async () => {
+    const { other, recording } = await seed();
+    const before = await snapshot();
+    const failure = failSearchIndexWrite();
+
+    await expect(moveRecording(recording.id, other.id)).rejects.toThrow('Simulated write failure');
+    expect(failure).toHaveBeenCalled();
+    expect(await snapshot()).toEqual(before);
+  });
+
+  it('splitRecording', async () => {
+    const { recording } = await seed();
+    const before = await snapshot();
+    // The first part is indexed, so the failure comes halfway through
+    const failure = failSearchIndexWrite(1);
+
+    const parts = [
+      { audioBlob: new Blob(['first'], { type: 'audio/wav' }), start: 0, duration: 6 },
+      { audioBlob: new Blob(['second'], { type: 'audio/wav' }), start: 6, duration: 6 }
+    ];
+    await expect(splitRecording(recording.id, parts)).rejects.toThrow('Simulated write failure');
+    expect(failure).toHaveBeenCalled();
+    expect(await snapshot()).toEqual(before);
+  });
+
+  it('mergeRhythms', async () => {
+    const { rhythm, other } = await seed();
+    const before = await snapshot();
+    const failure = failSearchIndexWrite();
+
+    const plan = {
+      targetId: rhythm.id,
+      sourceIds: [other.id],
+      textSources: { lyrics: rhythm.id, lyricsTranslation: rhythm.id, notes: other.id }
+    };
+    await expect(mergeRhythms(plan)).rejects.toThrow('Simulated write failure');
+    expect(failure).toHaveBeenCalled();
+    expect(await snapshot()).toEqual(before);
+  });
+
+  it('mergeTags', async () => {
+    const { tags } = await seed();
+    const before = await snapshot();
+    const failure = failSearchIndexWrite();
+
+    await expect(mergeTags(tags.kuku.id, [tags.soli.id])).rejects.toThrow('Simulated write failure');
+    expect(failure).toHaveBeenCalled();
+    expect(await snapshot()).toEqual(before);
+  });
+
+  it('mergeImportData', async () => {
+    const { rhythm, tags } = await seed();
+    const before = await snapshot();
+    const failure = vi.spyOn(db.searchIndex, 'clear').mockRejectedValueOnce(new Error('Simulated write failure'));
+
+    const now = new Date().toISOString();
+    const importedTag = { ...tags.region, id: 'imported-tag', value: 'Mali', normalizedValue: 'mali', usageCount: 1 };
+    const importedRhythm: Rhythm = { ...rhythmFields(tags.soli.id, [importedTag.id]), id: 'imported-rhythm', createdDate: now, updatedDate: now };
+    const importedRecording: Recording = { ...recordingFields(rhythm.id, [tags.player.id]), id: 'imported-recording' };
+
+    await expect(mergeImportData({
+      tags: [importedTag],
+      rhythms: [importedRhythm],
+      recordings: [importedRecording],
+      savedSearches: []
+    })).rejects.toThrow('Simulated write failure');
+    expect(failure).toHaveBeenCalled();
+    expect(await snapshot()).toEqual(before);
+  });
+});
+
+describe('mergeImportData', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+  });
+
+  it('adds an imported tag whose ID is taken by a different tag under a new ID', async () => {
+    const { tags } = await seed();
+    const now = new Date().toISOString();
+    const importedTag = { ...tags.region, value: 'Mali', normalizedValue: 'mali' };
+    const importedRhythm: Rhythm = { ...rhythmFields(tags.soli.id, [importedTag.id]), id: 'imported-rhythm', createdDate: now, updatedDate: now };
+
+    const report = await mergeImportData({ tags: [importedTag], rhythms: [importedRhythm], recordings: [], savedSearches: [] });
+
+    const rekeyedId = report.remappedTagIds[tags.region.id];
+    expect(rekeyedId).toBeDefined();
+    expect(report.tags.conflicts).toMatchObject([{ id: tags.region.id, resolution: 'rekeyed-imported' }]);
+    expect(await db.tags.get(tags.region.id)).toMatchObject({ value: 'Guinée' });
+    expect(await db.tags.get(rekeyedId)).toMatchObject({ value: 'Mali', type: 'region' });
+    expect((await db.rhythms.get('imported-rhythm'))?.regionTags).toEqual([rekeyedId]);
+  });
+});
+
+describe('conditional updateRhythm', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+  });
+
+  it('ignores changes this tab made since the rhythm was read', async () => {
+    const { rhythm, recording } = await seed();
+    const { updatedDate } = (await db.rhythms.get(rhythm.id))!;
+    await createRecording(recordingFields(rhythm.id, []));
+    await deleteRecording(recording.id);
+
+    await updateRhythm(rhythm.id, { notes: 'Harvest' }, updatedDate);
+    expect(await db.rhythms.get(rhythm.id)).toMatchObject({ notes: 'Harvest' });
+  });
+
+  it("only sees past this tab's latest updates", async () => {
+    const { rhythm } = await seed();
+    const { updatedDate } = (await db.rhythms.get(rhythm.id))!;
+    for (let i = 0; i < 25; i++) {
+      await updateRhythm(rhythm.id, { notes: `Take ${i}` });
+    }
+
+    await expect(updateRhythm(rhythm.id, { notes: 'Harvest' }, updatedDate)).rejects.toThrow(ConcurrentEditError);
+  });
+
+  it('refuses when its tags were merged or renamed since the rhythm was read', async () => {
+    const { rhythm, other, tags } = await seed();
+
+    await mergeTags(tags.kuku.id, [tags.soli.id]);
+    await expect(updateRhythmTagValues(other.id, {
+      primaryName: 'Soli', alternateNames: [], regions: [], ethnicGroups: [], occasions: [], languages: []
+    }, {}, other.updatedDate)).rejects.toThrow(ConcurrentEditError);
+    expect(await db.tags.get(tags.soli.id)).toBeUndefined();
+    expect((await db.tags.toArray()).map(tag => tag.value)).not.toContain('Soli');
+
+    const { updatedDate } = (await db.rhythms.get(rhythm.id))!;
+    await renameTag(tags.region.id, 'Guinea');
+    await expect(updateRhythm(rhythm.id, { notes: 'Harvest' }, updatedDate)).rejects.toThrow(ConcurrentEditError);
+  });
+
+  it('refuses when another tab changed the rhythm, before or after this one', async () => {
+    const { rhythm } = await seed();
+    const { updatedDate } = (await db.rhythms.get(rhythm.id))!;
+    // Another tab's write reaches the database without going through this tab's updateRhythm
+    const writeElsewhere = () => db.rhythms.update(rhythm.id, { notes: 'Elsewhere', updatedDate: new Date(Date.now() + 1000).toISOString() });
+
+    await writeElsewhere();
+    await createRecording(recordingFields(rhythm.id, []));
+    await expect(updateRhythm(rhythm.id, { notes: 'Harvest' }, updatedDate)).rejects.toThrow(ConcurrentEditError);
+
+    const { updatedDate: latest } = (await db.rhythms.get(rhythm.id))!;
+    await createRecording(recordingFields(rhythm.id, []));
+    await writeElsewhere();
+    await expect(updateRhythm(rhythm.id, { notes: 'Harvest' }, latest)).rejects.toThrow(ConcurrentEditError);
+  });
+});
+
+describe('updateRhythmTagValues', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+  });
+
+  const values = { primaryName: 'Kuku', alternateNames: ['Kukuba'], regions: ['Mali'], ethnicGroups: [], occasions: [], languages: [] };
+
+  it('creates the tags it needs and updates the rhythm', async () => {
+    const { rhythm, tags } = await seed();
+
+    await updateRhythmTagValues(rhythm.id, values, { notes: 'Harvest' }, rhythm.updatedDate);
+
+    const updated = await db.rhythms.get(rhythm.id);
+    const [alternate, region] = await db.tags.bulkGet([...updated!.alternateRhythmNameTags, ...updated!.regionTags]);
+    expect(updated).toMatchObject({ primaryRhythmNameTag: tags.kuku.id, notes: 'Harvest' });
+    expect([alternate?.value, region?.value]).toEqual(['Kukuba', 'Mali']);
+  });
+
+  it('creates no tags when the rhythm changed since it was read', async () => {
+    const { rhythm } = await seed();
+    const before = await snapshot();
+
+    await expect(updateRhythmTagValues(rhythm.id, values, {}, '2000-01-01T00:00:00.000Z')).rejects.toThrow(ConcurrentEditError);
+    expect(await snapshot()).toEqual(before);
+  });
+});
+
+describe('getRhythmFilterOptions', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+  });
+
+  it('lists only the tag values rhythms use', async () => {
+    await seed();
+    await createTag('region', 'Mali');
+
+    expect(await getRhythmFilterOptions()).toEqual({
+      alternateNames: [],
+      regions: ['Guinée'],
+      ethnicGroups: [],
+      occasions: [],
+      languages: []
+    });
+  });
+});
+
+describe('getRhythmSummaryPage', () => {
+  const noFilters = { alternateNames: [], regions: [], ethnicGroups: [], occasions: [], languages: [] };
+
+  // Every page, two rhythms at a time, as the names they list
+  const listAll = async (query: RhythmListQuery) => {
+    const names: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: RhythmSummaryPage = await getRhythmSummaryPage(query, cursor, 2);
+      expect(page.summaries.length).toBeLessThanOrEqual(2);
+      names.push(...page.summaries.map(summary => summary.name));
+      cursor = page.nextCursor;
+    } while (cursor);
+    return names;
+  };
+
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+    const guinea = await createTag('region', 'Guinée');
+    const mali = await createTag('region', 'Mali');
+
+    // Name, regions, recordings and day of the last update
+    const rhythms: [string, string[], number, number][] = [
+      ['soli', [guinea.id], 1, 3],
+      ['Dundunba', [guinea.id, mali.id], 2, 1],
+      ['Kuku', [guinea.id], 0, 5],
+      ['Ëkónkón', [mali.id], 1, 2],
+      ['Yankadi', [], 0, 4]
+    ];
+    for (const [name, regionTags, recordings, day] of rhythms) {
+      const rhythm = await createRhythm(rhythmFields((await createTag('rhythmName', name)).id, regionTags));
+      for (let i = 0; i < recordings; i++) {
+        await createRecording(recordingFields(rhythm.id, []));
+      }
+      await db.rhythms.update(rhythm.id, { updatedDate: `2024-05-0${day}T10:00:00.000Z` });
+    }
+  });
+
+  it('pages through every sort in order', async () => {
+    expect(await listAll({ sort: 'date-newest', filters: noFilters })).toEqual(['Kuku', 'Yankadi', 'soli', 'Ëkónkón', 'Dundunba']);
+    expect(await listAll({ sort: 'date-oldest', filters: noFilters })).toEqual(['Dundunba', 'Ëkónkón', 'soli', 'Yankadi', 'Kuku']);
+    expect(await listAll({ sort: 'name-asc', filters: noFilters })).toEqual(['Dundunba', 'Ëkónkón', 'Kuku', 'soli', 'Yankadi']);
+    expect(await listAll({ sort: 'recordings', filters: noFilters })).toEqual(['Dundunba', 'soli', 'Ëkónkón', 'Kuku', 'Yankadi']);
+  });
+
+  it('keeps rhythms sharing a sort key apart across pages', async () => {
+    await db.rhythms.toCollection().modify({ updatedDate: '2024-05-01T10:00:00.000Z' });
+    const names = await listAll({ sort: 'date-newest', filters: noFilters });
+    expect(names).toHaveLength(5);
+    expect(new Set(names).size).toBe(5);
+  });
+
+  it('lists only rhythms matching a selected value in every filtered category', async () => {
+    expect(await listAll({ sort: 'name-asc', filters: { ...noFilters, regions: ['guinee'] } })).toEqual(['Dundunba', 'Kuku', 'soli']);
+    expect(await listAll({ sort: 'recordings', filters: { ...noFilters, regions: ['Mali', 'Guinée'] } })).toEqual(['Dundunba', 'soli', 'Ëkónkón', 'Kuku']);
+    expect(await listAll({ sort: 'date-oldest', filters: { ...noFilters, regions: ['Mali'], languages: ['Susu'] } })).toEqual([]);
+  });
+});
+
+describe('writes announce the rhythms they change', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // Which rhythms the last write told other tabs about
+  const announced = () => new Set(vi.mocked(broadcast).mock.calls.flatMap(([message]) => (message.type === 'rhythm-changed' ? [message.rhythmId] : [])));
+
+  it('splitRecording', async () => {
+    const { rhythm, recording } = await seed();
+    vi.clearAllMocks();
+
+    await splitRecording(recording.id, [
+      { audioBlob: new Blob(['first'], { type: 'audio/wav' }), start: 0, duration: 6 },
+      { audioBlob: new Blob(['second'], { type: 'audio/wav' }), start: 6, duration: 6 }
+    ]);
+    expect(announced()).toEqual(new Set([rhythm.id]));
+  });
+
+  it('mergeRhythms', async () => {
+    const { rhythm, other } = await seed();
+    vi.clearAllMocks();
+
+    await mergeRhythms({
+      targetId: rhythm.id,
+      sourceIds: [other.id],
+      textSources: { lyrics: rhythm.id, lyricsTranslation: rhythm.id, notes: rhythm.id }
+    });
+    expect(announced()).toEqual(new Set([rhythm.id, other.id]));
+  });
+
+  it('mergeTags and renameTag', async () => {
+    const { rhythm, other, tags } = await seed();
+    vi.clearAllMocks();
+
+    await mergeTags(tags.kuku.id, [tags.soli.id]);
+    expect(announced()).toEqual(new Set([other.id]));
+
+    vi.clearAllMocks();
+    await renameTag(tags.region.id, 'Guinea');
+    expect(announced()).toEqual(new Set([rhythm.id]));
+  });
+
+  it('mergeImportData', async () => {
+    const { rhythm, tags } = await seed();
+    vi.clearAllMocks();
+
+    const now = new Date().toISOString();
+    const importedRhythm: Rhythm = { ...rhythmFields(tags.soli.id), id: 'imported-rhythm', createdDate: now, updatedDate: now };
+    const importedRecording: Recording = { ...recordingFields(rhythm.id, []), id: 'imported-recording' };
+
+    await mergeImportData({ tags: [], rhythms: [importedRhythm], recordings: [importedRecording], savedSearches: [] });
+    expect(announced()).toEqual(new Set([importedRhythm.id, rhythm.id]));
+  });
+
+  it('nothing when the write rolls back', async () => {
+    const { rhythm, other } = await seed();
+    vi.clearAllMocks();
+    failSearchIndexWrite();
+
+    await expect(mergeRhythms({
+      targetId: rhythm.id,
+      sourceIds: [other.id],
+      textSources: { lyrics: rhythm.id, lyricsTranslation: rhythm.id, notes: rhythm.id }
+    })).rejects.toThrow('Simulated write failure');
+    expect(broadcast).not.toHaveBeenCalled();
+  });
+});
+
+describe('recording sessions', () => {
+  // Web Locks as this tab sees them: locks held by other tabs are listed but can't be taken
+  const stubLocks = (heldElsewhere: string[]) => {
+    const held = new Set(heldElsewhere.map(id => `recording-session:${id}`));
+    vi.stubGlobal('navigator', {
+      locks: {
+        request: async (name: string, _options: LockOptions, callback: (lock: Lock | null) => unknown) => {
+          if (held.has(name)) return callback(null);
+          held.add(name);
+          try {
+            return await callback({ name, mode: 'exclusive' });
+          } finally {
+            held.delete(name);
+          }
+        },
+        query: async () => ({ held: Array.from(held, name => ({ name })) })
+      }
+    });
+  };
+
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('offers only sessions no open tab is recording or saving', async () => {
+    const crashed = await startRecordingSession('audio/webm', null);
+    const elsewhere = await startRecordingSession('audio/webm', null);
+    const here = await startRecordingSession('audio/webm', null);
+    stubLocks([elsewhere.id]);
+
+    const release = await claimRecordingSession(here.id);
+    expect(release).not.toBeNull();
+    expect(await claimRecordingSession(elsewhere.id)).toBeNull();
+    expect((await getUnfinishedRecordingSessions()).map(session => session.id)).toEqual([crashed.id]);
+
+    release!();
+    await vi.waitFor(async () =>
+      expect(new Set((await getUnfinishedRecordingSessions()).map(session => session.id))).toEqual(new Set([crashed.id, here.id]))
+    );
+  });
+
+  it('saves a session as a recording and discards it together', async () => {
+    const { rhythm } = await seed();
+    const session = await startRecordingSession('audio/webm', null);
+    await appendRecordingChunk(session.id, 0, new Blob(['audio']));
+
+    const recording = await saveRecordingSession(session.id, recordingFields(rhythm.id, []));
+    expect(await db.recordings.get(recording.id)).toBeDefined();
+    expect(await db.recordingSessions.count()).toBe(0);
+    expect(await db.recordingChunks.count()).toBe(0);
+  });
+
+  it('keeps the session when the recording fails to save', async () => {
+    const { rhythm } = await seed();
+    const session = await startRecordingSession('audio/webm', null);
+    await appendRecordingChunk(session.id, 0, new Blob(['audio']));
+    const before = await snapshot();
+    failSearchIndexWrite();
+
+    await expect(saveRecordingSession(session.id, recordingFields(rhythm.id, []))).rejects.toThrow('Simulated write failure');
+    expect(await snapshot()).toEqual(before);
+    expect(await db.recordingSessions.count()).toBe(1);
+    expect(await db.recordingChunks.count()).toBe(1);
+  });
+});
+
+describe('importAllData', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // A version 1.0 export: a JSON file with the audio inline as base64
+  const legacyFile = () => new File([JSON.stringify({
+    version: '1.0',
+    tags: [{ id: 'kuku', type: 'rhythmName', value: 'Kuku', usageCount: 9, createdDate: '2023-01-01T00:00:00.000Z' }],
+    rhythms: [{
+      ...rhythmFields('kuku'),
+      id: 'r1',
+      createdDate: '2023-01-01T00:00:00.000Z',
+      updatedDate: '2023-01-01T00:00:00.000Z',
+      recordingIds: ['rec1']
+    }],
+    recordings: [{
+      id: 'rec1',
+      rhythmId: 'r1',
+      fileName: 'Conakry - 2023-01-01 - 10:00:00',
+      duration: 12,
+      recordedDate: '2023-01-01T10:00:00.000Z',
+      location: 'Conakry',
+      playerNameTags: [],
+      notes: '',
+      audioBase64: btoa('audio'),
+      audioBlobType: 'audio/ogg'
+    }]
+  })], 'rhythm-archive.json', { type: 'application/json' });
+
+  it('imports a legacy 1.0 JSON export with its audio', async () => {
+    const result = await importAllData(legacyFile());
+    expect(result.success).toBe(true);
+
+    const recording = await db.recordings.get('rec1');
+    expect(recording).toMatchObject({ rhythmId: 'r1', isFavorite: false, markers: [], captureInfo: null });
+    expect(recording).not.toHaveProperty('audioBase64');
+    expect(recording?.audioBlob?.type).toBe('audio/ogg');
+    expect(await recording?.audioBlob?.text()).toBe('audio');
+    expect(await db.tags.get('kuku')).toMatchObject({ usageCount: 1 });
+  });
+
+  it('announces every rhythm a replacing import removes or brings in', async () => {
+    const { rhythm, other } = await seed();
+    vi.clearAllMocks();
+
+    expect((await importAllData(legacyFile(), 'replace')).success).toBe(true);
+    const announced = vi.mocked(broadcast).mock.calls.flatMap(([message]) => (message.type === 'rhythm-changed' ? [message.rhythmId] : []));
+    expect(new Set(announced)).toEqual(new Set([rhythm.id, other.id, 'r1']));
+  });
+});
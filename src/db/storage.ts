@@ -1,34 +1,82 @@
+import Dexie from 'dexie';
 import { db } from './schema';
-import type { Tag, Rhythm, Recording, TagType } from '../types';
+import type {
+  Tag,
+  Rhythm,
+  Recording,
+  TagType,
+  ExportValidationIssue,
+  ArchiveManifest,
+  ArchivedRecording,
+  ImportPayload,
+  ImportMode,
+  ImportReport,
+  ImportEntityReport,
+  ImportConflict,
+  ImportPreview,
+  RhythmFieldChange,
+  TagUsage,
+  SavedSearch,
+  RecordingFilter,
+  RhythmSummary,
+  RhythmSummaryPage,
+  RhythmListFilters,
+  RhythmListQuery,
+  RhythmTagValues,
+  DatabaseStats,
+  RecordingSession,
+  CaptureInfo
+} from '../types';
+import { ZipWriter, isZipFile, readZipEntries } from '../utils/zipArchive';
+import {
+  CURRENT_EXPORT_VERSION,
+  ExportValidationError,
+  migrateExport,
+  validateExport,
+  type RawExport,
+  type ValidatedExport
+} from './exportFormat';
+import { RHYTHM_TAG_LIST_FIELDS, rhythmTagIds, recordingTagIds, countTagReferences, changedTagIds } from './tagUsage';
+import { normalizeTagValue } from '../utils/nameSimilarity';
+import { indexRhythms, indexRecordings, rebuildSearchIndex, searchArchive } from './searchIndex';
+import { broadcast } from '../utils/tabChannel';
+import type { AudioSegment } from '../utils/audioSegments';
 import { v4 as uuidv4 } from 'uuid';
 
 // ============= TAG OPERATIONS =============
 
-export const createTag = async (type: TagType, value: string): Promise<Tag> => {
-  // Check if tag already exists
-  const existing = await db.tags
-    .where({ type, value })
+// Matches ignoring case, surrounding whitespace and accents, so "Guinée" finds "guinee"
+export const findTagByValue = async (type: TagType, value: string): Promise<Tag | undefined> => {
+  return db.tags
+    .where('[type+normalizedValue]')
+    .equals([type, normalizeTagValue(value)])
     .first();
-  
-  if (existing) {
-    // Increment usage count
-    await db.tags.update(existing.id, { 
-      usageCount: existing.usageCount + 1 
-    });
-    return { ...existing, usageCount: existing.usageCount + 1 };
-  }
-  
-  // Create new tag
-  const tag: Tag = {
-    id: uuidv4(),
-    type,
-    value,
-    usageCount: 1,
-    createdDate: new Date().toISOString()
-  };
-  
-  await db.tags.add(tag);
-  return tag;
+};
+
+// Find or create a tag. Usage counts are not touched here; they follow the
+// rhythms and recordings that actually reference the tag (see refreshTagUsage).
+export const createTag = async (type: TagType, value: string): Promise<Tag> => {
+  return db.transaction('rw', db.tags, async () => {
+    // Check if tag already exists
+    const existing = await findTagByValue(type, value);
+
+    if (existing) {
+      return existing;
+    }
+
+    // Create new tag
+    const tag: Tag = {
+      id: uuidv4(),
+      type,
+      value: value.trim(),
+      normalizedValue: normalizeTagValue(value),
+      usageCount: 0,
+      createdDate: new Date().toISOString()
+    };
+
+    await db.tags.add(tag);
+    return tag;
+  });
 };
 
 export const getTagsByType = async (type: TagType): Promise<Tag[]> => {
@@ -51,14 +99,70 @@ export const getTagsByIds = async (ids: string[]): Promise<Tag[]> => {
 
 export const searchTags = async (type: TagType, query: string): Promise<Tag[]> => {
   const allTags = await getTagsByType(type);
-  const lowerQuery = query.toLowerCase();
+  const normalizedQuery = normalizeTagValue(query);
   return allTags.filter(tag => 
-    tag.value.toLowerCase().includes(lowerQuery)
+    tag.normalizedValue.includes(normalizedQuery)
+  );
+};
+
+// ============= TAG USAGE =============
+
+// Look up references through the multi-entry indexes instead of scanning every record
+export const findTagReferences = async (id: string): Promise<TagUsage> => {
+  const rhythmKeys = await Promise.all(
+    (['primaryRhythmNameTag', ...RHYTHM_TAG_LIST_FIELDS] as const).map(field =>
+      db.rhythms.where(field).equals(id).primaryKeys()
+    )
   );
+  return {
+    rhythmIds: Array.from(new Set(rhythmKeys.flat())),
+    recordingIds: await db.recordings.where('playerNameTags').equals(id).primaryKeys()
+  };
+};
+
+/**
+ * Recount the references to the given tags and store them as usageCount.
+ * Call from inside the transaction that changed the references.
+ */
+export const refreshTagUsage = async (tagIds: Iterable<string>): Promise<void> => {
+  for (const id of new Set(tagIds)) {
+    const references = await findTagReferences(id);
+    await db.tags.update(id, { usageCount: references.rhythmIds.length + references.recordingIds.length });
+  }
+};
+
+/**
+ * Recompute every tag's usageCount from scratch.
+ * Returns the number of tags whose count changed.
+ */
+export const recomputeAllTagUsage = async (): Promise<number> => {
+  return db.transaction('rw', db.tags, db.rhythms, db.recordings, async () => {
+    const counts = countTagReferences(await db.rhythms.toArray(), await db.recordings.toArray());
+    const changed = (await db.tags.toArray()).filter(tag => tag.usageCount !== (counts.get(tag.id) ?? 0));
+    await db.tags.bulkPut(changed.map(tag => ({ ...tag, usageCount: counts.get(tag.id) ?? 0 })));
+    return changed.length;
+  });
 };
 
 // ============= RHYTHM OPERATIONS =============
 
+// Thrown by updateRhythm when the rhythm changed after the caller read it
+export class ConcurrentEditError extends Error {
+  rhythmId: string;
+
+  constructor(rhythmId: string) {
+    super('This rhythm was changed elsewhere since you started editing it');
+    this.name = 'ConcurrentEditError';
+    this.rhythmId = rhythmId;
+  }
+}
+
+// Tell other tabs once the surrounding transaction commits, so a rolled-back
+// change is never announced. Every write that changes a rhythm calls this.
+export const announceRhythmChange = (rhythmId: string): void => {
+  Dexie.currentTransaction?.on('complete', () => broadcast({ type: 'rhythm-changed', rhythmId }));
+};
+
 export const createRhythm = async (rhythm: Omit<Rhythm, 'id' | 'createdDate' | 'updatedDate'>): Promise<Rhythm> => {
   const newRhythm: Rhythm = {
     ...rhythm,
@@ -67,7 +171,11 @@ export const createRhythm = async (rhythm: Omit<Rhythm, 'id' | 'createdDate' | '
     updatedDate: new Date().toISOString()
   };
   
-  await db.rhythms.add(newRhythm);
+  await db.transaction('rw', db.tags, db.rhythms, db.recordings, db.searchIndex, async () => {
+    await db.rhythms.add(newRhythm);
+    await refreshTagUsage(rhythmTagIds(newRhythm));
+    await indexRhythms([newRhythm.id]);
+  });
   return newRhythm;
 };
 
@@ -79,29 +187,117 @@ export const getAllRhythms = async (): Promise<Rhythm[]> => {
   return db.rhythms.toArray();
 };
 
-export const updateRhythm = async (id: string, updates: Partial<Rhythm>): Promise<void> => {
-  await db.rhythms.update(id, {
-    ...updates,
-    updatedDate: new Date().toISOString()
+// Per rhythm, the updatedDates of its latest run of updates made in this tab: the
+// date the run started from, then each date it set, the current one last. Only
+// that run is kept, and only its last few steps, since an edit form left open
+// across more of its own writes than that is unlikely.
+const ownUpdates = new Map<string, string[]>();
+const MAX_OWN_UPDATES = 20;
+
+// Whether a rhythm now stored with updatedDate had expectedUpdatedDate before
+// this tab's latest own updates, if any
+const isUnchangedElsewhere = (id: string, updatedDate: string, expectedUpdatedDate: string): boolean => {
+  if (updatedDate === expectedUpdatedDate) return true;
+  const run = ownUpdates.get(id);
+  return !!run && run[run.length - 1] === updatedDate && run.includes(expectedUpdatedDate);
+};
+
+const recordOwnUpdate = (id: string, previousUpdatedDate: string, updatedDate: string): void => {
+  const run = ownUpdates.get(id);
+  const continued = run && run[run.length - 1] === previousUpdatedDate ? run : [previousUpdatedDate];
+  ownUpdates.set(id, [...continued, updatedDate].slice(-MAX_OWN_UPDATES));
+};
+
+/**
+ * Pass the updatedDate the caller's copy of the rhythm had to make the update
+ * conditional: if the stored rhythm has changed or gone since, nothing is
+ * written and a ConcurrentEditError is thrown. Changes made since by this tab
+ * alone, such as adding a recording while the rhythm is being edited, don't count.
+ */
+export const updateRhythm = async (id: string, updates: Partial<Rhythm>, expectedUpdatedDate?: string): Promise<void> => {
+  await db.transaction('rw', db.tags, db.rhythms, db.recordings, db.searchIndex, async () => {
+    const existing = await getRhythmById(id);
+    if (expectedUpdatedDate !== undefined && !(existing && isUnchangedElsewhere(id, existing.updatedDate, expectedUpdatedDate))) {
+      throw new ConcurrentEditError(id);
+    }
+
+    const updatedDate = new Date().toISOString();
+    await db.rhythms.update(id, { ...updates, updatedDate });
+    if (existing) {
+      Dexie.currentTransaction?.on('complete', () => recordOwnUpdate(id, existing.updatedDate, updatedDate));
+      await refreshTagUsage(changedTagIds(rhythmTagIds(existing), rhythmTagIds({ ...existing, ...updates })));
+    }
+    // Recording lists aren't searchable, so linking a recording needs no re-index
+    if (Object.keys(updates).some(key => key !== 'recordingIds')) {
+      await indexRhythms([id]);
+    }
+    announceRhythmChange(id);
+  });
+};
+
+/**
+ * Update a rhythm from tag values, creating the tags that don't exist yet, along
+ * with any other fields. Conditional like updateRhythm; the tags are created in
+ * the same transaction, so an update refused as a concurrent edit leaves none behind.
+ */
+export const updateRhythmTagValues = async (
+  id: string,
+  values: RhythmTagValues,
+  updates: Partial<Rhythm>,
+  expectedUpdatedDate?: string
+): Promise<void> => {
+  const tagIdsFor = async (type: TagType, tagValues: string[]) => {
+    const tagIds: string[] = [];
+    for (const value of tagValues) {
+      tagIds.push((await createTag(type, value)).id);
+    }
+    return tagIds;
+  };
+
+  await db.transaction('rw', db.tags, db.rhythms, db.recordings, db.searchIndex, async () => {
+    await updateRhythm(id, {
+      ...updates,
+      primaryRhythmNameTag: (await createTag('rhythmName', values.primaryName)).id,
+      alternateRhythmNameTags: await tagIdsFor('rhythmName', values.alternateNames),
+      regionTags: await tagIdsFor('region', values.regions),
+      ethnicGroupTags: await tagIdsFor('ethnicGroup', values.ethnicGroups),
+      occasionTags: await tagIdsFor('occasion', values.occasions),
+      languageTags: await tagIdsFor('language', values.languages)
+    }, expectedUpdatedDate);
   });
 };
 
 export const deleteRhythm = async (id: string): Promise<void> => {
-  // Delete all associated recordings first
-  const recordings = await db.recordings.where('rhythmId').equals(id).toArray();
-  await db.recordings.bulkDelete(recordings.map(r => r.id));
-  
-  // Delete the rhythm
-  await db.rhythms.delete(id);
+  await db.transaction('rw', db.tags, db.rhythms, db.recordings, db.searchIndex, async () => {
+    const rhythm = await getRhythmById(id);
+    const recordings = await db.recordings.where('rhythmId').equals(id).toArray();
+
+    // Delete all associated recordings first
+    await db.recordings.bulkDelete(recordings.map(recording => recording.id));
+
+    // Delete the rhythm
+    await db.rhythms.delete(id);
+
+    await refreshTagUsage([
+      ...(rhythm ? rhythmTagIds(rhythm) : []),
+      ...recordings.flatMap(recordingTagIds)
+    ]);
+    await indexRhythms([id]);
+    await indexRecordings(recordings.map(recording => recording.id));
+    Dexie.currentTransaction?.on('complete', () => ownUpdates.delete(id));
+    announceRhythmChange(id);
+  });
 };
 
 export const addRecordingToRhythm = async (rhythmId: string, recordingId: string): Promise<void> => {
-  const rhythm = await getRhythmById(rhythmId);
-  if (rhythm) {
-    await updateRhythm(rhythmId, {
-      recordingIds: [...rhythm.recordingIds, recordingId]
-    });
-  }
+  await db.transaction('rw', db.tags, db.rhythms, db.recordings, db.searchIndex, async () => {
+    const rhythm = await getRhythmById(rhythmId);
+    if (rhythm && !rhythm.recordingIds.includes(recordingId)) {
+      await updateRhythm(rhythmId, {
+        recordingIds: [...rhythm.recordingIds, recordingId]
+      });
+    }
+  });
 };
 
 // ============= RECORDING OPERATIONS =============
@@ -112,11 +308,20 @@ export const createRecording = async (recording: Omit<Recording, 'id'>): Promise
     id: uuidv4()
   };
   
-  await db.recordings.add(newRecording);
-  
-  // Add recording ID to parent rhythm
-  await addRecordingToRhythm(recording.rhythmId, newRecording.id);
-  
+  await db.transaction('rw', db.tags, db.rhythms, db.recordings, db.searchIndex, async () => {
+    // Throwing inside the transaction rolls back the recording as well
+    if (!await getRhythmById(recording.rhythmId)) {
+      throw new Error(`Rhythm ${recording.rhythmId} does not exist`);
+    }
+
+    await db.recordings.add(newRecording);
+
+    // Add recording ID to parent rhythm
+    await addRecordingToRhythm(recording.rhythmId, newRecording.id);
+    await refreshTagUsage(recordingTagIds(newRecording));
+    await indexRecordings([newRecording.id]);
+  });
+
   return newRecording;
 };
 
@@ -132,58 +337,144 @@ export const getAllRecordings = async (): Promise<Recording[]> => {
   return db.recordings.toArray();
 };
 
+/**
+ * Recordings matching every criterion of the filter. Starts from the most
+ * selective index (players, then date range) and checks the rest per record.
+ */
+export const findRecordings = async (filter: RecordingFilter): Promise<Recording[]> => {
+  const location = normalizeTagValue(filter.location);
+
+  const collection = filter.playerTagIds.length > 0
+    ? db.recordings.where('playerNameTags').anyOf(filter.playerTagIds).distinct()
+    : filter.fromDate || filter.toDate
+      ? db.recordings.where('recordedDate').between(filter.fromDate ?? '', `${filter.toDate ?? '9999-12-31'}\uffff`, true, true)
+      : db.recordings.toCollection();
+
+  return collection
+    .filter(recording => {
+      const date = recording.recordedDate.slice(0, 10);
+      const duration = recording.duration ?? 0;
+      return (!location || normalizeTagValue(recording.location).includes(location)) &&
+        (!filter.fromDate || date >= filter.fromDate) &&
+        (!filter.toDate || date <= filter.toDate) &&
+        (filter.minDuration === null || duration >= filter.minDuration) &&
+        (filter.maxDuration === null || duration <= filter.maxDuration) &&
+        (!filter.favoritesOnly || recording.isFavorite) &&
+        (filter.loopPoints === 'any' || (filter.loopPoints === 'with') === (recording.loopPoints !== null));
+    })
+    .toArray();
+};
+
+// Fields that feed tag usage or the search index; other updates (loop points, waveform, favorite) skip the bookkeeping
+const TRACKED_RECORDING_FIELDS: (keyof Recording)[] = ['rhythmId', 'fileName', 'location', 'notes', 'playerNameTags'];
+
 export const updateRecording = async (id: string, updates: Partial<Recording>): Promise<void> => {
-  await db.recordings.update(id, updates);
+  if (!TRACKED_RECORDING_FIELDS.some(field => field in updates)) {
+    await db.recordings.update(id, updates);
+    return;
+  }
+
+  await db.transaction('rw', db.tags, db.rhythms, db.recordings, db.searchIndex, async () => {
+    const existing = await getRecordingById(id);
+    await db.recordings.update(id, updates);
+    if (existing) {
+      await refreshTagUsage(changedTagIds(recordingTagIds(existing), recordingTagIds({ ...existing, ...updates })));
+    }
+    await indexRecordings([id]);
+  });
+};
+
+const removeRecordingFromRhythm = async (rhythmId: string, recordingId: string): Promise<void> => {
+  const rhythm = await getRhythmById(rhythmId);
+  if (rhythm) {
+    await updateRhythm(rhythm.id, {
+      recordingIds: rhythm.recordingIds.filter(rid => rid !== recordingId)
+    });
+  }
 };
 
 export const deleteRecording = async (id: string): Promise<void> => {
-  const recording = await getRecordingById(id);
-  if (recording) {
-    // Remove recording ID from parent rhythm
-    const rhythm = await getRhythmById(recording.rhythmId);
-    if (rhythm) {
-      await updateRhythm(rhythm.id, {
-        recordingIds: rhythm.recordingIds.filter(rid => rid !== id)
-      });
+  await db.transaction('rw', db.tags, db.rhythms, db.recordings, db.searchIndex, async () => {
+    const recording = await getRecordingById(id);
+    if (recording) {
+      // Remove recording ID from parent rhythm
+      await removeRecordingFromRhythm(recording.rhythmId, id);
     }
-  }
-  
-  await db.recordings.delete(id);
+
+    await db.recordings.delete(id);
+
+    if (recording) {
+      await refreshTagUsage(recordingTagIds(recording));
+    }
+    await indexRecordings([id]);
+  });
+};
+
+export const moveRecording = async (recordingId: string, targetRhythmId: string): Promise<void> => {
+  await db.transaction('rw', db.tags, db.rhythms, db.recordings, db.searchIndex, async () => {
+    const recording = await getRecordingById(recordingId);
+    if (!recording) {
+      throw new Error(`Recording ${recordingId} does not exist`);
+    }
+    if (!await getRhythmById(targetRhythmId)) {
+      throw new Error(`Rhythm ${targetRhythmId} does not exist`);
+    }
+    if (recording.rhythmId === targetRhythmId) return;
+
+    await removeRecordingFromRhythm(recording.rhythmId, recordingId);
+    await db.recordings.update(recordingId, { rhythmId: targetRhythmId });
+    await addRecordingToRhythm(targetRhythmId, recordingId);
+    await indexRecordings([recordingId]);
+  });
+};
+
+/**
+ * Replace a recording with one recording per part (audio already cut, e.g. by
+ * splitAudio). Parts keep the original's details and the clipping times that fall
+ * within them; loop points, waveform and pause markers referred to the whole
+ * recording, so they're dropped.
+ */
+export const splitRecording = async (id: string, parts: AudioSegment[]): Promise<Recording[]> => {
+  return db.transaction('rw', db.tags, db.rhythms, db.recordings, db.searchIndex, async () => {
+    const recording = await getRecordingById(id);
+    if (!recording) {
+      throw new Error(`Recording ${id} does not exist`);
+    }
+
+    const created: Recording[] = [];
+    for (const [index, part] of parts.entries()) {
+      created.push(await createRecording({
+        rhythmId: recording.rhythmId,
+        audioBlob: part.audioBlob,
+        fileName: `${recording.fileName} (${index + 1} of ${parts.length})`,
+        playerNameTags: recording.playerNameTags,
+        recordedDate: recording.recordedDate,
+        location: recording.location,
+        notes: recording.notes,
+        duration: part.duration,
+        isFavorite: index === 0 && recording.isFavorite,
+        loopPoints: null,
+        waveformData: null,
+        markers: [],
+        clipTimes: recording.clipTimes
+          .filter(time => time >= part.start && time < part.start + part.duration)
+          .map(time => time - part.start),
+        captureInfo: recording.captureInfo
+      }));
+    }
+
+    await deleteRecording(id);
+    return created;
+  });
 };
 
 // ============= SEARCH & FILTER =============
 
+// Ranked by relevance; see searchArchive for highlights and matching recordings
 export const searchRhythms = async (query: string): Promise<Rhythm[]> => {
-  const allRhythms = await getAllRhythms();
-  const lowerQuery = query.toLowerCase();
-  
-  // Get all tags for comparison
-  const allTags = await db.tags.toArray();
-  const tagMap = new Map(allTags.map(tag => [tag.id, tag.value.toLowerCase()]));
-  
-  return allRhythms.filter(rhythm => {
-    // Search in rhythm name tags
-    const rhythmNameMatches = [
-      rhythm.primaryRhythmNameTag,
-      ...rhythm.alternateRhythmNameTags
-    ].some(tagId => tagMap.get(tagId)?.includes(lowerQuery));
-    
-    // Search in other tag fields
-    const otherTagMatches = [
-      ...rhythm.regionTags,
-      ...rhythm.ethnicGroupTags,
-      ...rhythm.occasionTags,
-      ...rhythm.languageTags
-    ].some(tagId => tagMap.get(tagId)?.includes(lowerQuery));
-    
-    // Search in text fields
-    const textMatches = 
-      rhythm.lyrics.toLowerCase().includes(lowerQuery) ||
-      rhythm.lyricsTranslation.toLowerCase().includes(lowerQuery) ||
-      rhythm.notes.toLowerCase().includes(lowerQuery);
-    
-    return rhythmNameMatches || otherTagMatches || textMatches;
-  });
+  const results = await searchArchive(query);
+  const rhythms = await db.rhythms.bulkGet(results.map(result => result.rhythmId));
+  return rhythms.filter((rhythm): rhythm is Rhythm => rhythm !== undefined);
 };
 
 export const filterRhythmsByTags = async (tagIds: string[]): Promise<Rhythm[]> => {
@@ -206,142 +497,899 @@ export const filterRhythmsByTags = async (tagIds: string[]): Promise<Rhythm[]> =
   });
 };
 
-// ============= DUPLICATE REMOVAL =============
+// ============= RHYTHM SUMMARIES =============
 
-export const removeDuplicateRhythms = async (): Promise<{ removed: number; kept: number }> => {
-  const allRhythms = await getAllRhythms();
+// Resolve tags and favorite recordings for many rhythms at once: one bulk tag
+// read and one indexed recording scan, whatever the number of rhythms
+export const summarizeRhythms = async (rhythms: Rhythm[]): Promise<RhythmSummary[]> => {
+  const tagIds = Array.from(new Set(rhythms.flatMap(rhythmTagIds)));
+  const [tags, favorites] = await Promise.all([
+    db.tags.bulkGet(tagIds),
+    findFavoriteRecordings(rhythms.filter(rhythm => rhythm.recordingIds.length > 0).map(rhythm => rhythm.id))
+  ]);
+
+  const tagValues = new Map<string, string>();
+  tags.forEach(tag => {
+    if (tag) tagValues.set(tag.id, tag.value);
+  });
+  const values = (ids: string[]) => ids.flatMap(id => tagValues.get(id) ?? []);
+
+  return rhythms.map(rhythm => ({
+    rhythm,
+    name: tagValues.get(rhythm.primaryRhythmNameTag) ?? 'Unknown',
+    alternateNames: values(rhythm.alternateRhythmNameTags),
+    regions: values(rhythm.regionTags),
+    ethnicGroups: values(rhythm.ethnicGroupTags),
+    occasions: values(rhythm.occasionTags),
+    languages: values(rhythm.languageTags),
+    favoriteRecording: favorites.get(rhythm.id) ?? null
+  }));
+};
+
+// First favorite recording of each rhythm
+const findFavoriteRecordings = async (rhythmIds: string[]): Promise<Map<string, Recording>> => {
+  const favorites = new Map<string, Recording>();
+  if (rhythmIds.length === 0) return favorites;
+
+  await db.recordings.where('rhythmId').anyOf(rhythmIds).each(recording => {
+    if (recording.isFavorite && !favorites.has(recording.rhythmId)) {
+      favorites.set(recording.rhythmId, recording);
+    }
+  });
+  return favorites;
+};
+
+// Filter menu categories: the tag type their values name and the rhythm index that finds them
+const FILTER_FIELDS: Record<keyof RhythmListFilters, { type: TagType; index: typeof RHYTHM_TAG_LIST_FIELDS[number] }> = {
+  alternateNames: { type: 'rhythmName', index: 'alternateRhythmNameTags' },
+  regions: { type: 'region', index: 'regionTags' },
+  ethnicGroups: { type: 'ethnicGroup', index: 'ethnicGroupTags' },
+  occasions: { type: 'occasion', index: 'occasionTags' },
+  languages: { type: 'language', index: 'languageTags' }
+};
 
-  // Group rhythms by primary rhythm NAME (the tag value, not tag ID)
-  const grouped = new Map<string, Rhythm[]>();
+const selectedFilters = (filters: RhythmListFilters) =>
+  (Object.entries(filters) as [keyof RhythmListFilters, string[]][]).filter(([, values]) => values.length > 0);
 
-  for (const rhythm of allRhythms) {
-    // Get the actual tag to find the rhythm name
-    const tag = await getTagById(rhythm.primaryRhythmNameTag);
-    const rhythmName = tag?.value.toLowerCase().trim() || 'unknown';
+// IDs of rhythms having any selected value in every category with a selection,
+// found through the tag indexes
+const findFilteredRhythmIds = async (selected: ReturnType<typeof selectedFilters>): Promise<Set<string>> => {
+  const idLists = await Promise.all(selected.map(async ([category, values]) => {
+    const { type, index } = FILTER_FIELDS[category];
+    const tagIds = await db.tags
+      .where('[type+normalizedValue]')
+      .anyOf(values.map(value => [type, normalizeTagValue(value)]))
+      .primaryKeys();
+    return db.rhythms.where(index).anyOf(tagIds).primaryKeys();
+  }));
+  return new Set(idLists.reduce((kept, ids) => {
+    const found = new Set(ids);
+    return kept.filter(id => found.has(id));
+  }));
+};
+
+// A rhythm and its place in the list's order, which becomes the cursor when it ends a page
+interface RankedRhythm {
+  rhythm: Rhythm;
+  position: (string | number)[];
+}
 
-    const existing = grouped.get(rhythmName) || [];
-    existing.push(rhythm);
-    grouped.set(rhythmName, existing);
+// By updatedDate, rhythms sharing a date ordered by ID in the same direction
+const rhythmsByDate = async (newestFirst: boolean, after: [string, string] | null, count: number, matches: Set<string> | null): Promise<RankedRhythm[]> => {
+  let collection;
+  if (!after) {
+    collection = newestFirst ? db.rhythms.orderBy('updatedDate').reverse() : db.rhythms.orderBy('updatedDate');
+  } else {
+    const [updatedDate, id] = after;
+    collection = newestFirst
+      ? db.rhythms.where('updatedDate').belowOrEqual(updatedDate).reverse()
+        .filter(rhythm => rhythm.updatedDate < updatedDate || rhythm.id < id)
+      : db.rhythms.where('updatedDate').aboveOrEqual(updatedDate)
+        .filter(rhythm => rhythm.updatedDate > updatedDate || rhythm.id > id);
+  }
+  if (matches) {
+    collection = collection.filter(rhythm => matches.has(rhythm.id));
   }
 
-  let removed = 0;
-  let kept = 0;
+  const rhythms = await collection.limit(count).toArray();
+  return rhythms.map(rhythm => ({ rhythm, position: [rhythm.updatedDate, rhythm.id] }));
+};
 
-  // For each group, keep the most recent one and delete the rest
-  for (const [_name, rhythms] of grouped) {
-    if (rhythms.length > 1) {
-      // Sort by updatedDate descending (newest first)
-      rhythms.sort((a, b) => new Date(b.updatedDate).getTime() - new Date(a.updatedDate).getTime());
+// By the matching key of the primary name, then ID. Walks the name tags in
+// index order a batch at a time, reading only the rhythms those names head.
+const rhythmsByName = async (after: [string, string] | null, count: number, matches: Set<string> | null): Promise<RankedRhythm[]> => {
+  const found: RankedRhythm[] = [];
+  let from = after?.[0] ?? '';
+  let includeFrom = true;
 
-      // Keep the first (newest) one
-      kept++;
+  while (found.length < count) {
+    const tags = await db.tags
+      .where('[type+normalizedValue]')
+      .between(['rhythmName', from], ['rhythmName', Dexie.maxKey], includeFrom, true)
+      .limit(count)
+      .toArray();
+    if (tags.length === 0) break;
 
-      // Delete the rest
-      for (let i = 1; i < rhythms.length; i++) {
-        await db.rhythms.delete(rhythms[i].id);
-        removed++;
-      }
-    } else {
-      kept++;
+    const rhythms = await db.rhythms.where('primaryRhythmNameTag').anyOf(tags.map(tag => tag.id)).toArray();
+    for (const tag of tags) {
+      const named = rhythms
+        .filter(rhythm => rhythm.primaryRhythmNameTag === tag.id && (!matches || matches.has(rhythm.id)))
+        .filter(rhythm => !after || tag.normalizedValue !== after[0] || rhythm.id > after[1])
+        .sort((a, b) => (a.id < b.id ? -1 : 1));
+      found.push(...named.map(rhythm => ({ rhythm, position: [tag.normalizedValue, rhythm.id] })));
     }
+
+    from = tags[tags.length - 1].normalizedValue;
+    includeFrom = false;
+  }
+  return found.slice(0, count);
+};
+
+// Most recordings first, ties newest first. Counts and order come from index
+// keys alone, so no rhythm is read beyond the page.
+const rhythmsByRecordingCount = async (after: [number, string, string] | null, count: number, matches: Set<string> | null): Promise<RankedRhythm[]> => {
+  const [recordingRhythmIds, dates, ids] = await Promise.all([
+    db.recordings.orderBy('rhythmId').keys(),
+    db.rhythms.orderBy('updatedDate').reverse().keys(),
+    db.rhythms.orderBy('updatedDate').reverse().primaryKeys()
+  ]);
+
+  const counts = new Map<string, number>();
+  for (const rhythmId of recordingRhythmIds as string[]) {
+    counts.set(rhythmId, (counts.get(rhythmId) ?? 0) + 1);
+  }
+
+  // Already newest first, and the sort is stable
+  const ordered = ids
+    .map((id, i) => ({ id, updatedDate: dates[i] as string, recordings: counts.get(id) ?? 0 }))
+    .sort((a, b) => b.recordings - a.recordings);
+
+  const isAfterCursor = ({ id, updatedDate, recordings }: typeof ordered[number]) => {
+    if (!after) return true;
+    const [afterRecordings, afterDate, afterId] = after;
+    if (recordings !== afterRecordings) return recordings < afterRecordings;
+    if (updatedDate !== afterDate) return updatedDate < afterDate;
+    return id < afterId;
+  };
+
+  const page = ordered
+    .filter(entry => isAfterCursor(entry) && (!matches || matches.has(entry.id)))
+    .slice(0, count);
+  const rhythms = await db.rhythms.bulkGet(page.map(entry => entry.id));
+
+  return page.flatMap((entry, i) => {
+    const rhythm = rhythms[i];
+    return rhythm ? [{ rhythm, position: [entry.recordings, entry.updatedDate, entry.id] }] : [];
+  });
+};
+
+/**
+ * One page of rhythm summaries in the list's sort, holding only rhythms that
+ * pass its tag filters. Relevance only ranks search results, so without a
+ * search it lists most recently updated first.
+ * The cursor is opaque; it records the last rhythm returned, so rhythms added
+ * between pages don't shift later pages. It is only valid for the same query.
+ */
+export const getRhythmSummaryPage = async (query: RhythmListQuery, cursor: string | null = null, pageSize = 50): Promise<RhythmSummaryPage> => {
+  // Awaited only when there is a lookup to make: a live query stops noticing what
+  // it reads after awaiting a promise that Dexie didn't create
+  const selected = selectedFilters(query.filters);
+  const matches = selected.length > 0 ? await findFilteredRhythmIds(selected) : null;
+  const after = cursor ? JSON.parse(cursor) : null;
+
+  // One extra row tells us whether there is another page
+  let ranked: RankedRhythm[];
+  switch (query.sort) {
+    case 'name-asc':
+      ranked = await rhythmsByName(after, pageSize + 1, matches);
+      break;
+    case 'recordings':
+      ranked = await rhythmsByRecordingCount(after, pageSize + 1, matches);
+      break;
+    case 'date-oldest':
+      ranked = await rhythmsByDate(false, after, pageSize + 1, matches);
+      break;
+    default:
+      ranked = await rhythmsByDate(true, after, pageSize + 1, matches);
   }
 
-  return { removed, kept };
+  const page = ranked.slice(0, pageSize);
+  return {
+    summaries: await summarizeRhythms(page.map(({ rhythm }) => rhythm)),
+    nextCursor: ranked.length > pageSize ? JSON.stringify(page[page.length - 1].position) : null
+  };
+};
+
+// Summaries of the given rhythms in the given order, skipping any that no longer exist
+export const getRhythmSummariesByIds = async (ids: string[]): Promise<RhythmSummary[]> => {
+  const rhythms = await db.rhythms.bulkGet(ids);
+  return summarizeRhythms(rhythms.filter((rhythm): rhythm is Rhythm => rhythm !== undefined));
+};
+
+/**
+ * Tag values that rhythms actually use, per filter of the rhythm list. Read from
+ * the keys of the tag indexes, so it costs one read per distinct tag rather than
+ * one per rhythm.
+ */
+export const getRhythmFilterOptions = async (): Promise<RhythmListFilters> => {
+  const valuesOf = async (field: typeof RHYTHM_TAG_LIST_FIELDS[number]) => {
+    const tagIds = (await db.rhythms.orderBy(field).uniqueKeys()) as string[];
+    return Array.from(new Set((await getTagsByIds(tagIds)).map(tag => tag.value))).sort();
+  };
+
+  const [alternateNames, regions, ethnicGroups, occasions, languages] = await Promise.all(
+    (['alternateRhythmNameTags', 'regionTags', 'ethnicGroupTags', 'occasionTags', 'languageTags'] as const).map(valuesOf)
+  );
+  return { alternateNames, regions, ethnicGroups, occasions, languages };
+};
+
+// ============= STATISTICS =============
+
+export const getDatabaseStats = async (): Promise<DatabaseStats> => {
+  const [rhythms, recordings, tags] = await Promise.all([db.rhythms.count(), db.recordings.count(), db.tags.count()]);
+  return { rhythms, recordings, tags };
+};
+
+// ============= SAVED SEARCHES =============
+
+export const createSavedSearch = async (
+  search: Omit<SavedSearch, 'id' | 'createdDate' | 'updatedDate'>
+): Promise<SavedSearch> => {
+  const newSearch: SavedSearch = {
+    ...search,
+    name: search.name.trim(),
+    id: uuidv4(),
+    createdDate: new Date().toISOString(),
+    updatedDate: new Date().toISOString()
+  };
+
+  await db.savedSearches.add(newSearch);
+  return newSearch;
+};
+
+export const getSavedSearchById = async (id: string): Promise<SavedSearch | undefined> => {
+  return db.savedSearches.get(id);
+};
+
+export const getAllSavedSearches = async (): Promise<SavedSearch[]> => {
+  return db.savedSearches.orderBy('name').toArray();
+};
+
+export const updateSavedSearch = async (
+  id: string,
+  updates: Partial<Omit<SavedSearch, 'id' | 'createdDate' | 'updatedDate'>>
+): Promise<void> => {
+  await db.savedSearches.update(id, {
+    ...updates,
+    ...(updates.name !== undefined && { name: updates.name.trim() }),
+    updatedDate: new Date().toISOString()
+  });
+};
+
+export const deleteSavedSearch = async (id: string): Promise<void> => {
+  await db.savedSearches.delete(id);
+};
+
+// ============= RECORDING SESSIONS =============
+
+export const startRecordingSession = async (mimeType: string, captureInfo: CaptureInfo | null): Promise<RecordingSession> => {
+  const session: RecordingSession = {
+    id: uuidv4(),
+    startedDate: new Date().toISOString(),
+    mimeType,
+    duration: 0,
+    markers: [],
+    clipTimes: [],
+    captureInfo
+  };
+
+  await db.recordingSessions.add(session);
+  return session;
+};
+
+export const appendRecordingChunk = async (sessionId: string, index: number, data: Blob): Promise<void> => {
+  await db.recordingChunks.put({ sessionId, index, data });
+};
+
+export const updateRecordingSession = async (
+  id: string,
+  updates: Partial<Pick<RecordingSession, 'duration' | 'markers' | 'clipTimes'>>
+): Promise<void> => {
+  await db.recordingSessions.update(id, updates);
+};
+
+// Held by the tab a session is live in, recording or being saved after recovery.
+// The browser releases a tab's locks when it closes or crashes.
+const sessionLockName = (id: string) => `recording-session:${id}`;
+
+/**
+ * Mark a session as live in this tab so no other tab offers to recover it.
+ * Resolves to a function that gives it up again, or null if another tab has it.
+ * Browsers without Web Locks can't tell, so every session is treated as free.
+ */
+export const claimRecordingSession = (id: string): Promise<(() => void) | null> => {
+  if (!('locks' in navigator)) return Promise.resolve(() => {});
+
+  return new Promise((resolve, reject) => {
+    navigator.locks
+      .request(sessionLockName(id), { ifAvailable: true }, lock => {
+        if (!lock) {
+          resolve(null);
+          return;
+        }
+        // Held until the returned function is called
+        return new Promise<void>(release => resolve(release));
+      })
+      .catch(reject);
+  });
+};
+
+// Sessions that were never saved as a recording or discarded, and aren't live
+// in any open tab, oldest first
+export const getUnfinishedRecordingSessions = async (): Promise<RecordingSession[]> => {
+  const held = 'locks' in navigator
+    ? new Set(((await navigator.locks.query()).held ?? []).map(lock => lock.name))
+    : new Set<string>();
+  const sessions = await db.recordingSessions.orderBy('startedDate').toArray();
+  return sessions.filter(session => !held.has(sessionLockName(session.id)));
+};
+
+// The session's audio so far, from its saved chunks in order
+export const getRecordingSessionAudio = async (session: RecordingSession): Promise<Blob> => {
+  const chunks = await db.recordingChunks
+    .where('[sessionId+index]')
+    .between([session.id, Dexie.minKey], [session.id, Dexie.maxKey])
+    .toArray();
+  return new Blob(chunks.map(chunk => chunk.data), { type: session.mimeType });
+};
+
+export const discardRecordingSession = async (id: string): Promise<void> => {
+  await db.transaction('rw', db.recordingSessions, db.recordingChunks, async () => {
+    await db.recordingChunks
+      .where('[sessionId+index]')
+      .between([id, Dexie.minKey], [id, Dexie.maxKey])
+      .delete();
+    await db.recordingSessions.delete(id);
+  });
+};
+
+// Save a session's audio as a recording and discard the session in one
+// transaction, so the audio ends up in exactly one of them
+export const saveRecordingSession = async (sessionId: string, recording: Omit<Recording, 'id'>): Promise<Recording> => {
+  return db.transaction('rw', [db.tags, db.rhythms, db.recordings, db.searchIndex, db.recordingSessions, db.recordingChunks], async () => {
+    const saved = await createRecording(recording);
+    await discardRecordingSession(sessionId);
+    return saved;
+  });
 };
 
 // ============= EXPORT & IMPORT =============
 
-export const exportAllData = async (): Promise<void> => {
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav'
+};
+
+const audioFileName = (recordingId: string, mimeType: string): string => {
+  const baseType = mimeType.split(';')[0].trim().toLowerCase();
+  return `audio/${recordingId}.${AUDIO_EXTENSIONS[baseType] ?? 'bin'}`;
+};
+
+/**
+ * Build a .zip archive containing manifest.json and one raw audio file per recording.
+ */
+export const buildExportArchive = async (): Promise<Blob> => {
   const tags = await db.tags.toArray();
   const rhythms = await getAllRhythms();
-  const recordings = await getAllRecordings();
-
-  // Convert audio blobs to base64 for export
-  const recordingsWithBase64 = await Promise.all(
-    recordings.map(async (recording) => {
-      if (recording.audioBlob) {
-        const arrayBuffer = await recording.audioBlob.arrayBuffer();
-        const base64 = btoa(
-          new Uint8Array(arrayBuffer).reduce((data, byte) => data + String.fromCharCode(byte), '')
-        );
-        return {
-          ...recording,
-          audioBlob: null,
-          audioBase64: base64,
-          audioBlobType: recording.audioBlob.type
-        };
-      }
-      return recording;
-    })
-  );
+  const zip = new ZipWriter();
+  const archivedRecordings: ArchivedRecording[] = [];
+
+  // Blobs read from IndexedDB are disk-backed handles; each one is streamed
+  // once for its checksum and then referenced by the archive, never copied.
+  for (const recording of await getAllRecordings()) {
+    const { audioBlob, ...rest } = recording;
+    const audioFile = audioBlob ? audioFileName(recording.id, audioBlob.type) : null;
 
-  const exportData = {
-    version: '1.0',
+    if (audioBlob && audioFile) {
+      await zip.addFile(audioFile, audioBlob);
+    }
+    archivedRecordings.push({ ...rest, audioFile, audioBlobType: audioBlob?.type || null });
+  }
+
+  const manifest: ArchiveManifest = {
+    version: CURRENT_EXPORT_VERSION,
     exportDate: new Date().toISOString(),
     tags,
     rhythms,
-    recordings: recordingsWithBase64
+    recordings: archivedRecordings,
+    savedSearches: await db.savedSearches.toArray()
   };
+  await zip.addFile('manifest.json', JSON.stringify(manifest));
 
-  const dataStr = JSON.stringify(exportData, null, 2);
-  const dataBlob = new Blob([dataStr], { type: 'application/json' });
-  const url = URL.createObjectURL(dataBlob);
+  return zip.finish();
+};
+
+export const exportAllData = async (): Promise<void> => {
+  const archive = await buildExportArchive();
+  const url = URL.createObjectURL(archive);
 
   const link = document.createElement('a');
   link.href = url;
-  link.download = `rhythm-archive-export-${new Date().toISOString().split('T')[0]}.json`;
+  link.download = `rhythm-archive-export-${new Date().toISOString().split('T')[0]}.zip`;
   link.click();
 
-  URL.revokeObjectURL(url);
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
 };
 
-export const importAllData = async (file: File): Promise<{ success: boolean; message: string }> => {
-  try {
-    const text = await file.text();
-    const data = JSON.parse(text);
+const emptyEntityReport = (): ImportEntityReport => ({
+  added: [],
+  updated: [],
+  skipped: [],
+  conflicts: []
+});
+
+const decodeBase64Audio = (base64: string, type: string): Blob => {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+};
+
+const uniqueIds = (ids: string[]): string[] => Array.from(new Set(ids));
+
+const unionIds = (a: string[], b: string[]): string[] => uniqueIds([...a, ...b]);
+
+const sameIds = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every(id => b.includes(id));
+
+const remapRhythmTags = (rhythm: Rhythm, remap: (id: string) => string): Rhythm => ({
+  ...rhythm,
+  primaryRhythmNameTag: remap(rhythm.primaryRhythmNameTag),
+  alternateRhythmNameTags: uniqueIds(rhythm.alternateRhythmNameTags.map(remap)),
+  regionTags: uniqueIds(rhythm.regionTags.map(remap)),
+  ethnicGroupTags: uniqueIds(rhythm.ethnicGroupTags.map(remap)),
+  occasionTags: uniqueIds(rhythm.occasionTags.map(remap)),
+  languageTags: uniqueIds(rhythm.languageTags.map(remap))
+});
+
+/**
+ * Match imported tags against the database without writing anything.
+ * Tags are matched by ID first, then by type and normalized value; matches by
+ * value are remapped to the local (or first imported) tag ID. An imported tag
+ * whose ID is taken by a different local tag is added under a new ID, so the
+ * imported records keep their own tag.
+ */
+const resolveImportedTags = async (tags: Tag[]): Promise<{
+  toAdd: Tag[];
+  skipped: string[];
+  conflicts: ImportConflict[];
+  remappedTagIds: Record<string, string>;
+}> => {
+  const toAdd: Tag[] = [];
+  const skipped: string[] = [];
+  const conflicts: ImportConflict[] = [];
+  const remappedTagIds: Record<string, string> = {};
+  const addedByKey = new Map<string, Tag>();
+
+  for (const tag of tags) {
+    const byId = await db.tags.get(tag.id);
+    if (byId && byId.type === tag.type && byId.value === tag.value) {
+      skipped.push(tag.id);
+      continue;
+    }
+
+    const key = `${tag.type}:${tag.normalizedValue}`;
+    const byValue = (await findTagByValue(tag.type, tag.value)) ?? addedByKey.get(key);
+    if (byValue) {
+      remappedTagIds[tag.id] = byValue.id;
+      skipped.push(tag.id);
+      continue;
+    }
 
-    if (!data.version || !data.tags || !data.rhythms || !data.recordings) {
-      return { success: false, message: 'Invalid export file format' };
+    let added = tag;
+    if (byId) {
+      added = { ...tag, id: uuidv4() };
+      remappedTagIds[tag.id] = added.id;
+      conflicts.push({
+        id: tag.id,
+        reason: `Tag ID already used for ${byId.type} "${byId.value}"; imported "${tag.value}" added under a new ID`,
+        resolution: 'rekeyed-imported'
+      });
     }
 
-    // Clear existing data
+    addedByKey.set(key, added);
+    toAdd.push(added);
+  }
+
+  return { toAdd, skipped, conflicts, remappedTagIds };
+};
+
+const isNewerThan = (a: { updatedDate: string }, b: { updatedDate: string }): boolean =>
+  new Date(a.updatedDate).getTime() > new Date(b.updatedDate).getTime();
+
+// Rhythms keep the updatedDate they were exported with, so one only matches an
+// edit's base date when it's the very version being edited
+const replaceAllData = async (payload: ImportPayload): Promise<void> => {
+  await db.transaction('rw', [db.tags, db.rhythms, db.recordings, db.searchIndex, db.savedSearches], async () => {
+    const replacedRhythmIds = (await db.rhythms.toCollection().primaryKeys()) as string[];
     await db.tags.clear();
     await db.rhythms.clear();
     await db.recordings.clear();
+    await db.savedSearches.clear();
 
-    // Import tags
-    await db.tags.bulkAdd(data.tags);
+    await db.tags.bulkAdd(payload.tags);
+    await db.rhythms.bulkAdd(payload.rhythms);
+    await db.recordings.bulkAdd(payload.recordings);
+    await db.savedSearches.bulkAdd(payload.savedSearches);
 
-    // Import rhythms
-    await db.rhythms.bulkAdd(data.rhythms);
+    // Counts in the file may be stale; derive them from what was imported
+    await recomputeAllTagUsage();
+    await rebuildSearchIndex();
+    new Set([...replacedRhythmIds, ...payload.rhythms.map(rhythm => rhythm.id)]).forEach(announceRhythmChange);
+  });
+};
 
-    // Import recordings, converting base64 back to blobs
-    const recordingsWithBlobs = data.recordings.map((recording: any) => {
-      if (recording.audioBase64) {
-        const binaryString = atob(recording.audioBase64);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
+/**
+ * Merge imported data into the existing database without deleting anything.
+ * Tags are matched by ID, then by type and normalized value; rhythms, recordings
+ * and saved searches by ID. When a rhythm or saved search exists on both sides
+ * the newer updatedDate wins, and a rhythm's recordingIds are unioned. Which
+ * side actually changed since the two last matched isn't recorded, so rhythms
+ * that differ are reported as newer in the import or newer locally.
+ */
+export const mergeImportData = async (payload: ImportPayload): Promise<ImportReport> => {
+  const report: ImportReport = {
+    tags: emptyEntityReport(),
+    rhythms: emptyEntityReport(),
+    recordings: emptyEntityReport(),
+    savedSearches: emptyEntityReport(),
+    remappedTagIds: {}
+  };
+
+  await db.transaction('rw', [db.tags, db.rhythms, db.recordings, db.searchIndex, db.savedSearches], async () => {
+    // Tags
+    const resolved = await resolveImportedTags(payload.tags);
+    await db.tags.bulkAdd(resolved.toAdd);
+    report.tags.added = resolved.toAdd.map(tag => tag.id);
+    report.tags.skipped = resolved.skipped;
+    report.tags.conflicts = resolved.conflicts;
+    report.remappedTagIds = resolved.remappedTagIds;
+
+    const remapTag = (id: string) => report.remappedTagIds[id] ?? id;
+
+    // Rhythms
+    for (const imported of payload.rhythms) {
+      const rhythm = remapRhythmTags(imported, remapTag);
+      const local = await db.rhythms.get(rhythm.id);
+
+      if (!local) {
+        await db.rhythms.add(rhythm);
+        report.rhythms.added.push(rhythm.id);
+        continue;
+      }
+
+      const recordingIds = unionIds(local.recordingIds, rhythm.recordingIds);
+      if (isNewerThan(rhythm, local)) {
+        await db.rhythms.put({ ...rhythm, recordingIds });
+        report.rhythms.updated.push(rhythm.id);
+        report.rhythms.conflicts.push({
+          id: rhythm.id,
+          reason: 'Newer in import; imported version replaced the local one',
+          resolution: 'took-imported'
+        });
+      } else if (!sameIds(recordingIds, local.recordingIds)) {
+        // Keep local fields but pick up recordings only known to the import
+        await db.rhythms.update(local.id, { recordingIds });
+        report.rhythms.updated.push(rhythm.id);
+        if (rhythm.updatedDate !== local.updatedDate) {
+          report.rhythms.conflicts.push({
+            id: rhythm.id,
+            reason: 'Newer on this device; kept the local version and added imported recordings',
+            resolution: 'kept-local'
+          });
         }
-        const blob = new Blob([bytes], { type: recording.audioBlobType || 'audio/webm' });
+      } else {
+        report.rhythms.skipped.push(rhythm.id);
+      }
+    }
+
+    // Recordings
+    const recordingParentIds: string[] = [];
+    for (const imported of payload.recordings) {
+      const recording: Recording = {
+        ...imported,
+        playerNameTags: uniqueIds(imported.playerNameTags.map(remapTag))
+      };
 
-        const { audioBase64, audioBlobType, ...recordingWithoutBase64 } = recording;
-        return {
-          ...recordingWithoutBase64,
-          audioBlob: blob
-        };
+      if (await db.recordings.get(recording.id)) {
+        report.recordings.skipped.push(recording.id);
+        continue;
       }
-      return recording;
+
+      await db.recordings.add(recording);
+      report.recordings.added.push(recording.id);
+
+      // Make sure the parent rhythm points at the recording
+      const parent = await db.rhythms.get(recording.rhythmId);
+      if (parent && !parent.recordingIds.includes(recording.id)) {
+        await db.rhythms.update(parent.id, {
+          recordingIds: [...parent.recordingIds, recording.id]
+        });
+        recordingParentIds.push(parent.id);
+      }
+    }
+
+    new Set([...report.rhythms.added, ...report.rhythms.updated, ...recordingParentIds]).forEach(announceRhythmChange);
+
+    // Saved searches
+    for (const search of payload.savedSearches) {
+      const local = await db.savedSearches.get(search.id);
+      if (!local) {
+        await db.savedSearches.add(search);
+        report.savedSearches.added.push(search.id);
+      } else if (isNewerThan(search, local)) {
+        await db.savedSearches.put(search);
+        report.savedSearches.updated.push(search.id);
+      } else {
+        report.savedSearches.skipped.push(search.id);
+      }
+    }
+
+    await recomputeAllTagUsage();
+    await rebuildSearchIndex();
+  });
+
+  return report;
+};
+
+const describeEntityReport = (label: string, entity: ImportEntityReport): string => {
+  const parts = [`${entity.added.length} added`];
+  if (entity.updated.length > 0) parts.push(`${entity.updated.length} updated`);
+  if (entity.skipped.length > 0) parts.push(`${entity.skipped.length} unchanged`);
+  if (entity.conflicts.length > 0) parts.push(`${entity.conflicts.length} conflicts`);
+  return `${label}: ${parts.join(', ')}`;
+};
+
+export const summarizeImportReport = (report: ImportReport): string => {
+  return [
+    describeEntityReport('Tags', report.tags),
+    describeEntityReport('Rhythms', report.rhythms),
+    describeEntityReport('Recordings', report.recordings),
+    describeEntityReport('Saved searches', report.savedSearches)
+  ].join('\n');
+};
+
+const RHYTHM_TAG_FIELDS: { field: keyof Rhythm; label: string }[] = [
+  { field: 'primaryRhythmNameTag', label: 'Name' },
+  { field: 'alternateRhythmNameTags', label: 'Alternate names' },
+  { field: 'regionTags', label: 'Regions' },
+  { field: 'ethnicGroupTags', label: 'Ethnic groups' },
+  { field: 'occasionTags', label: 'Occasions' },
+  { field: 'languageTags', label: 'Languages' }
+];
+
+const RHYTHM_TEXT_FIELDS: { field: 'lyrics' | 'lyricsTranslation' | 'notes'; label: string }[] = [
+  { field: 'lyrics', label: 'Lyrics' },
+  { field: 'lyricsTranslation', label: 'Lyrics translation' },
+  { field: 'notes', label: 'Notes' }
+];
+
+/**
+ * Work out what mergeImportData would do with this payload, without writing anything.
+ */
+export const previewImport = async (payload: ImportPayload): Promise<ImportPreview> => {
+  const resolved = await resolveImportedTags(payload.tags);
+  const remapTag = (id: string) => resolved.remappedTagIds[id] ?? id;
+
+  const tagValues = new Map<string, string>();
+  (await db.tags.toArray()).forEach(tag => tagValues.set(tag.id, tag.value));
+  resolved.toAdd.forEach(tag => tagValues.set(tag.id, tag.value));
+  const describeTags = (value: string | string[]) =>
+    (Array.isArray(value) ? value : [value]).map(id => tagValues.get(id) ?? 'Unknown').join(', ');
+
+  const preview: ImportPreview = {
+    newRhythms: [],
+    changedRhythms: [],
+    unchangedRhythmCount: 0,
+    newRecordings: [],
+    newTagCount: resolved.toAdd.length,
+    newSavedSearchCount: (await db.savedSearches.bulkGet(payload.savedSearches.map(search => search.id)))
+      .filter(local => !local).length,
+    totalAudioBytes: 0
+  };
+
+  const existingRecordingIds = new Set(await db.recordings.toCollection().primaryKeys());
+  const importedRecordingIds = new Set(
+    payload.recordings.filter(r => !existingRecordingIds.has(r.id)).map(r => r.id)
+  );
+  const rhythmNames = new Map<string, string>();
+
+  for (const imported of payload.rhythms) {
+    const rhythm = remapRhythmTags(imported, remapTag);
+    const name = describeTags(rhythm.primaryRhythmNameTag);
+    rhythmNames.set(rhythm.id, name);
+    const newRecordingIds = rhythm.recordingIds.filter(id => importedRecordingIds.has(id));
+    const local = await db.rhythms.get(rhythm.id);
+
+    if (!local) {
+      preview.newRhythms.push({ id: rhythm.id, name, changes: [], newRecordingIds });
+      continue;
+    }
+
+    const localName = describeTags(local.primaryRhythmNameTag);
+    rhythmNames.set(rhythm.id, localName);
+    const changes: RhythmFieldChange[] = [];
+    if (isNewerThan(rhythm, local)) {
+      for (const { field, label } of RHYTHM_TAG_FIELDS) {
+        const before = describeTags(local[field] as string | string[]);
+        const after = describeTags(rhythm[field] as string | string[]);
+        if (before !== after) changes.push({ field, label, before, after });
+      }
+      for (const { field, label } of RHYTHM_TEXT_FIELDS) {
+        if (local[field] !== rhythm[field]) {
+          changes.push({ field, label, before: local[field], after: rhythm[field] });
+        }
+      }
+    }
+
+    if (changes.length > 0 || newRecordingIds.length > 0) {
+      preview.changedRhythms.push({ id: rhythm.id, name: localName, changes, newRecordingIds });
+    } else {
+      preview.unchangedRhythmCount++;
+    }
+  }
+
+  for (const recording of payload.recordings) {
+    if (existingRecordingIds.has(recording.id)) continue;
+
+    let rhythmName = rhythmNames.get(recording.rhythmId);
+    if (rhythmName === undefined) {
+      const parent = await db.rhythms.get(recording.rhythmId);
+      rhythmName = parent ? describeTags(parent.primaryRhythmNameTag) : 'Unknown';
+    }
+
+    const audioSize = recording.audioBlob?.size ?? 0;
+    preview.totalAudioBytes += audioSize;
+    preview.newRecordings.push({
+      id: recording.id,
+      rhythmId: recording.rhythmId,
+      rhythmName,
+      fileName: recording.fileName,
+      recordedDate: recording.recordedDate,
+      audioSize
     });
+  }
 
-    await db.recordings.bulkAdd(recordingsWithBlobs);
+  return preview;
+};
 
+/**
+ * Drop the given rhythms from a payload, along with their recordings and any
+ * tags that are no longer referenced by what remains.
+ */
+export const filterImportPayload = (payload: ImportPayload, excludedRhythmIds: Set<string>): ImportPayload => {
+  if (excludedRhythmIds.size === 0) return payload;
+
+  const rhythms = payload.rhythms.filter(rhythm => !excludedRhythmIds.has(rhythm.id));
+  const recordings = payload.recordings.filter(recording => !excludedRhythmIds.has(recording.rhythmId));
+
+  const usedTagIds = new Set<string>();
+  for (const rhythm of rhythms) {
+    [
+      rhythm.primaryRhythmNameTag,
+      ...rhythm.alternateRhythmNameTags,
+      ...rhythm.regionTags,
+      ...rhythm.ethnicGroupTags,
+      ...rhythm.occasionTags,
+      ...rhythm.languageTags
+    ].forEach(id => usedTagIds.add(id));
+  }
+  recordings.forEach(recording => recording.playerNameTags.forEach(id => usedTagIds.add(id)));
+
+  return {
+    tags: payload.tags.filter(tag => usedTagIds.has(tag.id)),
+    rhythms,
+    recordings,
+    savedSearches: payload.savedSearches
+  };
+};
+
+// Migrate and validate raw export data; throws ExportValidationError with every problem found
+const parseExportData = (raw: unknown): { migrated: RawExport; data: ValidatedExport } => {
+  const migrated = migrateExport(raw);
+  const { data, issues } = validateExport(migrated);
+  if (!data) {
+    throw new ExportValidationError(issues);
+  }
+  return { migrated, data };
+};
+
+const readLegacyJson = async (file: File): Promise<ImportPayload> => {
+  const { migrated, data } = parseExportData(JSON.parse(await file.text()));
+
+  // Validated records keep the file order, so audio can be looked up by index
+  const recordings = data.recordings.map((recording, index): Recording => {
+    const { audioBase64, audioBlobType } = migrated.recordings[index];
+    return {
+      ...recording,
+      audioBlob: typeof audioBase64 === 'string' && audioBase64
+        ? decodeBase64Audio(audioBase64, typeof audioBlobType === 'string' && audioBlobType ? audioBlobType : 'audio/webm')
+        : null
+    };
+  });
+
+  return { tags: data.tags, rhythms: data.rhythms, recordings, savedSearches: data.savedSearches };
+};
+
+const readArchive = async (file: File): Promise<ImportPayload> => {
+  const entries = await readZipEntries(file);
+  const manifestEntry = entries.get('manifest.json');
+  if (!manifestEntry) {
+    throw new Error('Archive is missing manifest.json');
+  }
+
+  const { migrated, data } = parseExportData(JSON.parse(await manifestEntry.text()));
+
+  const recordings = data.recordings.map((recording, index): Recording => {
+    const { audioFile, audioBlobType } = migrated.recordings[index];
+    if (typeof audioFile !== 'string' || !audioFile) {
+      return { ...recording, audioBlob: null };
+    }
+
+    const entry = entries.get(audioFile);
+    if (!entry) {
+      throw new Error(`Archive is missing audio file ${audioFile}`);
+    }
+    const type = typeof audioBlobType === 'string' && audioBlobType ? audioBlobType : 'audio/webm';
+    return { ...recording, audioBlob: entry.slice(0, entry.size, type) };
+  });
+
+  return { tags: data.tags, rhythms: data.rhythms, recordings, savedSearches: data.savedSearches };
+};
+
+/**
+ * Read a .zip archive or legacy .json export into validated, database-ready records.
+ */
+export const readImportFile = async (file: File): Promise<ImportPayload> => {
+  return await isZipFile(file) ? readArchive(file) : readLegacyJson(file);
+};
+
+export const importAllData = async (
+  file: File,
+  mode: ImportMode = 'merge'
+): Promise<{ success: boolean; message: string; report?: ImportReport; issues?: ExportValidationIssue[] }> => {
+  try {
+    // Everything is read and decoded before the write transaction opens;
+    // awaiting anything other than Dexie inside it would commit it early.
+    const payload = await readImportFile(file);
+
+    if (mode === 'replace') {
+      await replaceAllData(payload);
+      return {
+        success: true,
+        message: `Successfully imported ${payload.tags.length} tags, ${payload.rhythms.length} rhythms, ${payload.recordings.length} recordings, and ${payload.savedSearches.length} saved searches`
+      };
+    }
+
+    const report = await mergeImportData(payload);
     return {
       success: true,
-      message: `Successfully imported ${data.tags.length} tags, ${data.rhythms.length} rhythms, and ${data.recordings.length} recordings`
+      message: `Merged import complete\n\n${summarizeImportReport(report)}`,
+      report
     };
   } catch (error) {
     console.error('Import error:', error);
+    if (error instanceof ExportValidationError) {
+      return { success: false, message: `Import failed: ${error.message}`, issues: error.issues };
+    }
     return {
       success: false,
       message: `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`
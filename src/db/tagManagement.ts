@@ -0,0 +1,140 @@
+import { db } from './schema';
+import type { Rhythm, Recording, TagUsage } from '../types';
+import { RHYTHM_TAG_LIST_FIELDS, rhythmTagIds, recordingTagIds } from './tagUsage';
+import { findTagByValue, findTagReferences, refreshTagUsage, announceRhythmChange } from './storage';
+import { indexRhythms, indexRecordings } from './searchIndex';
+import { normalizeTagValue } from '../utils/nameSimilarity';
+
+/**
+ * Collect the rhythms and recordings that reference each tag.
+ * Tags that are never referenced have no entry.
+ */
+export const collectTagUsage = (rhythms: Rhythm[], recordings: Recording[]): Map<string, TagUsage> => {
+  const usage = new Map<string, TagUsage>();
+  const entryFor = (tagId: string) => {
+    let entry = usage.get(tagId);
+    if (!entry) {
+      entry = { rhythmIds: [], recordingIds: [] };
+      usage.set(tagId, entry);
+    }
+    return entry;
+  };
+
+  for (const rhythm of rhythms) {
+    for (const tagId of rhythmTagIds(rhythm)) {
+      entryFor(tagId).rhythmIds.push(rhythm.id);
+    }
+  }
+  for (const recording of recordings) {
+    for (const tagId of recordingTagIds(recording)) {
+      entryFor(tagId).recordingIds.push(recording.id);
+    }
+  }
+
+  return usage;
+};
+
+/**
+ * Rename a tag in place. Every rhythm and recording keeps pointing at the same tag ID,
+ * so the new name shows up everywhere. Throws if another tag of the same type
+ * already has the new name; merge the two tags instead.
+ */
+export const renameTag = async (id: string, value: string): Promise<void> => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    throw new Error('Tag name cannot be empty');
+  }
+
+  await db.transaction('rw', db.tags, db.rhythms, db.recordings, db.searchIndex, async () => {
+    const tag = await db.tags.get(id);
+    if (!tag) {
+      throw new Error(`Tag ${id} does not exist`);
+    }
+
+    const clash = await findTagByValue(tag.type, trimmed);
+    if (clash && clash.id !== id) {
+      throw new Error(`A ${tag.type} tag named "${trimmed}" already exists`);
+    }
+
+    await db.tags.update(id, { value: trimmed, normalizedValue: normalizeTagValue(trimmed) });
+
+    // The rhythms keep the same tag ID but now show another name, so they count
+    // as changed: an edit opened before the rename mustn't save the old name back
+    const references = await findTagReferences(id);
+    await db.rhythms.where(':id').anyOf(references.rhythmIds).modify({ updatedDate: new Date().toISOString() });
+    await indexRhythms(references.rhythmIds);
+    await indexRecordings(references.recordingIds);
+    references.rhythmIds.forEach(announceRhythmChange);
+  });
+};
+
+const replaceIds = (ids: string[], replaced: Set<string>, targetId: string): string[] =>
+  Array.from(new Set(ids.map(id => (replaced.has(id) ? targetId : id))));
+
+/**
+ * Merge several tags of the same type into one in a single transaction.
+ * Every rhythm and recording that referenced a source tag is rewritten to the
+ * target tag (without duplicates), then the source tags are deleted.
+ */
+export const mergeTags = async (targetId: string, sourceIds: string[]): Promise<void> => {
+  const replaced = new Set(sourceIds.filter(id => id !== targetId));
+  if (replaced.size === 0) return;
+
+  await db.transaction('rw', db.tags, db.rhythms, db.recordings, db.searchIndex, async () => {
+    const tags = await db.tags.bulkGet([targetId, ...replaced]);
+    const target = tags[0];
+    if (!target || tags.some(tag => !tag)) {
+      throw new Error('One of the tags to merge no longer exists');
+    }
+    if (tags.some(tag => tag!.type !== target.type)) {
+      throw new Error('Only tags of the same type can be merged');
+    }
+
+    const rhythms = await db.rhythms.toArray();
+    const changedRhythms: Rhythm[] = [];
+    const updatedDate = new Date().toISOString();
+    for (const rhythm of rhythms) {
+      if (!rhythmTagIds(rhythm).some(id => replaced.has(id))) continue;
+
+      const updated: Rhythm = { ...rhythm, updatedDate };
+      if (replaced.has(updated.primaryRhythmNameTag)) {
+        updated.primaryRhythmNameTag = targetId;
+      }
+      for (const field of RHYTHM_TAG_LIST_FIELDS) {
+        updated[field] = replaceIds(updated[field], replaced, targetId);
+      }
+      // A name can't be both the primary and an alternate
+      updated.alternateRhythmNameTags = updated.alternateRhythmNameTags.filter(id => id !== updated.primaryRhythmNameTag);
+      changedRhythms.push(updated);
+    }
+
+    const recordings = await db.recordings.where('playerNameTags').anyOf([...replaced]).distinct().toArray();
+    for (const recording of recordings) {
+      await db.recordings.update(recording.id, {
+        playerNameTags: replaceIds(recording.playerNameTags, replaced, targetId)
+      });
+    }
+
+    await db.rhythms.bulkPut(changedRhythms);
+
+    await db.tags.bulkDelete([...replaced]);
+    await refreshTagUsage([targetId]);
+    await indexRhythms(changedRhythms.map(rhythm => rhythm.id));
+    await indexRecordings(recordings.map(recording => recording.id));
+    changedRhythms.forEach(rhythm => announceRhythmChange(rhythm.id));
+  });
+};
+
+/**
+ * Delete a tag that nothing references. Throws if the tag is still in use.
+ */
+export const deleteUnusedTag = async (id: string): Promise<void> => {
+  await db.transaction('rw', db.tags, db.rhythms, db.recordings, db.searchIndex, async () => {
+    const references = await findTagReferences(id);
+    if (references.rhythmIds.length > 0 || references.recordingIds.length > 0) {
+      throw new Error('This tag is still used by rhythms or recordings');
+    }
+
+    await db.tags.delete(id);
+  });
+};
@@ -0,0 +1,49 @@
+import type { Rhythm, Recording } from '../types';
+
+// Pure helpers for deriving tag usage from references. Kept free of database
+// imports so the schema upgrade can use them without a circular import.
+
+export const RHYTHM_TAG_LIST_FIELDS = [
+  'alternateRhythmNameTags',
+  'regionTags',
+  'ethnicGroupTags',
+  'occasionTags',
+  'languageTags'
+] as const;
+
+type RhythmTagFields = Pick<Rhythm, 'primaryRhythmNameTag' | typeof RHYTHM_TAG_LIST_FIELDS[number]>;
+
+// Every tag a rhythm references, each once
+export const rhythmTagIds = (rhythm: RhythmTagFields): string[] =>
+  Array.from(new Set([rhythm.primaryRhythmNameTag, ...RHYTHM_TAG_LIST_FIELDS.flatMap(field => rhythm[field])]));
+
+export const recordingTagIds = (recording: Pick<Recording, 'playerNameTags'>): string[] =>
+  Array.from(new Set(recording.playerNameTags));
+
+/**
+ * Count how many rhythms and recordings reference each tag.
+ * A record referencing the same tag in several fields counts once.
+ */
+export const countTagReferences = (rhythms: RhythmTagFields[], recordings: Pick<Recording, 'playerNameTags'>[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const add = (tagIds: string[]) => {
+    for (const id of tagIds) {
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+  };
+
+  rhythms.forEach(rhythm => add(rhythmTagIds(rhythm)));
+  recordings.forEach(recording => add(recordingTagIds(recording)));
+
+  return counts;
+};
+
+// Tags whose membership differs between two reference lists
+export const changedTagIds = (before: string[], after: string[]): string[] => {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  return [
+    ...before.filter(id => !afterSet.has(id)),
+    ...after.filter(id => !beforeSet.has(id))
+  ];
+};
@@ -0,0 +1,84 @@
+import { useState, useEffect, useRef } from 'react';
+
+// Samples at or above this are taken to be clipped (full scale is 1)
+const CLIP_THRESHOLD = 0.99;
+// Clipped frames closer together than this belong to the same clipped segment
+const CLIP_SEGMENT_GAP_MS = 500;
+// How long the clip indicator stays lit after the last clipped frame
+const CLIP_INDICATOR_MS = 1500;
+// How long the peak-hold marker stays put before following the level down
+const PEAK_HOLD_MS = 1500;
+
+interface InputLevel {
+  level: number; // Peak amplitude of the latest frame, 0-1
+  peak: number; // Held peak, 0-1
+  isClipping: boolean;
+}
+
+const SILENT: InputLevel = { level: 0, peak: 0, isClipping: false };
+
+/**
+ * Measure a microphone stream's level with an AnalyserNode, once per animation frame.
+ * @param stream - The stream being recorded
+ * @param active - Measure only while true (e.g. not while paused)
+ * @param onClip - Called when a new clipped segment starts
+ */
+export function useInputLevel(stream: MediaStream | null, active: boolean, onClip: () => void): InputLevel {
+  const [inputLevel, setInputLevel] = useState<InputLevel>(SILENT);
+  const onClipRef = useRef(onClip);
+
+  useEffect(() => {
+    onClipRef.current = onClip;
+  }, [onClip]);
+
+  useEffect(() => {
+    if (!stream || !active) {
+      setInputLevel(SILENT);
+      return;
+    }
+
+    const audioContext = new AudioContext();
+    const source = audioContext.createMediaStreamSource(stream);
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 2048;
+    source.connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    let lastClipTime = -Infinity;
+    let heldPeak = 0;
+    let heldSince = 0;
+    let frameId = 0;
+
+    const measure = () => {
+      analyser.getFloatTimeDomainData(samples);
+      let level = 0;
+      for (const sample of samples) {
+        level = Math.max(level, Math.abs(sample));
+      }
+
+      const now = performance.now();
+      if (level >= CLIP_THRESHOLD) {
+        if (now - lastClipTime > CLIP_SEGMENT_GAP_MS) {
+          onClipRef.current();
+        }
+        lastClipTime = now;
+      }
+      if (level >= heldPeak || now - heldSince > PEAK_HOLD_MS) {
+        heldPeak = level;
+        heldSince = now;
+      }
+
+      setInputLevel({ level, peak: heldPeak, isClipping: now - lastClipTime < CLIP_INDICATOR_MS });
+      frameId = requestAnimationFrame(measure);
+    };
+    frameId = requestAnimationFrame(measure);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      source.disconnect();
+      audioContext.close();
+    };
+  }, [stream, active]);
+
+  return inputLevel;
+}
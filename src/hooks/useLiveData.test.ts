@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act, waitFor, cleanup } from '@testing-library/react';
+import { db } from '../db/schema';
+import * as storage from '../db/storage';
+import { useRhythmSummaries } from './useLiveData';
+import type { RhythmListQuery } from '../types';
+
+vi.mock('../utils/tabChannel', () => ({ broadcast: vi.fn(), onTabMessage: vi.fn() }));
+
+const noFilters = { alternateNames: [], regions: [], ethnicGroups: [], occasions: [], languages: [] };
+
+describe('useRhythmSummaries', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+    for (let i = 0; i < 120; i++) {
+      await storage.createRhythm({
+        primaryRhythmNameTag: (await storage.createTag('rhythmName', `Rhythm ${String(i).padStart(3, '0')}`)).id,
+        alternateRhythmNameTags: [],
+        regionTags: [],
+        ethnicGroupTags: [],
+        occasionTags: [],
+        languageTags: [],
+        lyrics: '',
+        lyricsTranslation: '',
+        notes: '',
+        recordingIds: []
+      });
+    }
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+  });
+
+  it('reads only the next page as more are loaded', async () => {
+    const getPage = vi.spyOn(storage, 'getRhythmSummaryPage');
+    const query: RhythmListQuery = { sort: 'name-asc', filters: noFilters };
+    const { result } = renderHook(() => useRhythmSummaries(query));
+
+    await waitFor(() => expect(result.current.summaries).toHaveLength(50));
+    act(() => result.current.loadMore());
+    await waitFor(() => expect(result.current.summaries).toHaveLength(100));
+    act(() => result.current.loadMore());
+    await waitFor(() => expect(result.current.summaries).toHaveLength(120));
+
+    expect(result.current.hasMore).toBe(false);
+    expect(result.current.summaries!.map(summary => summary.name)).toEqual(
+      Array.from({ length: 120 }, (_, i) => `Rhythm ${String(i).padStart(3, '0')}`)
+    );
+    expect(getPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('re-reads only the pages a change touches', async () => {
+    const query: RhythmListQuery = { sort: 'name-asc', filters: noFilters };
+    const { result } = renderHook(() => useRhythmSummaries(query));
+    await waitFor(() => expect(result.current.summaries).toHaveLength(50));
+    act(() => result.current.loadMore());
+    await waitFor(() => expect(result.current.summaries).toHaveLength(100));
+
+    const getPage = vi.spyOn(storage, 'getRhythmSummaryPage');
+    const last = result.current.summaries![99].rhythm;
+    await storage.updateRhythm(last.id, { notes: 'Changed' });
+
+    await waitFor(() => expect(result.current.summaries![99].rhythm.notes).toBe('Changed'));
+    // The second page, never the first
+    expect(getPage).toHaveBeenCalled();
+    expect(getPage.mock.calls.every(([, cursor]) => cursor !== null)).toBe(true);
+  });
+});
@@ -0,0 +1,155 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { liveQuery, type Subscription } from 'dexie';
+import { useLiveQuery } from 'dexie-react-hooks';
+import type {
+  Rhythm,
+  Recording,
+  Tag,
+  TagType,
+  RhythmSummary,
+  RhythmSummaryPage,
+  RhythmListFilters,
+  RhythmListQuery,
+  SavedSearch,
+  DatabaseStats
+} from '../types';
+import {
+  getRhythmById,
+  getRecordingById,
+  getRecordingsByRhythmId,
+  getTagById,
+  getTagsByType,
+  getRhythmSummaryPage,
+  getRhythmSummariesByIds,
+  getRhythmFilterOptions,
+  getAllSavedSearches,
+  getDatabaseStats
+} from '../db/storage';
+
+// Reactive queries: each hook re-runs whenever the data it read changes, whether
+// the change was made on this screen, another screen or in another tab.
+// Results are undefined until the first query completes. Single-record hooks also
+// stay undefined until they're given an ID, and return null if there's no such record.
+
+export function useRhythm(id: string | undefined): Rhythm | null | undefined {
+  return useLiveQuery(async () => (id ? (await getRhythmById(id)) ?? null : undefined), [id]);
+}
+
+export function useRecording(id: string | undefined): Recording | null | undefined {
+  return useLiveQuery(async () => (id ? (await getRecordingById(id)) ?? null : undefined), [id]);
+}
+
+export function useRecordingsByRhythm(rhythmId: string | undefined): Recording[] | undefined {
+  return useLiveQuery(async () => (rhythmId ? getRecordingsByRhythmId(rhythmId) : undefined), [rhythmId]);
+}
+
+export function useTag(id: string | undefined): Tag | null | undefined {
+  return useLiveQuery(async () => (id ? (await getTagById(id)) ?? null : undefined), [id]);
+}
+
+export function useTagsByType(type: TagType): Tag[] | undefined {
+  return useLiveQuery(() => getTagsByType(type), [type]);
+}
+
+export function useSavedSearches(): SavedSearch[] | undefined {
+  return useLiveQuery(getAllSavedSearches, []);
+}
+
+export function useDatabaseStats(): DatabaseStats | undefined {
+  return useLiveQuery(getDatabaseStats, []);
+}
+
+export function useRhythmFilterOptions(): RhythmListFilters | undefined {
+  return useLiveQuery(getRhythmFilterOptions, []);
+}
+
+// Summaries of the given rhythms, in order; undefined while there are no IDs
+export function useRhythmSummariesByIds(ids: string[] | null): RhythmSummary[] | undefined {
+  return useLiveQuery(async () => (ids ? getRhythmSummariesByIds(ids) : undefined), [ids]);
+}
+
+// Stands in for the first page's cursor, which is null, as a key
+const FIRST_PAGE = '';
+
+/**
+ * Rhythm summaries in the query's order, a page at a time. Call loadMore as the
+ * list nears its end to read the next page from the last one's cursor. Each page
+ * is its own live query, so a change to the archive only re-reads the pages it
+ * touches. A new query starts again from the first page, showing the old list
+ * until it arrives.
+ */
+export function useRhythmSummaries(query: RhythmListQuery): { summaries: RhythmSummary[] | undefined; hasMore: boolean; loadMore: () => void } {
+  const { sort, filters } = query;
+  const [listing, setListing] = useState({
+    sort,
+    filters,
+    pageCount: 1,
+    pages: new Map<string, RhythmSummaryPage>(), // By the cursor they were read from
+    previous: undefined as RhythmSummary[] | undefined
+  });
+  const subscriptions = useRef(new Map<string, Subscription>());
+
+  // Pages loaded so far, each found from the one before it, and the cursors of
+  // those pages plus the next one asked for
+  const { summaries, cursors, loadedCount, hasMore } = useMemo(() => {
+    const loaded: RhythmSummaryPage[] = [];
+    const cursors = [FIRST_PAGE];
+    for (const cursor of cursors) {
+      const page = listing.pages.get(cursor);
+      if (!page) break;
+      loaded.push(page);
+      if (page.nextCursor && cursors.length < listing.pageCount) cursors.push(page.nextCursor);
+    }
+    return {
+      summaries: loaded.length > 0 ? loaded.flatMap(page => page.summaries) : listing.previous,
+      cursors,
+      loadedCount: loaded.length,
+      hasMore: loaded.length === 0 || loaded[loaded.length - 1].nextCursor !== null
+    };
+  }, [listing]);
+  const cursorKey = JSON.stringify(cursors);
+
+  if (listing.sort !== sort || listing.filters !== filters) {
+    setListing({ sort, filters, pageCount: 1, pages: new Map(), previous: summaries });
+  }
+
+  // Drop every page's query when the query changes
+  useEffect(() => {
+    const current = subscriptions.current;
+    return () => {
+      current.forEach(subscription => subscription.unsubscribe());
+      current.clear();
+    };
+  }, [sort, filters]);
+
+  // Follow the pages wanted now, letting go of any that no longer are
+  useEffect(() => {
+    const wanted: string[] = JSON.parse(cursorKey);
+    const current = subscriptions.current;
+    const dropped = Array.from(current.keys()).filter(cursor => !wanted.includes(cursor));
+    for (const cursor of dropped) {
+      current.get(cursor)!.unsubscribe();
+      current.delete(cursor);
+    }
+    if (dropped.length > 0) {
+      setListing(prev => ({ ...prev, pages: new Map(Array.from(prev.pages).filter(([cursor]) => !dropped.includes(cursor))) }));
+    }
+    for (const cursor of wanted) {
+      if (current.has(cursor)) continue;
+      current.set(cursor, liveQuery(() => getRhythmSummaryPage({ sort, filters }, cursor || null)).subscribe({
+        next: page => setListing(prev => (prev.sort === sort && prev.filters === filters
+          ? { ...prev, pages: new Map(prev.pages).set(cursor, page) }
+          : prev)),
+        error: error => console.error('Error loading rhythms:', error)
+      }));
+    }
+  }, [cursorKey, sort, filters]);
+
+  // One page at a time: ignored until the page asked for last has arrived
+  const canLoadMore = hasMore && loadedCount === listing.pageCount;
+  const loadMore = useCallback(() => {
+    if (canLoadMore) setListing(prev => ({ ...prev, pageCount: prev.pageCount + 1 }));
+  }, [canLoadMore]);
+
+  return { summaries, hasMore, loadMore };
+}
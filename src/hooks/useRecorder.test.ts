@@ -0,0 +1,186 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useRecorder } from './useRecorder';
+
+// Stands in for the browser's MediaRecorder: tests drive it and watch what the hook asks of it
+class FakeMediaRecorder {
+  static latest: FakeMediaRecorder | null = null;
+  static isTypeSupported = () => true;
+
+  state: RecordingState = 'inactive';
+  mimeType = 'audio/webm;codecs=opus';
+  audioBitsPerSecond = 128000;
+  timeslice: number | undefined;
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  private pending: Blob[] = [];
+
+  constructor() {
+    FakeMediaRecorder.latest = this;
+  }
+
+  start(timeslice?: number) {
+    this.timeslice = timeslice;
+    this.state = 'recording';
+  }
+
+  pause() {
+    this.state = 'paused';
+  }
+
+  resume() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    this.flush();
+    this.onstop?.();
+  }
+
+  // Audio captured since the last chunk, handed over on the next flush or stop
+  capture(text: string) {
+    this.pending.push(new Blob([text], { type: this.mimeType }));
+  }
+
+  flush() {
+    const data = new Blob(this.pending, { type: this.mimeType });
+    this.pending = [];
+    this.ondataavailable?.({ data });
+  }
+
+  fail() {
+    this.onerror?.(new Event('error'));
+  }
+}
+
+const track = { stop: vi.fn(), label: 'Test microphone', getSettings: () => ({ sampleRate: 48000, channelCount: 1 }) };
+const stream = { getTracks: () => [track], getAudioTracks: () => [track] };
+const getUserMedia = vi.fn();
+
+const recorder = () => FakeMediaRecorder.latest!;
+
+describe('useRecorder', () => {
+  beforeEach(() => {
+    FakeMediaRecorder.latest = null;
+    getUserMedia.mockResolvedValue(stream);
+    vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+    Object.defineProperty(navigator, 'mediaDevices', { value: { getUserMedia }, configurable: true });
+    URL.createObjectURL = vi.fn(() => 'blob:recording');
+    URL.revokeObjectURL = vi.fn();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    track.stop.mockClear();
+    getUserMedia.mockReset();
+  });
+
+  it('records, pauses, resumes and stops into one blob', async () => {
+    const onChunk = vi.fn();
+    const { result } = renderHook(() => useRecorder({ timeslice: 1000, onChunk }));
+
+    await act(() => result.current.start());
+    expect(result.current.state).toBe('recording');
+    expect(result.current.stream).toBe(stream);
+    expect(result.current.captureInfo).toMatchObject({ sampleRate: 48000, deviceLabel: 'Test microphone' });
+    expect(recorder().timeslice).toBe(1000);
+
+    recorder().capture('one ');
+    act(() => recorder().flush());
+    act(() => result.current.pause());
+    expect(result.current.state).toBe('paused');
+    expect(recorder().state).toBe('paused');
+    expect(result.current.markers).toHaveLength(1);
+
+    act(() => result.current.resume());
+    expect(result.current.state).toBe('recording');
+    expect(recorder().state).toBe('recording');
+
+    recorder().capture('two');
+    act(() => result.current.stop());
+    expect(result.current.state).toBe('stopped');
+    expect(await result.current.audioBlob!.text()).toBe('one two');
+    expect(result.current.audioBlob!.type).toBe('audio/webm;codecs=opus');
+    expect(result.current.audioUrl).toBe('blob:recording');
+    expect(onChunk).toHaveBeenCalledTimes(2);
+    expect(result.current.markers).toHaveLength(1);
+    expect(track.stop).toHaveBeenCalled();
+    expect(result.current.stream).toBeNull();
+  });
+
+  it('drops the pause marker when stopped while paused', async () => {
+    const { result } = renderHook(() => useRecorder());
+
+    await act(() => result.current.start());
+    act(() => result.current.pause());
+    act(() => result.current.stop());
+    expect(result.current.state).toBe('stopped');
+    expect(result.current.markers).toEqual([]);
+  });
+
+  it('ignores moves the current state does not allow', async () => {
+    const { result } = renderHook(() => useRecorder());
+
+    act(() => {
+      result.current.pause();
+      result.current.resume();
+      result.current.stop();
+    });
+    expect(result.current.state).toBe('idle');
+
+    await act(() => result.current.start());
+    act(() => result.current.resume());
+    await act(() => result.current.start());
+    expect(result.current.state).toBe('recording');
+    expect(getUserMedia).toHaveBeenCalledTimes(1);
+
+    act(() => result.current.reset());
+    expect(result.current.state).toBe('recording');
+
+    act(() => result.current.stop());
+    act(() => result.current.pause());
+    expect(result.current.state).toBe('stopped');
+
+    act(() => result.current.reset());
+    expect(result.current.state).toBe('idle');
+    expect(result.current.audioBlob).toBeNull();
+  });
+
+  it('ends in error, releasing the microphone, when the recorder fails', async () => {
+    const { result } = renderHook(() => useRecorder());
+
+    await act(() => result.current.start());
+    recorder().capture('partial');
+    act(() => recorder().fail());
+    expect(result.current.state).toBe('error');
+    expect(result.current.error).toBe('Recording failed. Please try again.');
+    expect(track.stop).toHaveBeenCalled();
+
+    // The browser stops the recorder after an error; that mustn't produce a recording
+    act(() => recorder().stop());
+    expect(result.current.state).toBe('error');
+    expect(result.current.audioBlob).toBeNull();
+
+    act(() => result.current.stop());
+    expect(result.current.state).toBe('error');
+  });
+
+  it('ends in error when microphone permission is denied, and can try again', async () => {
+    getUserMedia.mockRejectedValueOnce(new DOMException('Permission denied', 'NotAllowedError'));
+    const { result } = renderHook(() => useRecorder());
+
+    await act(() => result.current.start());
+    expect(result.current.state).toBe('error');
+    expect(result.current.error).toBe('Failed to access microphone. Please grant permission and try again.');
+    expect(FakeMediaRecorder.latest).toBeNull();
+
+    await act(() => result.current.start());
+    expect(result.current.state).toBe('recording');
+    expect(result.current.error).toBeNull();
+  });
+});
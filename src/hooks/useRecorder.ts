@@ -0,0 +1,297 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { CaptureInfo } from '../types';
+import { loadCaptureSettings, openRecorder, describeCapture } from '../utils/captureSettings';
+
+export type RecorderState = 'idle' | 'requesting' | 'recording' | 'paused' | 'stopped' | 'error';
+
+// Moves the recorder may make; anything else is ignored
+const TRANSITIONS: Record<RecorderState, RecorderState[]> = {
+  idle: ['requesting', 'stopped'], // stopped: audio restored from elsewhere
+  requesting: ['recording', 'error'],
+  recording: ['paused', 'stopped', 'error'],
+  paused: ['recording', 'stopped', 'error'],
+  stopped: ['idle'],
+  error: ['idle', 'requesting']
+};
+
+interface RecorderOptions {
+  timeslice?: number; // ms between chunks; without it the audio arrives in one piece on stop
+  onStart?: (mediaRecorder: MediaRecorder, captureInfo: CaptureInfo) => Promise<void> | void; // Awaited before capture begins
+  onChunk?: (chunk: Blob) => void;
+  onMarkersChange?: (markers: number[]) => void;
+}
+
+// Audio captured earlier (e.g. an unfinished session) to load as a finished recording
+export interface RestoredRecording {
+  audioBlob: Blob;
+  startedAt: Date;
+  duration: number; // seconds
+  markers: number[];
+  captureInfo: CaptureInfo | null;
+}
+
+export interface Recorder {
+  state: RecorderState;
+  error: string | null;
+  elapsedSeconds: number; // Whole seconds of audio, not counting pauses
+  audioBlob: Blob | null;
+  audioUrl: string | null;
+  stream: MediaStream | null; // While recording or paused
+  startedAt: Date | null;
+  markers: number[]; // Pause points, in seconds of recorded audio
+  captureInfo: CaptureInfo | null;
+  recordedSeconds: () => number; // Exact, for timestamping events
+  start: () => Promise<void>;
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+  reset: () => void;
+  restore: (recording: RestoredRecording) => void;
+}
+
+// Auto-naming: [Location] - [YYYY-MM-DD] - [HH:MM:SS]
+export const buildRecordingFileName = (location: string, startedAt: Date): string => {
+  const date = startedAt.toISOString().split('T')[0];
+  const time = startedAt.toTimeString().split(' ')[0];
+  return `${location.trim() || 'Unknown Location'} - ${date} - ${time}`;
+};
+
+/**
+ * One microphone recording at a time, with the capture settings from Settings.
+ * Pausing keeps the same recording going and leaves a marker at the pause point
+ * so the recording can be split later.
+ */
+export function useRecorder(options: RecorderOptions = {}): Recorder {
+  const [state, setState] = useState<RecorderState>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [startedAt, setStartedAt] = useState<Date | null>(null);
+  const [markers, setMarkers] = useState<number[]>([]);
+  const [captureInfo, setCaptureInfo] = useState<CaptureInfo | null>(null);
+
+  const stateRef = useRef<RecorderState>('idle'); // Current state for event handlers
+  const optionsRef = useRef(options);
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const timerIntervalRef = useRef<number | null>(null);
+  const activeSinceRef = useRef<number | null>(null); // performance.now() when recording last started or resumed
+  const recordedSecondsRef = useRef(0); // Audio captured before activeSinceRef
+  const markersRef = useRef<number[]>([]);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const moveTo = useCallback((next: RecorderState): boolean => {
+    if (!TRANSITIONS[stateRef.current].includes(next)) return false;
+    stateRef.current = next;
+    setState(next);
+    return true;
+  }, []);
+
+  const recordedSeconds = useCallback(() =>
+    recordedSecondsRef.current + (activeSinceRef.current === null ? 0 : (performance.now() - activeSinceRef.current) / 1000),
+  []);
+
+  const startTimer = useCallback(() => {
+    timerIntervalRef.current = window.setInterval(() => {
+      setElapsedSeconds(Math.floor(recordedSeconds()));
+    }, 250);
+  }, [recordedSeconds]);
+
+  const stopTimer = useCallback(() => {
+    if (timerIntervalRef.current) {
+      clearInterval(timerIntervalRef.current);
+      timerIntervalRef.current = null;
+    }
+  }, []);
+
+  // Stop counting time at the current point
+  const settleTime = useCallback(() => {
+    if (activeSinceRef.current !== null) {
+      recordedSecondsRef.current += (performance.now() - activeSinceRef.current) / 1000;
+      activeSinceRef.current = null;
+    }
+    stopTimer();
+    setElapsedSeconds(Math.floor(recordedSecondsRef.current));
+  }, [stopTimer]);
+
+  const releaseStream = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setStream(null);
+  }, []);
+
+  const updateMarkers = useCallback((next: number[]) => {
+    markersRef.current = next;
+    setMarkers(next);
+    optionsRef.current.onMarkersChange?.(next);
+  }, []);
+
+  const fail = useCallback((message: string, err: unknown) => {
+    console.error(message, err);
+    settleTime();
+    releaseStream();
+    setError(message);
+    moveTo('error');
+  }, [settleTime, releaseStream, moveTo]);
+
+  const start = useCallback(async () => {
+    if (!moveTo('requesting')) return;
+    setError(null);
+
+    let mediaRecorder: MediaRecorder;
+    let info: CaptureInfo;
+    try {
+      const opened = await openRecorder(loadCaptureSettings());
+      mediaRecorder = opened.mediaRecorder;
+      streamRef.current = opened.stream;
+      info = describeCapture(opened.stream, mediaRecorder);
+      await optionsRef.current.onStart?.(mediaRecorder, info);
+    } catch (err) {
+      fail('Failed to access microphone. Please grant permission and try again.', err);
+      return;
+    }
+
+    mediaRecorderRef.current = mediaRecorder;
+    chunksRef.current = [];
+    recordedSecondsRef.current = 0;
+    markersRef.current = [];
+    setMarkers([]);
+    setCaptureInfo(info);
+    setStartedAt(new Date());
+    setElapsedSeconds(0);
+
+    mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunksRef.current.push(event.data);
+        optionsRef.current.onChunk?.(event.data);
+      }
+    };
+
+    mediaRecorder.onstop = () => {
+      // Stopped by an error: keep the error state
+      if (stateRef.current === 'error') return;
+
+      const blob = new Blob(chunksRef.current, { type: mediaRecorder.mimeType });
+      setAudioBlob(blob);
+      setAudioUrl(URL.createObjectURL(blob));
+      releaseStream();
+      moveTo('stopped');
+    };
+
+    mediaRecorder.onerror = (event) => {
+      fail('Recording failed. Please try again.', event);
+    };
+
+    mediaRecorder.start(optionsRef.current.timeslice);
+    activeSinceRef.current = performance.now();
+    setStream(streamRef.current);
+    moveTo('recording');
+    startTimer();
+  }, [moveTo, fail, releaseStream, startTimer]);
+
+  const pause = useCallback(() => {
+    if (stateRef.current !== 'recording' || !mediaRecorderRef.current) return;
+
+    mediaRecorderRef.current.pause();
+    settleTime();
+    updateMarkers([...markersRef.current, Math.round(recordedSecondsRef.current * 1000) / 1000]);
+    moveTo('paused');
+  }, [settleTime, updateMarkers, moveTo]);
+
+  const resume = useCallback(() => {
+    if (stateRef.current !== 'paused' || !mediaRecorderRef.current) return;
+
+    mediaRecorderRef.current.resume();
+    activeSinceRef.current = performance.now();
+    startTimer();
+    moveTo('recording');
+  }, [startTimer, moveTo]);
+
+  const stop = useCallback(() => {
+    if ((stateRef.current !== 'recording' && stateRef.current !== 'paused') || !mediaRecorderRef.current) return;
+
+    // Stopping while paused ends the recording where it was paused, which isn't a split point
+    if (stateRef.current === 'paused') {
+      updateMarkers(markersRef.current.slice(0, -1));
+    }
+    settleTime();
+    mediaRecorderRef.current.stop(); // Moves to stopped once the last chunk is in
+  }, [updateMarkers, settleTime]);
+
+  const reset = useCallback(() => {
+    if (stateRef.current !== 'stopped' && stateRef.current !== 'error') return;
+
+    setAudioBlob(null);
+    setAudioUrl(null);
+    setStartedAt(null);
+    setCaptureInfo(null);
+    setElapsedSeconds(0);
+    setError(null);
+    chunksRef.current = [];
+    recordedSecondsRef.current = 0;
+    markersRef.current = [];
+    setMarkers([]);
+    moveTo('idle');
+  }, [moveTo]);
+
+  const restore = useCallback((recording: RestoredRecording) => {
+    if (stateRef.current !== 'idle') return;
+
+    recordedSecondsRef.current = recording.duration;
+    markersRef.current = recording.markers;
+    setMarkers(recording.markers);
+    setCaptureInfo(recording.captureInfo);
+    setStartedAt(recording.startedAt);
+    setElapsedSeconds(Math.floor(recording.duration));
+    setAudioBlob(recording.audioBlob);
+    setAudioUrl(URL.createObjectURL(recording.audioBlob));
+    moveTo('stopped');
+  }, [moveTo]);
+
+  // Release the preview URL when it's replaced or the recorder goes away
+  useEffect(() => {
+    return () => {
+      if (audioUrl) {
+        URL.revokeObjectURL(audioUrl);
+      }
+    };
+  }, [audioUrl]);
+
+  // Don't leave the microphone on after leaving the page
+  useEffect(() => {
+    return () => {
+      stopTimer();
+      const mediaRecorder = mediaRecorderRef.current;
+      if (mediaRecorder && mediaRecorder.state !== 'inactive') {
+        mediaRecorder.onstop = null;
+        mediaRecorder.stop();
+      }
+      streamRef.current?.getTracks().forEach(track => track.stop());
+    };
+  }, [stopTimer]);
+
+  return {
+    state,
+    error,
+    elapsedSeconds,
+    audioBlob,
+    audioUrl,
+    stream,
+    startedAt,
+    markers,
+    captureInfo,
+    recordedSeconds,
+    start,
+    pause,
+    resume,
+    stop,
+    reset,
+    restore
+  };
+}
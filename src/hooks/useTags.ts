@@ -1,48 +1,37 @@
-import { useState, useEffect } from 'react';
 import type { Tag, TagType } from '../types';
-import { getTagsByType, createTag } from '../db/storage';
+import { createTag } from '../db/storage';
+import { normalizeTagValue, fuzzyNameScore } from '../utils/nameSimilarity';
+import { useTagsByType } from './useLiveData';
 
 export function useTags(type: TagType) {
-  const [availableTags, setAvailableTags] = useState<Tag[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    loadTags();
-  }, [type]);
-
-  const loadTags = async () => {
-    setLoading(true);
-    try {
-      const tags = await getTagsByType(type);
-      setAvailableTags(tags);
-    } catch (error) {
-      console.error('Error loading tags:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Live, so new tags reach the autocomplete list without a reload
+  const tags = useTagsByType(type);
+  const availableTags = tags ?? [];
+  const loading = tags === undefined;
 
   const createOrGetTag = async (value: string): Promise<Tag> => {
-    // createTag already handles find-or-create and usage count
-    const tag = await createTag(type, value);
-    // Reload tags to update autocomplete list
-    await loadTags();
-    return tag;
+    // createTag handles find-or-create; usage counts follow saved references
+    return createTag(type, value);
   };
 
+  // Substring matches first, then phonetic and near-miss spellings ("Kouku" finds "Kuku")
   const filterTags = (query: string): Tag[] => {
     if (!query) return availableTags;
-    const lowerQuery = query.toLowerCase();
-    return availableTags.filter(tag => 
-      tag.value.toLowerCase().includes(lowerQuery)
-    );
+    const normalizedQuery = normalizeTagValue(query);
+    return availableTags
+      .map(tag => ({
+        tag,
+        score: tag.normalizedValue.includes(normalizedQuery) ? 2 : fuzzyNameScore(query, tag.value)
+      }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map(({ tag }) => tag);
   };
 
   return {
     availableTags,
     loading,
     createOrGetTag,
-    filterTags,
-    refreshTags: loadTags
+    filterTags
   };
 }
@@ -11,6 +11,7 @@ export interface Tag {
   id: string;
   type: TagType;
   value: string;
+  normalizedValue: string; // Matching key, see normalizeTagValue
   usageCount: number;
   createdDate: string;
 }
@@ -46,6 +47,32 @@ export interface Recording {
   loopPoints: LoopPoints | null;
   waveformData: number[] | null;
   isFavorite: boolean;
+  markers: number[]; // seconds into the audio where recording was paused, ascending
+  clipTimes: number[]; // seconds into the audio where the input clipped, ascending
+  captureInfo: CaptureInfo | null; // null for uploaded files and older recordings
+}
+
+// How a recording was actually captured, which can differ from what was asked
+// for (unsupported codec, constraints the browser ignored)
+export interface CaptureInfo {
+  mimeType: string;
+  audioBitsPerSecond: number | null;
+  sampleRate: number | null; // Hz
+  channelCount: number | null;
+  echoCancellation: boolean | null; // null where the browser doesn't report it
+  noiseSuppression: boolean | null;
+  autoGainControl: boolean | null;
+  deviceLabel: string | null;
+}
+
+// Recording settings, kept per device
+export interface CaptureSettings {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  deviceId: string | null; // null for the default input
+  preferredMimeType: string; // Falls back to another supported type
+  audioBitsPerSecond: number;
 }
 
 export interface LoopPoints {
@@ -56,4 +83,285 @@ export interface LoopPoints {
 // Helper type for creating new entities
 export type NewRhythm = Omit<Rhythm, 'id' | 'createdDate' | 'updatedDate' | 'recordingIds'>;
 export type NewRecording = Omit<Recording, 'id' | 'waveformData'>;
-export type NewTag = Omit<Tag, 'id' | 'usageCount' | 'createdDate'>;
+export type NewTag = Omit<Tag, 'id' | 'normalizedValue' | 'usageCount' | 'createdDate'>;
+
+// Archive (.zip) export format: manifest.json plus one audio file per recording
+export interface ArchivedRecording extends Omit<Recording, 'audioBlob'> {
+  audioFile: string | null; // Path inside the archive, e.g. "audio/<recording id>.webm"
+  audioBlobType: string | null; // Original MIME type
+}
+
+export interface ArchiveManifest {
+  version: string;
+  exportDate: string;
+  tags: Tag[];
+  rhythms: Rhythm[];
+  recordings: ArchivedRecording[];
+  savedSearches: SavedSearch[];
+}
+
+export interface ExportValidationIssue {
+  entity: 'tag' | 'rhythm' | 'recording' | 'savedSearch';
+  index: number; // Position in the export file
+  id?: string;
+  field?: string;
+  message: string;
+}
+
+// Normalized data ready to be written to the database
+export interface ImportPayload {
+  tags: Tag[];
+  rhythms: Rhythm[];
+  recordings: Recording[];
+  savedSearches: SavedSearch[];
+}
+
+// Import reporting
+export type ImportMode = 'replace' | 'merge';
+
+export interface ImportConflict {
+  id: string;
+  reason: string;
+  resolution: 'kept-local' | 'took-imported' | 'rekeyed-imported';
+}
+
+export interface ImportEntityReport {
+  added: string[]; // IDs
+  updated: string[];
+  skipped: string[];
+  conflicts: ImportConflict[];
+}
+
+export interface ImportReport {
+  tags: ImportEntityReport;
+  rhythms: ImportEntityReport;
+  recordings: ImportEntityReport;
+  savedSearches: ImportEntityReport;
+  remappedTagIds: Record<string, string>; // imported tag ID -> local tag ID
+}
+
+// Dry-run import preview
+export interface RhythmFieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface ImportPreviewRhythm {
+  id: string;
+  name: string;
+  changes: RhythmFieldChange[]; // Empty for new rhythms
+  newRecordingIds: string[];
+}
+
+export interface ImportPreviewRecording {
+  id: string;
+  rhythmId: string;
+  rhythmName: string;
+  fileName: string;
+  recordedDate: string;
+  audioSize: number; // bytes
+}
+
+export interface ImportPreview {
+  newRhythms: ImportPreviewRhythm[];
+  changedRhythms: ImportPreviewRhythm[];
+  unchangedRhythmCount: number;
+  newRecordings: ImportPreviewRecording[];
+  newTagCount: number;
+  newSavedSearchCount: number;
+  totalAudioBytes: number;
+}
+
+// Database integrity checks
+export type IntegrityIssue =
+  | { kind: 'orphanRecording'; recordingId: string; rhythmId: string } // Parent rhythm doesn't exist
+  | { kind: 'staleRecordingId'; rhythmId: string; recordingId: string } // Listed on rhythm but missing or owned elsewhere
+  | { kind: 'unlistedRecording'; rhythmId: string; recordingId: string } // Recording not in its rhythm's recordingIds
+  | { kind: 'missingTag'; entity: 'rhythm' | 'recording'; entityId: string; field: string; tagId: string }
+  | { kind: 'usageCountDrift'; tagId: string; stored: number; actual: number };
+
+export type IntegrityIssueKind = IntegrityIssue['kind'];
+
+// Duplicate rhythm detection and merging
+export type DuplicateMatchReason = 'sameName' | 'alternateName' | 'similarName';
+
+export interface DuplicateMatch {
+  rhythmIds: [string, string];
+  reason: DuplicateMatchReason;
+  similarity: number; // 0..1, 1 for exact name matches
+}
+
+export interface DuplicateGroup {
+  rhythmIds: string[];
+  matches: DuplicateMatch[];
+}
+
+export type MergeableTextField = 'lyrics' | 'lyricsTranslation' | 'notes';
+
+export interface RhythmMergePlan {
+  targetId: string; // Rhythm that is kept; its primary name wins
+  sourceIds: string[]; // Rhythms merged into the target and then deleted
+  textSources: Record<MergeableTextField, string>; // Rhythm ID whose text wins per field
+}
+
+// Where a tag is referenced
+export interface TagUsage {
+  rhythmIds: string[];
+  recordingIds: string[];
+}
+
+// Full-text search
+export type SearchField =
+  | 'name'
+  | 'alternateName'
+  | 'tag'
+  | 'lyrics'
+  | 'lyricsTranslation'
+  | 'notes'
+  | 'fileName'
+  | 'location'
+  | 'player'
+  | 'recordingNotes';
+
+// One row of the persistent inverted index; `terms` is a multi-entry index
+export interface SearchDocument {
+  id: string; // "<entityType>:<entityId>"
+  entityType: 'rhythm' | 'recording';
+  entityId: string;
+  rhythmId: string; // The rhythm itself, or the recording's parent
+  terms: string[]; // Folded, unique words
+  fuzzyTerms: string[]; // The words of name-like fields, the only ones matched phonetically or with typos
+  fields: Partial<Record<SearchField, string>>; // Source text, kept for scoring and highlights
+}
+
+export interface SearchHighlight {
+  field: SearchField;
+  entityId: string;
+  text: string; // Snippet of the field text
+  ranges: [number, number][]; // [start, end) offsets of matches within `text`
+}
+
+export interface SearchResult {
+  rhythmId: string;
+  score: number;
+  highlights: SearchHighlight[];
+  recordingIds: string[]; // Recordings of this rhythm that matched
+}
+
+// Structured search queries, e.g. `region:Guinea -occasion:wedding has:lyrics recordings>2`
+export type QueryTagField = 'name' | 'region' | 'ethnic' | 'occasion' | 'language' | 'player';
+export type QueryHasProperty = 'lyrics' | 'translation' | 'notes' | 'recordings' | 'favorite' | 'loop';
+export type QueryComparison = '>' | '>=' | '<' | '<=' | '=';
+
+export type QueryNode =
+  | { type: 'text'; value: string } // Free text, matched against the full-text index
+  | { type: 'tag'; field: QueryTagField; value: string }
+  | { type: 'has'; property: QueryHasProperty }
+  | { type: 'recordingCount'; operator: QueryComparison; value: number }
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'and'; operands: QueryNode[] }
+  | { type: 'or'; operands: QueryNode[] };
+
+export interface QueryParseError {
+  message: string;
+  position: number; // Offset into the query string
+  length: number;
+}
+
+// Saved searches: a named snapshot of the rhythm list's search, filters and sort,
+// re-evaluated whenever it is opened
+export type RhythmSortOption = 'relevance' | 'name-asc' | 'date-newest' | 'date-oldest' | 'recordings';
+
+// Tag values selected in the rhythm list's filter menu
+export interface RhythmListFilters {
+  alternateNames: string[];
+  regions: string[];
+  ethnicGroups: string[];
+  occasions: string[];
+  languages: string[];
+}
+
+// What the rhythm list pages through when not searching
+export interface RhythmListQuery {
+  sort: RhythmSortOption;
+  filters: RhythmListFilters;
+}
+
+// A rhythm's tags by value, as typed into the rhythm edit form
+export interface RhythmTagValues extends RhythmListFilters {
+  primaryName: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string; // Search box text, see parseQuery
+  filters: RhythmListFilters;
+  playedWithinDays: number | null; // Only rhythms with a recording played this many days back from when the search runs
+  sortOption: RhythmSortOption;
+  createdDate: string;
+  updatedDate: string;
+}
+
+// A capture in progress. Its audio is saved chunk by chunk while recording, so
+// a session left behind by a crash or a killed tab can be recovered later.
+export interface RecordingSession {
+  id: string;
+  startedDate: string;
+  mimeType: string;
+  duration: number; // seconds recorded so far
+  markers: number[]; // Pause points, as on Recording
+  clipTimes: number[]; // As on Recording
+  captureInfo: CaptureInfo | null;
+}
+
+export interface RecordingChunk {
+  sessionId: string;
+  index: number; // Order within the session
+  data: Blob;
+}
+
+// Recordings browser
+export interface RecordingFilter {
+  playerTagIds: string[]; // Any of these players
+  location: string; // Case- and accent-insensitive substring
+  fromDate: string | null; // YYYY-MM-DD, inclusive
+  toDate: string | null; // YYYY-MM-DD, inclusive
+  minDuration: number | null; // seconds
+  maxDuration: number | null; // seconds
+  favoritesOnly: boolean;
+  loopPoints: 'any' | 'with' | 'without';
+}
+
+export type RecordingSortOption = 'date-newest' | 'date-oldest' | 'longest' | 'shortest' | 'name-asc';
+
+// Rhythm list: a rhythm with its tags resolved to values, loaded a page at a time
+export interface RhythmSummary {
+  rhythm: Rhythm;
+  name: string;
+  alternateNames: string[];
+  regions: string[];
+  ethnicGroups: string[];
+  occasions: string[];
+  languages: string[];
+  favoriteRecording: Recording | null;
+}
+
+export interface RhythmSummaryPage {
+  summaries: RhythmSummary[];
+  nextCursor: string | null; // Pass to getRhythmSummaryPage for the next page; null on the last
+}
+
+// Record counts shown in Settings
+export interface DatabaseStats {
+  rhythms: number;
+  recordings: number;
+  tags: number;
+}
+
+// Messages between open tabs of the app, see tabChannel
+export type TabMessage =
+  | { type: 'playback-started' }
+  | { type: 'rhythm-changed'; rhythmId: string };
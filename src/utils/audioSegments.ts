@@ -0,0 +1,97 @@
+// Cutting recordings into parts. Parts are re-encoded as 16-bit PCM WAV, since
+// browsers can decode compressed audio but not encode it without MediaRecorder.
+
+export interface AudioSegment {
+  audioBlob: Blob;
+  start: number; // seconds into the original
+  duration: number; // seconds
+}
+
+// Longest recording that may be split. The whole take is decoded to 32-bit
+// samples before the parts are encoded, so ten minutes of stereo already needs
+// about 230 MB for the samples and 115 MB for the parts.
+export const MAX_SPLIT_DURATION = 10 * 60; // seconds
+
+// Browsers decode at their output rate, whatever the recording's
+const TYPICAL_DECODE_RATE = 48000;
+
+// Roughly how many bytes of WAV splitting this much audio produces, all parts together
+export const estimateSplitSize = (duration: number, channelCount = 2): number =>
+  Math.round(duration * TYPICAL_DECODE_RATE * channelCount * 2);
+
+// Encode part of an AudioBuffer (the whole buffer by default) as a WAV file
+export const encodeWav = (audioBuffer: AudioBuffer, startSeconds = 0, endSeconds = audioBuffer.duration): Blob => {
+  const numberOfChannels = audioBuffer.numberOfChannels;
+  const sampleRate = audioBuffer.sampleRate;
+  const bytesPerSample = 2;
+  const blockAlign = numberOfChannels * bytesPerSample;
+
+  const startFrame = Math.max(0, Math.floor(startSeconds * sampleRate));
+  const endFrame = Math.min(audioBuffer.length, Math.floor(endSeconds * sampleRate));
+  const frameCount = Math.max(0, endFrame - startFrame);
+
+  const dataLength = frameCount * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataLength);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  // Interleave channels, frame by frame
+  const channels = Array.from({ length: numberOfChannels }, (_, channel) => audioBuffer.getChannelData(channel));
+  let offset = 44;
+  for (let frame = startFrame; frame < endFrame; frame++) {
+    for (const channelData of channels) {
+      const sample = Math.max(-1, Math.min(1, channelData[frame]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/**
+ * Decode a recording and cut it at the given points (seconds, ascending).
+ * Points outside the audio are ignored, so n usable points give n + 1 parts.
+ * Refuses recordings longer than MAX_SPLIT_DURATION before encoding any part.
+ */
+export const splitAudio = async (audioBlob: Blob, splitPoints: number[]): Promise<AudioSegment[]> => {
+  const audioContext = new AudioContext();
+  try {
+    const audioBuffer = await audioContext.decodeAudioData(await audioBlob.arrayBuffer());
+    if (audioBuffer.duration > MAX_SPLIT_DURATION) {
+      throw new Error(`Recordings longer than ${MAX_SPLIT_DURATION / 60} minutes can't be split`);
+    }
+    const bounds = [
+      0,
+      ...splitPoints.filter(point => point > 0 && point < audioBuffer.duration),
+      audioBuffer.duration
+    ];
+
+    return bounds.slice(0, -1).map((start, index) => ({
+      audioBlob: encodeWav(audioBuffer, start, bounds[index + 1]),
+      start,
+      duration: bounds[index + 1] - start
+    }));
+  } finally {
+    audioContext.close();
+  }
+};
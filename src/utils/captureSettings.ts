@@ -0,0 +1,88 @@
+import type { CaptureSettings, CaptureInfo } from '../types';
+
+// Settings are per device (different microphones, different browsers), so
+// they live in localStorage rather than in the exported database
+const STORAGE_KEY = 'captureSettings';
+
+// Speech processing smears drum transients, so it's all off by default
+export const DEFAULT_CAPTURE_SETTINGS: CaptureSettings = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false,
+  deviceId: null,
+  preferredMimeType: 'audio/webm;codecs=opus',
+  audioBitsPerSecond: 128000
+};
+
+// In fallback order; Safari records only MP4
+export const CODEC_OPTIONS = [
+  { mimeType: 'audio/webm;codecs=opus', label: 'Opus (WebM)' },
+  { mimeType: 'audio/ogg;codecs=opus', label: 'Opus (Ogg)' },
+  { mimeType: 'audio/mp4;codecs=mp4a.40.2', label: 'AAC (MP4)' },
+  { mimeType: 'audio/mp4', label: 'MP4' },
+  { mimeType: 'audio/webm', label: 'WebM' }
+];
+
+export const BITRATE_OPTIONS = [64000, 96000, 128000, 192000, 256000];
+
+export const loadCaptureSettings = (): CaptureSettings => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return DEFAULT_CAPTURE_SETTINGS;
+
+  try {
+    return { ...DEFAULT_CAPTURE_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.error('Failed to load capture settings:', e);
+    return DEFAULT_CAPTURE_SETTINGS;
+  }
+};
+
+export const saveCaptureSettings = (settings: CaptureSettings): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const isMimeTypeSupported = (mimeType: string): boolean =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(mimeType);
+
+/**
+ * The preferred type if this browser can record it, otherwise the first
+ * supported option. Empty when none are, leaving the choice to the browser.
+ */
+export const pickMimeType = (preferred: string): string =>
+  [preferred, ...CODEC_OPTIONS.map(option => option.mimeType)].find(isMimeTypeSupported) ?? '';
+
+export const buildAudioConstraints = (settings: CaptureSettings): MediaTrackConstraints => ({
+  echoCancellation: settings.echoCancellation,
+  noiseSuppression: settings.noiseSuppression,
+  autoGainControl: settings.autoGainControl,
+  // Ideal rather than exact, so an unplugged device falls back to the default
+  ...(settings.deviceId && { deviceId: { ideal: settings.deviceId } })
+});
+
+// Open the microphone and a recorder for it as the settings ask, as far as the browser allows
+export const openRecorder = async (settings: CaptureSettings): Promise<{ stream: MediaStream; mediaRecorder: MediaRecorder }> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(settings) });
+  const mimeType = pickMimeType(settings.preferredMimeType);
+  const mediaRecorder = new MediaRecorder(stream, {
+    ...(mimeType && { mimeType }),
+    audioBitsPerSecond: settings.audioBitsPerSecond
+  });
+  return { stream, mediaRecorder };
+};
+
+// What the browser actually gave us, read back from the track and the recorder
+export const describeCapture = (stream: MediaStream, mediaRecorder: MediaRecorder): CaptureInfo => {
+  const track = stream.getAudioTracks()[0];
+  const trackSettings = track?.getSettings() ?? {};
+
+  return {
+    mimeType: mediaRecorder.mimeType,
+    audioBitsPerSecond: mediaRecorder.audioBitsPerSecond || null,
+    sampleRate: trackSettings.sampleRate ?? null,
+    channelCount: trackSettings.channelCount ?? null,
+    echoCancellation: trackSettings.echoCancellation ?? null,
+    noiseSuppression: trackSettings.noiseSuppression ?? null,
+    autoGainControl: trackSettings.autoGainControl ?? null,
+    deviceLabel: track?.label || null
+  };
+};
@@ -0,0 +1,111 @@
+// String helpers for comparing rhythm names that differ in case, accents,
+// punctuation, word order (e.g. "Soli fura" vs "Fura soli") or spelling convention.
+
+// Matching key for tag values: trimmed, case-folded and accent-insensitive ("Malinké" -> "malinke")
+export const normalizeTagValue = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Tag key with punctuation also ignored, for comparing names loosely
+export const normalizeName = (name: string): string =>
+  normalizeTagValue(name).replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Same words in any order produce the same key
+export const nameTokenKey = (name: string): string =>
+  normalizeName(name).split(' ').filter(Boolean).sort().join(' ');
+
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const ratio = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+};
+
+/**
+ * Similarity between two names from 0 (unrelated) to 1 (equal after normalization).
+ * Word order is ignored by also comparing the sorted-token form.
+ */
+export const nameSimilarity = (a: string, b: string): number =>
+  Math.max(ratio(normalizeName(a), normalizeName(b)), ratio(nameTokenKey(a), nameTokenKey(b)));
+
+// Mande names are written with French or English spelling conventions
+// ("Djeli"/"Jeli", "Kouku"/"Kuku", "Ouassa"/"Wassa"); fold both to one spelling.
+// Accents ("è"/"e") are already folded by normalizeName.
+const PHONETIC_RULES: [RegExp, string][] = [
+  [/dj|dy/g, 'j'],
+  [/ou(?=[aeio])/g, 'w'],
+  [/ou/g, 'u'],
+  [/gn/g, 'ny'],
+  [/ph/g, 'f'],
+  [/(.)\1+/g, '$1'] // "Kassa"/"Kasa"
+];
+
+export const phoneticKey = (name: string): string =>
+  PHONETIC_RULES.reduce((key, [pattern, replacement]) => key.replace(pattern, replacement), normalizeName(name));
+
+// Typos tolerated in a word of this length; short words must match exactly
+export const maxTypoDistance = (length: number): number => (length <= 3 ? 0 : length <= 6 ? 1 : 2);
+
+export type WordMatch = 'exact' | 'phonetic' | 'typo';
+
+export const WORD_MATCH_SCORES: Record<WordMatch, number> = { exact: 1, phonetic: 0.8, typo: 0.5 };
+
+/**
+ * How a query word matches a word of a name, if at all. The query word may be
+ * a prefix, so matches update while typing. Both words should be normalized.
+ */
+export const matchWord = (queryWord: string, word: string): WordMatch | null => {
+  if (word.startsWith(queryWord)) return 'exact';
+
+  const queryKey = phoneticKey(queryWord);
+  const key = phoneticKey(word);
+  if (key.startsWith(queryKey)) return 'phonetic';
+
+  const allowed = maxTypoDistance(queryKey.length);
+  if (allowed > 0 &&
+      (levenshtein(queryKey, key.slice(0, queryKey.length)) <= allowed || levenshtein(queryKey, key) <= allowed)) {
+    return 'typo';
+  }
+  return null;
+};
+
+/**
+ * Score a typed query against a name from 0 (no match) to 1. Every query word
+ * must match a word of the name exactly, phonetically or within a few typos.
+ */
+export const fuzzyNameScore = (query: string, name: string): number => {
+  const queryWords = normalizeName(query).split(' ').filter(Boolean);
+  const words = normalizeName(name).split(' ').filter(Boolean);
+  if (queryWords.length === 0) return 0;
+
+  let total = 0;
+  for (const queryWord of queryWords) {
+    let best = 0;
+    for (const word of words) {
+      const match = matchWord(queryWord, word);
+      if (match) best = Math.max(best, WORD_MATCH_SCORES[match]);
+    }
+    if (best === 0) return 0;
+    total += best;
+  }
+  return total / queryWords.length;
+};
@@ -0,0 +1,6 @@
+// Windows offered for "recently played", in days counted back from when the
+// list is shown, so a saved "last 7 days" search always means the past week
+export const PLAYED_WITHIN_OPTIONS = [1, 7, 30];
+
+export const describePlayedWithin = (days: number): string =>
+  days === 1 ? 'Played in the last day' : `Played in the last ${days} days`;
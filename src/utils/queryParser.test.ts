@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { parseQuery } from './queryParser';
+
+const parsed = (input: string) => {
+  const { query, error } = parseQuery(input);
+  expect(error).toBeNull();
+  return query;
+};
+
+describe('parseQuery', () => {
+  it('treats an empty box as no query', () => {
+    expect(parseQuery('   ')).toEqual({ query: null, error: null });
+  });
+
+  it('parses plain words as text terms joined by AND', () => {
+    expect(parsed('kuku soli')).toEqual({
+      type: 'and',
+      operands: [{ type: 'text', value: 'kuku' }, { type: 'text', value: 'soli' }]
+    });
+    expect(parsed('kuku AND soli')).toEqual(parsed('kuku soli'));
+  });
+
+  it('parses field:value, with field aliases', () => {
+    expect(parsed('region:Guinée')).toEqual({ type: 'tag', field: 'region', value: 'Guinée' });
+    expect(parsed('lang:malinke')).toEqual({ type: 'tag', field: 'language', value: 'malinke' });
+    expect(parsed('ethnicgroup:susu')).toEqual({ type: 'tag', field: 'ethnic', value: 'susu' });
+  });
+
+  it('keeps quoted values together', () => {
+    expect(parsed('player:"Famoudou Konaté"')).toEqual({ type: 'tag', field: 'player', value: 'Famoudou Konaté' });
+    expect(parsed('"wolo sodon"')).toEqual({ type: 'text', value: 'wolo sodon' });
+  });
+
+  it('negates with - and NOT', () => {
+    const negated = { type: 'not', operand: { type: 'tag', field: 'occasion', value: 'wedding' } };
+    expect(parsed('-occasion:wedding')).toEqual(negated);
+    expect(parsed('NOT occasion:wedding')).toEqual(negated);
+  });
+
+  it('binds AND tighter than OR, with parentheses to group', () => {
+    expect(parsed('a b OR c')).toEqual({
+      type: 'or',
+      operands: [
+        { type: 'and', operands: [{ type: 'text', value: 'a' }, { type: 'text', value: 'b' }] },
+        { type: 'text', value: 'c' }
+      ]
+    });
+    expect(parsed('a (b OR c)')).toEqual({
+      type: 'and',
+      operands: [
+        { type: 'text', value: 'a' },
+        { type: 'or', operands: [{ type: 'text', value: 'b' }, { type: 'text', value: 'c' }] }
+      ]
+    });
+  });
+
+  it('parses recording counts and has: properties', () => {
+    expect(parsed('recordings>2')).toEqual({ type: 'recordingCount', operator: '>', value: 2 });
+    expect(parsed('recordings<=0')).toEqual({ type: 'recordingCount', operator: '<=', value: 0 });
+    expect(parsed('has:lyrics')).toEqual({ type: 'has', property: 'lyrics' });
+    expect(parsed('has:Favorite')).toEqual({ type: 'has', property: 'favorite' });
+  });
+
+  it('searches text that only looks like a field as text', () => {
+    expect(parsed('12:30')).toEqual({ type: 'text', value: '12:30' });
+  });
+
+  it.each([
+    ['colour:red', 'Unknown field "colour". Try name:, region:, ethnic:, occasion:, language:, player: or has:', 0, 6],
+    ['kuku has:video', 'Unknown property "video". Try has:lyrics, has:translation, has:notes, has:recordings, has:favorite, has:loop', 9, 5],
+    ['region:', 'Missing value after "region:"', 0, 7],
+    ['recordings>many', 'Expected a whole number after "recordings>"', 11, 4],
+    ['"wolo sodon', 'Missing closing quote', 0, 11],
+    ['(kuku OR soli', 'Missing closing parenthesis', 0, 1],
+    ['kuku )', 'Unexpected ")"', 5, 1],
+    ['kuku OR', 'Expected a search term after "OR"', 7, 1],
+    ['OR kuku', '"OR" needs a search term on both sides', 0, 2],
+    ['kuku ()', 'Empty parentheses', 5, 2],
+    ['""', 'Empty quotes', 0, 2]
+  ])('reports %j with its position', (input, message, position, length) => {
+    expect(parseQuery(input)).toEqual({ query: null, error: { message, position, length } });
+  });
+});
@@ -0,0 +1,242 @@
+import type { QueryNode, QueryParseError, QueryTagField, QueryHasProperty, QueryComparison } from '../types';
+
+// Parser for the rhythm list search box.
+//
+//   query   := or
+//   or      := and ("OR" and)*
+//   and     := unary ("AND"? unary)*
+//   unary   := ("-" | "NOT") unary | "(" or ")" | term
+//   term    := field ":" value | "recordings" comparison number | word | "quoted text"
+
+const FIELD_ALIASES: Record<string, QueryTagField> = {
+  name: 'name',
+  region: 'region',
+  ethnic: 'ethnic',
+  ethnicgroup: 'ethnic',
+  occasion: 'occasion',
+  language: 'language',
+  lang: 'language',
+  player: 'player'
+};
+
+const HAS_PROPERTIES: QueryHasProperty[] = ['lyrics', 'translation', 'notes', 'recordings', 'favorite', 'loop'];
+
+interface Token {
+  kind: 'word' | 'quoted' | 'lparen' | 'rparen' | 'minus';
+  text: string; // Word text, or the unquoted contents of a quoted string
+  quotedValue?: string; // For `field:"quoted value"`
+  position: number;
+  length: number;
+}
+
+class QuerySyntaxError extends Error {
+  position: number;
+  length: number;
+
+  constructor(message: string, position: number, length: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+    this.length = Math.max(1, length);
+  }
+}
+
+const readQuoted = (input: string, start: number): { value: string; end: number } => {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new QuerySyntaxError('Missing closing quote', start, input.length - start);
+  }
+  return { value: input.slice(start + 1, close), end: close + 1 };
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', text: char, position: i, length: 1 });
+      i++;
+    } else if (char === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ kind: 'minus', text: char, position: i, length: 1 });
+      i++;
+    } else if (char === '"') {
+      const { value, end } = readQuoted(input, i);
+      tokens.push({ kind: 'quoted', text: value, position: i, length: end - i });
+      i = end;
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s()"]/.test(input[i])) i++;
+
+      // field:"quoted value"
+      if (input[i] === '"' && input[i - 1] === ':') {
+        const { value, end } = readQuoted(input, i);
+        tokens.push({ kind: 'word', text: input.slice(start, i), quotedValue: value, position: start, length: end - start });
+        i = end;
+      } else {
+        tokens.push({ kind: 'word', text: input.slice(start, i), position: start, length: i - start });
+      }
+    }
+  }
+
+  return tokens;
+};
+
+const isKeyword = (token: Token | undefined, keyword: 'AND' | 'OR' | 'NOT'): boolean =>
+  token?.kind === 'word' && token.text === keyword;
+
+const parseTerm = (token: Token): QueryNode => {
+  if (token.kind === 'quoted') {
+    if (!token.text.trim()) {
+      throw new QuerySyntaxError('Empty quotes', token.position, token.length);
+    }
+    return { type: 'text', value: token.text };
+  }
+
+  const count = /^recordings(>=|<=|>|<|=)(.*)$/i.exec(token.text);
+  if (count) {
+    const value = Number(count[2]);
+    if (count[2] === '' || !Number.isInteger(value) || value < 0) {
+      throw new QuerySyntaxError(
+        `Expected a whole number after "recordings${count[1]}"`,
+        token.position + 'recordings'.length + count[1].length,
+        count[2].length
+      );
+    }
+    return { type: 'recordingCount', operator: count[1] as QueryComparison, value };
+  }
+
+  // Only `word:` prefixes are fields, so text such as "12:30" still searches as text
+  const colon = token.text.indexOf(':');
+  if (colon <= 0 || !/^[a-z]+$/i.test(token.text.slice(0, colon))) {
+    return { type: 'text', value: token.text };
+  }
+
+  const fieldName = token.text.slice(0, colon).toLowerCase();
+  const value = (token.quotedValue ?? token.text.slice(colon + 1)).trim();
+  const valuePosition = token.position + colon + 1;
+
+  if (fieldName === 'has') {
+    const property = value.toLowerCase() as QueryHasProperty;
+    if (!HAS_PROPERTIES.includes(property)) {
+      throw new QuerySyntaxError(
+        `Unknown property "${value}". Try has:${HAS_PROPERTIES.join(', has:')}`,
+        valuePosition,
+        token.length - colon - 1
+      );
+    }
+    return { type: 'has', property };
+  }
+
+  const field = FIELD_ALIASES[fieldName];
+  if (!field) {
+    throw new QuerySyntaxError(
+      `Unknown field "${fieldName}". Try name:, region:, ethnic:, occasion:, language:, player: or has:`,
+      token.position,
+      colon
+    );
+  }
+  if (!value) {
+    throw new QuerySyntaxError(`Missing value after "${fieldName}:"`, token.position, colon + 1);
+  }
+
+  return { type: 'tag', field, value };
+};
+
+const parseTokens = (tokens: Token[], inputLength: number): QueryNode => {
+  let index = 0;
+  const peek = () => tokens[index];
+
+  const parseOr = (): QueryNode => {
+    const operands = [parseAnd()];
+    while (isKeyword(peek(), 'OR')) {
+      index++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const operands = [parseUnary()];
+    for (;;) {
+      const next = peek();
+      if (!next || next.kind === 'rparen' || isKeyword(next, 'OR')) break;
+      if (isKeyword(next, 'AND')) index++;
+      operands.push(parseUnary());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (!token) {
+      const last = tokens[tokens.length - 1];
+      throw new QuerySyntaxError(
+        last ? `Expected a search term after "${last.text}"` : 'Expected a search term',
+        inputLength,
+        1
+      );
+    }
+
+    if (token.kind === 'minus' || isKeyword(token, 'NOT')) {
+      index++;
+      return { type: 'not', operand: parseUnary() };
+    }
+
+    if (token.kind === 'lparen') {
+      index++;
+      if (peek()?.kind === 'rparen') {
+        throw new QuerySyntaxError('Empty parentheses', token.position, peek()!.position - token.position + 1);
+      }
+      const inner = parseOr();
+      if (peek()?.kind !== 'rparen') {
+        throw new QuerySyntaxError('Missing closing parenthesis', token.position, 1);
+      }
+      index++;
+      return inner;
+    }
+
+    if (token.kind === 'rparen') {
+      throw new QuerySyntaxError('Unexpected ")"', token.position, 1);
+    }
+    if (isKeyword(token, 'AND') || isKeyword(token, 'OR')) {
+      throw new QuerySyntaxError(`"${token.text}" needs a search term on both sides`, token.position, token.length);
+    }
+
+    index++;
+    return parseTerm(token);
+  };
+
+  const node = parseOr();
+  const extra = peek();
+  if (extra) {
+    throw new QuerySyntaxError(`Unexpected "${extra.text}"`, extra.position, extra.length);
+  }
+  return node;
+};
+
+/**
+ * Parse a search box query into an AST. Plain words become full-text terms,
+ * so a query without any syntax behaves like a simple search.
+ */
+export const parseQuery = (input: string): { query: QueryNode | null; error: QueryParseError | null } => {
+  try {
+    const tokens = tokenize(input);
+    if (tokens.length === 0) {
+      return { query: null, error: null };
+    }
+    return { query: parseTokens(tokens, input.length), error: null };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return {
+        query: null,
+        error: { message: error.message, position: error.position, length: error.length }
+      };
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,20 @@
+import type { TabMessage } from '../types';
+
+// Coordination between tabs that have the archive open. A BroadcastChannel never
+// delivers a message back to the channel that posted it, so listeners only hear
+// about other tabs. Browsers without BroadcastChannel behave as a single tab.
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('rhythm-archive') : null;
+
+export const broadcast = (message: TabMessage): void => {
+  channel?.postMessage(message);
+};
+
+// Returns an unsubscribe function, for use as an effect cleanup
+export const onTabMessage = (listener: (message: TabMessage) => void): (() => void) => {
+  if (!channel) return () => {};
+
+  const handleMessage = (event: MessageEvent<TabMessage>) => listener(event.data);
+  channel.addEventListener('message', handleMessage);
+  return () => channel.removeEventListener('message', handleMessage);
+};
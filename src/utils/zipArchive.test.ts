@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { ZipWriter, isZipFile, readZipEntries } from './zipArchive';
+
+const buildArchive = async () => {
+  const writer = new ZipWriter();
+  await writer.addFile('manifest.json', '{"version":"2.4"}');
+  await writer.addFile('audio/Dúndún 1.webm', new Blob([new Uint8Array([1, 2, 3, 4, 5])], { type: 'audio/webm' }));
+  await writer.addFile('empty.txt', '');
+  return writer.finish();
+};
+
+// A copy of the archive with one byte changed
+const corruptByte = async (archive: Blob, offset: number) => {
+  const bytes = new Uint8Array(await archive.arrayBuffer());
+  bytes[offset] ^= 0xff;
+  return new Blob([bytes]);
+};
+
+describe('ZipWriter and readZipEntries', () => {
+  it('read back what was written', async () => {
+    const archive = await buildArchive();
+    expect(await isZipFile(archive)).toBe(true);
+
+    const entries = await readZipEntries(archive);
+    expect([...entries.keys()]).toEqual(['manifest.json', 'audio/Dúndún 1.webm', 'empty.txt']);
+    expect(await entries.get('manifest.json')!.text()).toBe('{"version":"2.4"}');
+    expect([...new Uint8Array(await entries.get('audio/Dúndún 1.webm')!.arrayBuffer())]).toEqual([1, 2, 3, 4, 5]);
+    expect(entries.get('empty.txt')!.size).toBe(0);
+  });
+
+  it('refuses an entry whose data was corrupted', async () => {
+    const archive = await buildArchive();
+    // The manifest's data follows its 30 byte header and 13 byte name
+    await expect(readZipEntries(await corruptByte(archive, 30 + 13))).rejects.toThrow('Corrupt ZIP entry "manifest.json": checksum mismatch');
+  });
+
+  it('refuses a truncated archive', async () => {
+    const archive = await buildArchive();
+    await expect(readZipEntries(archive.slice(0, archive.size - 40))).rejects.toThrow();
+    await expect(readZipEntries(archive.slice(0, 50))).rejects.toThrow('Not a valid ZIP archive');
+  });
+
+  it('refuses more entries than a ZIP can count', async () => {
+    const writer = new ZipWriter();
+    const empty = new Blob([]);
+    for (let i = 0; i < 0xffff; i++) {
+      await writer.addFile(`${i}`, empty);
+    }
+    await expect(writer.addFile('one too many', empty)).rejects.toThrow('Archive exceeds the 65,535 file ZIP limit');
+  });
+});
@@ -0,0 +1,202 @@
+// Minimal ZIP reader/writer for archive export and import.
+// Entries are stored uncompressed (method 0): audio is already compressed,
+// and storing lets us reference the original Blobs instead of copying bytes.
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const MAX_ZIP32_SIZE = 0xffffffff;
+const MAX_ZIP32_ENTRIES = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Compute CRC-32 by streaming the blob so large recordings are never fully in memory
+const crc32 = async (blob: Blob): Promise<number> => {
+  let crc = 0xffffffff;
+  const reader = blob.stream().getReader();
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    for (let i = 0; i < value.length; i++) {
+      crc = CRC_TABLE[(crc ^ value[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+interface CentralDirectoryEntry {
+  name: Uint8Array<ArrayBuffer>;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+export class ZipWriter {
+  private parts: BlobPart[] = [];
+  private entries: CentralDirectoryEntry[] = [];
+  private offset = 0;
+
+  async addFile(name: string, data: Blob | string, modified: Date = new Date()): Promise<void> {
+    const blob = typeof data === 'string' ? new Blob([data]) : data;
+    const encodedName = new TextEncoder().encode(name);
+    const crc = await crc32(blob);
+    const { time, date } = toDosDateTime(modified);
+
+    if (this.offset + 30 + encodedName.length + blob.size > MAX_ZIP32_SIZE) {
+      throw new Error('Archive exceeds the 4 GB ZIP limit');
+    }
+    if (this.entries.length === MAX_ZIP32_ENTRIES) {
+      throw new Error('Archive exceeds the 65,535 file ZIP limit');
+    }
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, LOCAL_FILE_HEADER, true);
+    header.setUint16(4, 20, true); // version needed
+    header.setUint16(6, UTF8_FLAG, true);
+    header.setUint16(8, 0, true); // stored
+    header.setUint16(10, time, true);
+    header.setUint16(12, date, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, blob.size, true);
+    header.setUint32(22, blob.size, true);
+    header.setUint16(26, encodedName.length, true);
+    header.setUint16(28, 0, true);
+
+    this.parts.push(header.buffer, encodedName, blob);
+    this.entries.push({ name: encodedName, crc, size: blob.size, offset: this.offset, time, date });
+    this.offset += 30 + encodedName.length + blob.size;
+  }
+
+  finish(): Blob {
+    const directoryOffset = this.offset;
+    let directorySize = 0;
+
+    for (const entry of this.entries) {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+      header.setUint16(4, 20, true); // version made by
+      header.setUint16(6, 20, true); // version needed
+      header.setUint16(8, UTF8_FLAG, true);
+      header.setUint16(10, 0, true); // stored
+      header.setUint16(12, entry.time, true);
+      header.setUint16(14, entry.date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.size, true);
+      header.setUint32(24, entry.size, true);
+      header.setUint16(28, entry.name.length, true);
+      header.setUint32(42, entry.offset, true);
+
+      this.parts.push(header.buffer, entry.name);
+      directorySize += 46 + entry.name.length;
+    }
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, directorySize, true);
+    end.setUint32(16, directoryOffset, true);
+    this.parts.push(end.buffer);
+
+    return new Blob(this.parts, { type: 'application/zip' });
+  }
+}
+
+export const isZipFile = async (file: Blob): Promise<boolean> => {
+  if (file.size < 4) return false;
+  const view = new DataView(await file.slice(0, 4).arrayBuffer());
+  return view.getUint32(0, true) === LOCAL_FILE_HEADER;
+};
+
+/**
+ * Read the entries of a stored (uncompressed) ZIP archive.
+ * Returned blobs are slices of the file, so audio is not loaded until used; each
+ * is streamed through once to check it against its CRC, so a truncated or
+ * corrupted archive is refused rather than imported with damaged audio.
+ */
+export const readZipEntries = async (file: Blob): Promise<Map<string, Blob>> => {
+  // The end-of-central-directory record is at most 22 bytes + a 64 KB comment from the end
+  const tailStart = Math.max(0, file.size - (22 + 0xffff));
+  const tail = new DataView(await file.slice(tailStart).arrayBuffer());
+
+  let endOffset = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('Not a valid ZIP archive');
+  }
+
+  const entryCount = tail.getUint16(endOffset + 10, true);
+  const directorySize = tail.getUint32(endOffset + 12, true);
+  const directoryOffset = tail.getUint32(endOffset + 16, true);
+  if (directoryOffset + directorySize > tailStart + endOffset) {
+    throw new Error('Corrupt ZIP central directory');
+  }
+  const directory = new DataView(
+    await file.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer()
+  );
+  const decoder = new TextDecoder();
+  const entries = new Map<string, Blob>();
+
+  let pos = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.getUint32(pos, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const method = directory.getUint16(pos + 10, true);
+    const crc = directory.getUint32(pos + 16, true);
+    const compressedSize = directory.getUint32(pos + 20, true);
+    const nameLength = directory.getUint16(pos + 28, true);
+    const extraLength = directory.getUint16(pos + 30, true);
+    const commentLength = directory.getUint16(pos + 32, true);
+    const localOffset = directory.getUint32(pos + 42, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, pos + 46, nameLength));
+
+    if (method !== 0) {
+      throw new Error(`Unsupported compression for "${name}" (archive must be stored, not compressed)`);
+    }
+
+    const local = new DataView(await file.slice(localOffset, localOffset + 30).arrayBuffer());
+    if (local.getUint32(0, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry "${name}"`);
+    }
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    if (dataStart + compressedSize > directoryOffset) {
+      throw new Error(`Corrupt ZIP entry "${name}": data runs past the end of the file`);
+    }
+    const data = file.slice(dataStart, dataStart + compressedSize);
+    if (await crc32(data) !== crc) {
+      throw new Error(`Corrupt ZIP entry "${name}": checksum mismatch`);
+    }
+    entries.set(name, data);
+
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
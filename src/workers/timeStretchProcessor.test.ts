@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+
+const SAMPLE_RATE = 48000;
+const BLOCK = 128; // Frames per render quantum
+const HOP = 512; // Output added per grain, see timeStretchProcessor
+
+interface Processor {
+  port: { onmessage: (event: { data: unknown }) => void };
+  process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean;
+}
+
+let TimeStretchProcessor: new () => Processor;
+
+// Rendered frames, until the processor stops writing. Blocks start as NaN so
+// frames it leaves alone can be told apart from silence.
+const render = (processor: Processor, maxBlocks = 2000): number[] => {
+  const rendered: number[] = [];
+  for (let block = 0; block < maxBlocks; block++) {
+    const output = new Float32Array(BLOCK).fill(NaN);
+    expect(processor.process([], [[output]])).toBe(true);
+    const written = output.findIndex(Number.isNaN);
+    rendered.push(...output.subarray(0, written === -1 ? BLOCK : written));
+    if (written !== -1) break;
+  }
+  return rendered;
+};
+
+const loaded = (input: Float32Array, speed: number) => {
+  const processor = new TimeStretchProcessor();
+  const send = (data: unknown) => processor.port.onmessage({ data });
+  send({ type: 'load', channels: [input] });
+  send({ type: 'speed', speed });
+  return { processor, send };
+};
+
+const peak = (samples: number[]) => samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+
+// A second of a low drum-like tone, then a loud click that lies past every end below
+const recording = () => {
+  const input = Float32Array.from({ length: 2 * SAMPLE_RATE }, (_, i) => 0.1 * Math.sin((2 * Math.PI * 110 * i) / SAMPLE_RATE));
+  input.fill(1, SAMPLE_RATE);
+  return input;
+};
+
+describe('TimeStretchProcessor', () => {
+  beforeAll(async () => {
+    vi.stubGlobal('sampleRate', SAMPLE_RATE);
+    vi.stubGlobal('AudioWorkletProcessor', class {
+      port = { onmessage: null, postMessage: () => {} };
+    });
+    vi.stubGlobal('registerProcessor', (_name: string, processor: typeof TimeStretchProcessor) => {
+      TimeStretchProcessor = processor;
+    });
+    await import('./timeStretchProcessor');
+  });
+
+  it.each([0.5, 1, 1.5])('plays a second of audio at %sx for a second divided by the speed, then stops', speed => {
+    const { processor, send } = loaded(recording(), speed);
+    send({ type: 'play', position: 0, end: 1 });
+
+    const rendered = render(processor);
+    expect(rendered.length).toBeGreaterThanOrEqual(SAMPLE_RATE / speed);
+    expect(rendered.length).toBeLessThan(SAMPLE_RATE / speed + HOP);
+    // Nothing past the end is heard
+    expect(peak(rendered)).toBeLessThan(0.2);
+    // And nothing more is played
+    expect(render(processor)).toEqual([]);
+  });
+
+  it('passes audio through unchanged at normal speed, after the first grain fades in', () => {
+    const input = recording();
+    const { processor, send } = loaded(input, 1);
+    send({ type: 'play', position: 0.25, end: 0.75 });
+
+    const rendered = render(processor);
+    const start = 0.25 * SAMPLE_RATE;
+    const error = rendered.slice(HOP, SAMPLE_RATE / 2).map((sample, i) => sample - input[start + HOP + i]);
+    expect(peak(error)).toBeLessThan(1e-6);
+  });
+
+  it('plays nothing once stopped', () => {
+    const { processor, send } = loaded(recording(), 1.5);
+    send({ type: 'play', position: 0, end: 1 });
+    expect(render(processor, 4)).toHaveLength(4 * BLOCK);
+
+    send({ type: 'stop' });
+    expect(render(processor)).toEqual([]);
+  });
+});
@@ -0,0 +1,153 @@
+// AudioWorklet that plays a recording at a different speed without changing its
+// pitch, using WSOLA (waveform-similarity overlap-add): the audio is cut into
+// overlapping windowed grains that are read faster or slower than they're written,
+// each one nudged to where it best lines up with the audio before it so drum
+// hits don't smear or double.
+//
+// Messages in:
+//   { type: 'load', channels: Float32Array[] }  - the decoded recording
+//   { type: 'play', position: number, end: number } - seconds; silent after end
+//   { type: 'stop' }
+//   { type: 'speed', speed: number } - 1 is normal speed
+
+// Worklet globals, which the DOM typings don't include
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processorCtor: typeof AudioWorkletProcessor): void;
+declare const sampleRate: number;
+
+type TimeStretchMessage =
+  | { type: 'load'; channels: Float32Array[] }
+  | { type: 'play'; position: number; end: number }
+  | { type: 'stop' }
+  | { type: 'speed'; speed: number };
+
+const GRAIN_SIZE = 1024; // samples per grain
+const HOP = GRAIN_SIZE / 2; // Output advance per grain; Hann windows at 50% overlap sum to 1
+const SEEK_RANGE = 256; // How far a grain may move to line up, in samples
+const CORRELATION_STRIDE = 4; // Compare every 4th sample when lining up
+
+const WINDOW = Float32Array.from({ length: GRAIN_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / GRAIN_SIZE));
+
+class TimeStretchProcessor extends AudioWorkletProcessor {
+  private channels: Float32Array[] = [];
+  private speed = 1;
+  private playing = false;
+  private readPosition = 0; // Nominal input position of the next grain, in samples
+  private endPosition = 0; // Input position to stop at, in samples
+  private previousGrainStart: number | null = null; // Where the last grain was actually read from
+  private overlap: Float32Array[] = []; // Grains being summed, GRAIN_SIZE per channel
+  private ready: Float32Array[] = []; // Finished output waiting to be played, per channel
+  private readyLength = 0;
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<TimeStretchMessage>) => this.handleMessage(event.data);
+  }
+
+  private handleMessage(message: TimeStretchMessage) {
+    switch (message.type) {
+      case 'load':
+        this.channels = message.channels;
+        this.overlap = this.channels.map(() => new Float32Array(GRAIN_SIZE));
+        this.ready = this.channels.map(() => new Float32Array(HOP + 128));
+        this.playing = false;
+        break;
+      case 'play':
+        this.readPosition = Math.round(message.position * sampleRate);
+        this.endPosition = Math.round(message.end * sampleRate);
+        this.previousGrainStart = null;
+        this.overlap.forEach(buffer => buffer.fill(0));
+        this.readyLength = 0;
+        this.playing = true;
+        break;
+      case 'stop':
+        this.playing = false;
+        break;
+      case 'speed':
+        this.speed = message.speed;
+        break;
+    }
+  }
+
+  // Offset from the nominal position that best continues the previous grain
+  private findAlignment(nominal: number): number {
+    if (this.previousGrainStart === null) return 0;
+
+    const target = this.previousGrainStart + HOP; // What naturally follows the previous grain
+    const reference = this.channels[0];
+    let bestOffset = 0;
+    let bestScore = -Infinity;
+
+    for (let offset = -SEEK_RANGE; offset <= SEEK_RANGE; offset++) {
+      const start = nominal + offset;
+      if (start < 0 || start + HOP > reference.length) continue;
+
+      // Normalized by the candidate's energy, so at normal speed the natural
+      // continuation always wins and the audio passes through unchanged
+      let correlation = 0;
+      let energy = 0;
+      for (let i = 0; i < HOP; i += CORRELATION_STRIDE) {
+        const sample = reference[start + i];
+        correlation += sample * (reference[target + i] ?? 0);
+        energy += sample * sample;
+      }
+      const score = correlation / Math.sqrt(energy + 1e-9);
+      if (score > bestScore) {
+        bestScore = score;
+        bestOffset = offset;
+      }
+    }
+    return bestOffset;
+  }
+
+  // Add one grain and move a hop's worth of finished output to the ready queue
+  private addGrain() {
+    const nominal = Math.round(this.readPosition);
+    const start = nominal + this.findAlignment(nominal);
+
+    this.channels.forEach((input, channel) => {
+      const overlap = this.overlap[channel];
+      for (let i = 0; i < GRAIN_SIZE; i++) {
+        const index = start + i;
+        const sample = index >= 0 && index < this.endPosition && index < input.length ? input[index] : 0;
+        overlap[i] += sample * WINDOW[i];
+      }
+
+      this.ready[channel].set(overlap.subarray(0, HOP), this.readyLength);
+      overlap.copyWithin(0, HOP);
+      overlap.fill(0, GRAIN_SIZE - HOP);
+    });
+
+    this.readyLength += HOP;
+    this.previousGrainStart = start;
+    this.readPosition += HOP * this.speed;
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const output = outputs[0];
+    const frames = output[0]?.length ?? 0;
+    if (!this.playing || this.channels.length === 0) return true;
+
+    while (this.readyLength < frames && this.readPosition < this.endPosition) {
+      this.addGrain();
+    }
+
+    const count = Math.min(frames, this.readyLength);
+    output.forEach((outputChannel, channel) => {
+      // Mono recordings play on every output channel
+      const ready = this.ready[Math.min(channel, this.ready.length - 1)];
+      outputChannel.set(ready.subarray(0, count));
+    });
+    this.ready.forEach(ready => ready.copyWithin(0, count, this.readyLength));
+    this.readyLength -= count;
+
+    if (this.readyLength === 0 && this.readPosition >= this.endPosition) {
+      this.playing = false;
+    }
+    return true;
+  }
+}
+
+registerProcessor('time-stretch', TimeStretchProcessor);